@@ -11,7 +11,7 @@
  */
 
 import { Backend, Agent } from '../../src/server/backend';
-import { Connection, Transport, Message, MessageType } from '../../src/client/connection';
+import { Connection, Transport, Message } from '../../src/client/connection';
 import { Doc } from '../../src/client/doc';
 import { types } from '../../src/core/types';
 import { counterType } from '../../src/types/counter';
@@ -43,14 +43,9 @@ function createConnection(backend: Backend): { connection: Connection; agent: Ag
     setImmediate(() => connection.handleMessage(message as Message));
   });
 
+  // The agent sends the handshake; docs wait for it before sending
   connection.bindToTransport(transport);
 
-  // Simulate handshake
-  connection.handleMessage({
-    a: MessageType.HANDSHAKE,
-    id: agent.clientId,
-  });
-
   return { connection, agent };
 }
 
@@ -159,6 +154,13 @@ async function main() {
   console.log(`so they could both be applied: ${snapshot1.data} + 10 + 7 = ${finalSnapshot.data}`);
   console.log('');
 
+  // Server ops are broadcast like any other, so subscribed clients keep up
+  await waitFor(() => doc1.version === finalSnapshot.v && doc2.version === finalSnapshot.v);
+  console.log('Subscribed clients received the server ops:');
+  console.log(`  doc1: version=${doc1.version}, data=${doc1.data}`);
+  console.log(`  doc2: version=${doc2.version}, data=${doc2.data}`);
+  console.log('');
+
   console.log('=== Example Complete ===');
 
   // Clean up
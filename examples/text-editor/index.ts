@@ -10,7 +10,7 @@
  */
 
 import { Backend, Agent } from '../../src/server/backend';
-import { Connection, Transport, Message, MessageType } from '../../src/client/connection';
+import { Connection, Transport, Message } from '../../src/client/connection';
 import { types } from '../../src/core/types';
 import { textType, InsertOp } from '../../src/types/text';
 
@@ -38,7 +38,6 @@ function createConnection(backend: Backend): { connection: Connection; agent: Ag
   });
 
   connection.bindToTransport(transport);
-  connection.handleMessage({ a: MessageType.HANDSHAKE, id: agent.clientId });
 
   return { connection, agent };
 }
@@ -119,6 +118,11 @@ async function main() {
   console.log(`After both ops: "${snapshot2.data}"`);
   console.log('');
 
+  // Server ops are broadcast like any other, so the subscribed client keeps up
+  await waitFor(() => doc1.version === snapshot2.v);
+  console.log(`Client doc1 received them too: "${doc1.data}" at version ${doc1.version}`);
+  console.log('');
+
   // Explain the transformation
   console.log('=== Why Position Transformation Matters ===\n');
   console.log('Text before: "hXelYlo"');
@@ -8,16 +8,29 @@
  * - Message sending and receiving
  * - Connection state (connecting, connected, disconnected)
  * - Document management (getting Doc instances)
+ * - Queries (see ./query)
  * - Unique client ID and sequence numbers for ops
  *
+ * The server speaks first: once the transport is bound, its Agent sends a
+ * handshake with our client ID, its protocol version and the OT types it
+ * supports. Until the handshake arrives nothing is sent; subscribes,
+ * fetches and queries made earlier wait for it. If the server speaks a
+ * different protocol version, the connection closes and emits 'error'
+ * with ERR_PROTOCOL_VERSION_NOT_SUPPORTED.
+ *
  * In ShareDB, this typically wraps a WebSocket, but for this tutorial
  * we use a simple message-based interface that can work with various transports.
  */
 
 import { EventEmitter } from 'events';
 import { Doc } from './doc';
+import { Query, QueryCallback } from './query';
 import { Snapshot } from '../core/snapshot';
 import { Op } from '../core/ot';
+import { Query as QueryExpression, QueryDiff } from '../core/query';
+import { TypeRegistry, types } from '../core/types';
+import { PROTOCOL_VERSION } from '../core/protocol';
+import { OTError, ErrorCode, ERROR_CODES } from '../core/error';
 
 /**
  * Message types for client-server communication
@@ -25,7 +38,7 @@ import { Op } from '../core/ot';
  * Reference: lib/message-actions.js in ShareDB
  */
 export enum MessageType {
-  /** Handshake - server sends client ID */
+  /** Handshake - server sends client ID, protocol version and types */
   HANDSHAKE = 'hs',
   /** Subscribe to document */
   SUBSCRIBE = 's',
@@ -35,6 +48,20 @@ export enum MessageType {
   FETCH = 'f',
   /** Unsubscribe from document */
   UNSUBSCRIBE = 'us',
+  /** Fetch a historical snapshot by version */
+  SNAPSHOT_FETCH = 'nf',
+  /** Fetch a historical snapshot by timestamp */
+  SNAPSHOT_FETCH_BY_TIMESTAMP = 'nt',
+  /** Fetch query results */
+  QUERY_FETCH = 'qf',
+  /** Subscribe to query results */
+  QUERY_SUBSCRIBE = 'qs',
+  /** Unsubscribe from query results */
+  QUERY_UNSUBSCRIBE = 'qu',
+  /** Change to subscribed query results, from the server */
+  QUERY = 'q',
+  /** Presence on a document */
+  PRESENCE = 'p',
 }
 
 /**
@@ -56,6 +83,10 @@ export interface HandshakeMessage extends BaseMessage {
   a: MessageType.HANDSHAKE;
   /** Client ID assigned by server */
   id: string;
+  /** Protocol version the server speaks (see ../core/protocol) */
+  protocol: number;
+  /** URIs of the OT types the server supports */
+  types: string[];
 }
 
 /**
@@ -92,8 +123,86 @@ export interface OpMessage extends BaseMessage {
   error?: { code: string; message: string };
 }
 
+/**
+ * Request for the ops committed to a document since a version, and the
+ * response
+ */
+export interface FetchMessage extends BaseMessage {
+  a: MessageType.FETCH;
+  c: string;
+  d: string;
+  /** Version to fetch ops from */
+  v: number;
+  /** The ops from v on, in order */
+  ops?: OpMessage[];
+  /** Error if the fetch failed */
+  error?: { code: string; message: string };
+}
+
+/**
+ * Historical snapshot request and response
+ */
+export interface SnapshotFetchMessage extends BaseMessage {
+  a: MessageType.SNAPSHOT_FETCH | MessageType.SNAPSHOT_FETCH_BY_TIMESTAMP;
+  c: string;
+  d: string;
+  /** Request ID, to match the response to its callback */
+  id: number;
+  /** Version to fetch ('nf'), or null for the current version */
+  v?: number | null;
+  /** Timestamp to fetch ('nt'), or null for the current version */
+  ts?: number | null;
+  /** The snapshot on success */
+  data?: Snapshot;
+  /** Error if the fetch failed */
+  error?: { code: string; message: string };
+}
+
+/**
+ * Query request, response, and change to subscribed results
+ */
+export interface QueryMessage extends BaseMessage {
+  a: MessageType.QUERY_FETCH | MessageType.QUERY_SUBSCRIBE | MessageType.QUERY_UNSUBSCRIBE | MessageType.QUERY;
+  /** Query ID, to match messages to the Query */
+  id: number;
+  /** The query ('qf' and 'qs' requests) */
+  q?: QueryExpression;
+  /** The results ('qf' and 'qs' responses) */
+  data?: Snapshot[];
+  /** Changes to the results ('q') */
+  diff?: QueryDiff[];
+  /** Error if the query failed */
+  error?: { code: string; message: string };
+}
+
+/**
+ * Presence message (for sending and receiving presence)
+ */
+export interface PresenceMessage extends BaseMessage {
+  a: MessageType.PRESENCE;
+  c: string;
+  d: string;
+  /** Document version the value refers to */
+  v: number;
+  /** The presence value, or null when leaving */
+  p: unknown;
+  /** Client ID of the presence's owner (from the server) */
+  src?: string;
+}
+
 /** Union of all message types */
-export type Message = HandshakeMessage | SubscribeMessage | OpMessage | BaseMessage;
+export type Message =
+  | HandshakeMessage
+  | SubscribeMessage
+  | OpMessage
+  | FetchMessage
+  | SnapshotFetchMessage
+  | QueryMessage
+  | PresenceMessage
+  | BaseMessage;
+
+/** Callback for a historical snapshot request */
+export type SnapshotCallback = (error: Error | undefined, snapshot?: Snapshot) => void;
 
 /**
  * Transport interface - abstraction for the underlying transport
@@ -108,6 +217,19 @@ export interface Transport {
   close(): void;
 }
 
+/**
+ * Connection options
+ */
+export interface ConnectionOptions {
+  /** OT types docs on this connection can use (defaults to the global registry) */
+  types?: TypeRegistry;
+  /**
+   * Milliseconds after which another client's presence expires unless it
+   * is sent again (default 30000). Local presence is re-sent at half this.
+   */
+  presenceTimeout?: number;
+}
+
 /**
  * Connection class - manages client-server communication
  */
@@ -130,8 +252,37 @@ export class Connection extends EventEmitter {
   /** Map of collection -> id -> Doc */
   private docs: Map<string, Map<string, Doc>> = new Map();
 
-  constructor() {
+  /** The OT types docs on this connection can use */
+  public readonly types: TypeRegistry;
+
+  /** URIs of the OT types the server supports (from the handshake) */
+  public serverTypes: string[] = [];
+
+  /** Milliseconds after which remote presence expires */
+  public readonly presenceTimeout: number;
+
+  /** ID for the next historical snapshot request */
+  private nextSnapshotRequestId: number = 1;
+
+  /** Historical snapshot requests waiting for a response, by request ID */
+  private snapshotRequests: Map<number, SnapshotCallback> = new Map();
+
+  /** ID for the next query */
+  private nextQueryId: number = 1;
+
+  /** Historical snapshot requests made before the handshake, to send after it */
+  private unsentSnapshotRequests: SnapshotFetchMessage[] = [];
+
+  /** Queries waiting for results, or subscribed, by query ID */
+  private queries: Map<number, Query> = new Map();
+
+  /** Query unsubscribes waiting for a response, by query ID */
+  private queryUnsubscribes: Map<number, () => void> = new Map();
+
+  constructor(options: ConnectionOptions = {}) {
     super();
+    this.types = options.types || types;
+    this.presenceTimeout = options.presenceTimeout ?? 30000;
   }
 
   /**
@@ -161,6 +312,22 @@ export class Connection extends EventEmitter {
       case MessageType.OP:
         this._handleOp(message as OpMessage);
         break;
+      case MessageType.FETCH:
+        this._handleFetch(message as FetchMessage);
+        break;
+      case MessageType.SNAPSHOT_FETCH:
+      case MessageType.SNAPSHOT_FETCH_BY_TIMESTAMP:
+        this._handleSnapshotFetch(message as SnapshotFetchMessage);
+        break;
+      case MessageType.QUERY_FETCH:
+      case MessageType.QUERY_SUBSCRIBE:
+      case MessageType.QUERY_UNSUBSCRIBE:
+      case MessageType.QUERY:
+        this._handleQuery(message as QueryMessage);
+        break;
+      case MessageType.PRESENCE:
+        this._handlePresence(message as PresenceMessage);
+        break;
       default:
         console.warn('Unknown message type:', message.a);
     }
@@ -170,7 +337,20 @@ export class Connection extends EventEmitter {
    * Handle handshake message from server.
    */
   private _handleHandshake(message: HandshakeMessage): void {
+    if (message.protocol !== PROTOCOL_VERSION) {
+      this.close();
+      this.emit(
+        'error',
+        new OTError(
+          ERROR_CODES.ERR_PROTOCOL_VERSION_NOT_SUPPORTED,
+          `Server speaks protocol version ${message.protocol}, but this client speaks version ${PROTOCOL_VERSION}`
+        )
+      );
+      return;
+    }
+
     this.id = message.id;
+    this.serverTypes = message.types;
     this.state = 'connected';
     this.canSend = true;
     this.emit('connected');
@@ -181,6 +361,14 @@ export class Connection extends EventEmitter {
         doc._onConnectionStateChanged();
       }
     }
+
+    // Send snapshot requests and queries made before we could
+    for (const request of this.unsentSnapshotRequests.splice(0)) {
+      this._send(request);
+    }
+    for (const query of this.queries.values()) {
+      if (!query.sent) query._send();
+    }
   }
 
   /**
@@ -206,6 +394,61 @@ export class Connection extends EventEmitter {
     }
   }
 
+  /**
+   * Handle the ops a doc asked for from server.
+   */
+  private _handleFetch(message: FetchMessage): void {
+    const doc = this._getDoc(message.c, message.d);
+    if (doc) {
+      doc._handleFetchOps(message.error, message.ops);
+    }
+  }
+
+  /**
+   * Handle another client's presence from server.
+   */
+  private _handlePresence(message: PresenceMessage): void {
+    const doc = this._getDoc(message.c, message.d);
+    if (doc && message.src !== undefined) {
+      doc._handlePresence({ src: message.src, v: message.v, p: message.p });
+    }
+  }
+
+  /**
+   * Handle a historical snapshot response from server.
+   */
+  private _handleSnapshotFetch(message: SnapshotFetchMessage): void {
+    const callback = this.snapshotRequests.get(message.id);
+    if (!callback) return;
+    this.snapshotRequests.delete(message.id);
+
+    if (message.error) {
+      callback(new OTError(message.error.code as ErrorCode, message.error.message));
+    } else {
+      callback(undefined, message.data);
+    }
+  }
+
+  /**
+   * Handle a query response, or a change to subscribed results, from server.
+   */
+  private _handleQuery(message: QueryMessage): void {
+    if (message.a === MessageType.QUERY_UNSUBSCRIBE) {
+      const callback = this.queryUnsubscribes.get(message.id);
+      this.queryUnsubscribes.delete(message.id);
+      callback?.();
+      return;
+    }
+
+    const query = this.queries.get(message.id);
+    if (!query) return;
+    if (message.a === MessageType.QUERY) {
+      query._handleDiff(message.error, message.diff);
+    } else {
+      query._handleResponse(message.error, message.data);
+    }
+  }
+
   /**
    * Get a document, creating it if it doesn't exist.
    *
@@ -289,6 +532,184 @@ export class Connection extends EventEmitter {
     this._send(message);
   }
 
+  /**
+   * Ask the server for the ops committed to a document since a version.
+   *
+   * @param doc - The document
+   * @param version - Version to fetch ops from
+   */
+  sendFetchOps(doc: Doc, version: number): void {
+    this._send({
+      a: MessageType.FETCH,
+      c: doc.collection,
+      d: doc.id,
+      v: version,
+    });
+  }
+
+  /**
+   * Send this client's presence on a document to the server.
+   *
+   * @param doc - The document
+   * @param value - The presence value, or null when leaving
+   */
+  sendPresence(doc: Doc, value: unknown): void {
+    this._send({
+      a: MessageType.PRESENCE,
+      c: doc.collection,
+      d: doc.id,
+      v: doc.version ?? 0,
+      p: value,
+    });
+  }
+
+  /**
+   * Fetch a read-only snapshot of a document as it was at a given version.
+   *
+   * Reference: Connection.prototype.fetchSnapshot in ShareDB
+   *
+   * @param collection - Collection name
+   * @param id - Document ID
+   * @param version - Version to fetch, or null for the current version
+   * @param callback - Called with the snapshot, or an error (code
+   *   ERR_OP_VERSION_NEWER_THAN_CURRENT_SNAPSHOT if the version is too new)
+   *
+   * This doesn't subscribe, and doesn't touch the cached Doc for the
+   * document.
+   *
+   * Example:
+   *   connection.fetchSnapshot('docs', 'doc1', 3, (err, snapshot) => {
+   *     console.log(snapshot.data); // doc1 after its first 3 ops
+   *   });
+   */
+  fetchSnapshot(collection: string, id: string, version: number | null, callback: SnapshotCallback): void {
+    const requestId = this.nextSnapshotRequestId++;
+    this.snapshotRequests.set(requestId, callback);
+    this._sendSnapshotRequest({ a: MessageType.SNAPSHOT_FETCH, c: collection, d: id, id: requestId, v: version });
+  }
+
+  /**
+   * Fetch a read-only snapshot of a document as it was at a given time.
+   *
+   * Reference: Connection.prototype.fetchSnapshotByTimestamp in ShareDB
+   *
+   * @param collection - Collection name
+   * @param id - Document ID
+   * @param timestamp - Time in milliseconds, or null for the current version
+   * @param callback - Called with the snapshot after the last op committed
+   *   at or before `timestamp`, or an error
+   */
+  fetchSnapshotByTimestamp(
+    collection: string,
+    id: string,
+    timestamp: number | null,
+    callback: SnapshotCallback
+  ): void {
+    const requestId = this.nextSnapshotRequestId++;
+    this.snapshotRequests.set(requestId, callback);
+    this._sendSnapshotRequest({
+      a: MessageType.SNAPSHOT_FETCH_BY_TIMESTAMP,
+      c: collection,
+      d: id,
+      id: requestId,
+      ts: timestamp,
+    });
+  }
+
+  /**
+   * Send a historical snapshot request, or hold it until the handshake.
+   */
+  private _sendSnapshotRequest(request: SnapshotFetchMessage): void {
+    if (this.canSend) {
+      this._send(request);
+    } else {
+      this.unsentSnapshotRequests.push(request);
+    }
+  }
+
+  /**
+   * Fetch the documents of a collection that match a query, once.
+   *
+   * Reference: Connection.prototype.createFetchQuery in ShareDB
+   *
+   * @param collection - Collection name
+   * @param query - The query (see ../core/query)
+   * @param callback - Called with the matching Docs, or an error
+   * @returns The Query; its results are also in `query.results`
+   *
+   * Example:
+   *   connection.createFetchQuery('tasks', { filter: { status: 'open' } }, (err, docs) => {
+   *     console.log(docs.map((doc) => doc.data));
+   *   });
+   */
+  createFetchQuery(collection: string, query: QueryExpression, callback?: QueryCallback): Query {
+    return this._createQuery('qf', collection, query, callback);
+  }
+
+  /**
+   * Subscribe to the documents of a collection that match a query.
+   *
+   * Reference: Connection.prototype.createSubscribeQuery in ShareDB
+   *
+   * The results stay live: documents are inserted, removed and moved as
+   * commits change what matches, and the Docs in the results get ops.
+   * Call `query.destroy()` to stop.
+   *
+   * @param collection - Collection name
+   * @param query - The query (see ../core/query)
+   * @param callback - Called with the first results, or an error
+   * @returns The Query
+   *
+   * Example:
+   *   const query = connection.createSubscribeQuery('tasks', {
+   *     filter: { status: 'open' },
+   *     sort: { priority: -1 },
+   *   });
+   *   query.on('insert', (docs, index) => console.log('now open:', docs));
+   */
+  createSubscribeQuery(collection: string, query: QueryExpression, callback?: QueryCallback): Query {
+    return this._createQuery('qs', collection, query, callback);
+  }
+
+  private _createQuery(
+    action: 'qf' | 'qs',
+    collection: string,
+    expression: QueryExpression,
+    callback?: QueryCallback
+  ): Query {
+    const query = new Query(this, this.nextQueryId++, action, collection, expression, callback);
+    this.queries.set(query.id, query);
+    if (this.canSend) query._send();
+    return query;
+  }
+
+  /**
+   * Send a query request to server (internal).
+   */
+  _sendQuery(query: Query): void {
+    this._send({
+      a: query.action === 'qf' ? MessageType.QUERY_FETCH : MessageType.QUERY_SUBSCRIBE,
+      c: query.collection,
+      id: query.id,
+      q: query.query,
+    });
+  }
+
+  /**
+   * Send a query unsubscribe request to server (internal).
+   */
+  _sendQueryUnsubscribe(query: Query, callback?: () => void): void {
+    if (callback) this.queryUnsubscribes.set(query.id, callback);
+    this._send({ a: MessageType.QUERY_UNSUBSCRIBE, id: query.id });
+  }
+
+  /**
+   * Forget a query that is finished or destroyed (internal).
+   */
+  _removeQuery(query: Query): void {
+    this.queries.delete(query.id);
+  }
+
   /**
    * Send a message through the transport.
    */
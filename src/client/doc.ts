@@ -27,13 +27,23 @@
  *    - Transform our inflightOp against the remote op
  *    - Transform all pendingOps against the remote op
  *    - Apply the remote op to our local state
+ *
+ * 4. Presence:
+ *    Each client can share a presence value (cursor, selection, name)
+ *    that the server relays but never stores. Remote values are moved
+ *    through every op applied locally, like a tracked selection.
  */
 
 import { EventEmitter } from 'events';
 import { Connection, OpMessage } from './connection';
-import { OTType, types } from '../core/types';
+import { OTType, CursorRange } from '../core/types';
+import { transformSelection, transformPresence, PresenceUpdate } from '../core/presence';
 import { Snapshot } from '../core/snapshot';
-import { Op, isCreateOp, isEditOp, isDeleteOp, CreateOp, EditOp, DeleteOp } from '../core/ot';
+import { OTError, ErrorCode } from '../core/error';
+import { Op, isCreateOp, isEditOp, isDeleteOp, CreateOp, EditOp, DeleteOp, normalize } from '../core/ot';
+
+/** How many recent ops to keep for moving late presence to the current version */
+const PRESENCE_OP_CACHE_SIZE = 50;
 
 /**
  * Internal operation with callbacks and metadata
@@ -98,13 +108,26 @@ function transformX(client: PendingOp, server: OpMessage): Error | undefined {
     const clientOp = type.transform(client.op as any, server.op as any, 'left');
     const serverOp = type.transform(server.op as any, client.op as any, 'right');
 
-    client.op = clientOp;
-    server.op = serverOp;
+    client.op = type.normalize ? type.normalize(clientOp) : clientOp;
+    server.op = type.normalize ? type.normalize(serverOp) : serverOp;
   }
 
   return;
 }
 
+/**
+ * A selection that follows a document as ops are applied to it.
+ *
+ * Created by Doc.trackSelection. Set `selection` when the user moves
+ * the caret; read it back after ops to know where the caret is now.
+ */
+export interface TrackedSelection {
+  /** The current selection */
+  selection: CursorRange;
+  /** Stop updating the selection */
+  stop(): void;
+}
+
 /**
  * Doc class - represents a document on the client side
  */
@@ -130,6 +153,15 @@ export class Doc extends EventEmitter {
   /** Whether we are subscribed to updates */
   public subscribed: boolean = false;
 
+  /** Whether subscribe() was called before the connection could send */
+  private subscribeUnsent: boolean = false;
+
+  /**
+   * Ack of our inflightOp that skipped versions, held while we fetch the
+   * ops the server transformed it against (see _opAcknowledged)
+   */
+  private heldAck: OpMessage | null = null;
+
   /**
    * The operation currently being sent to the server.
    *
@@ -147,6 +179,30 @@ export class Doc extends EventEmitter {
    */
   public pendingOps: PendingOp[] = [];
 
+  /** This client's presence on the document (see submitPresence) */
+  public localPresence: unknown = null;
+
+  /** Other clients' presence on the document, by client ID */
+  public remotePresence: Record<string, unknown> = {};
+
+  /** Whether localPresence waits for our ops to be acked before it is sent */
+  private presenceUnsent: boolean = false;
+
+  /** Callbacks of submitPresence calls whose value hasn't been sent yet */
+  private presenceCallbacks: Array<(error?: Error) => void> = [];
+
+  /** Re-sends localPresence, so it doesn't expire for other clients */
+  private presenceHeartbeat: ReturnType<typeof setInterval> | null = null;
+
+  /** Expiry timers of remote presence, by client ID */
+  private presenceExpiry: Map<string, ReturnType<typeof setTimeout>> = new Map();
+
+  /** Remote presence at versions we haven't reached yet, by client ID */
+  private pendingPresence: Map<string, PresenceUpdate> = new Map();
+
+  /** Recent ops as the server committed them: version -> op and its source */
+  private opCache: Map<number, { op: unknown; src?: string }> = new Map();
+
   constructor(connection: Connection, collection: string, id: string) {
     super();
     this.connection = connection;
@@ -170,6 +226,8 @@ export class Doc extends EventEmitter {
 
     if (this.connection.canSend) {
       this.connection.sendSubscribe(this);
+    } else {
+      this.subscribeUnsent = true;
     }
 
     if (callback) {
@@ -182,7 +240,7 @@ export class Doc extends EventEmitter {
    */
   _handleSubscribe(error: { code: string; message: string } | undefined, snapshot?: Snapshot): void {
     if (error) {
-      this.emit('subscribe', new Error(error.message));
+      this.emit('subscribe', new OTError(error.code as ErrorCode, error.message));
       return;
     }
 
@@ -203,9 +261,10 @@ export class Doc extends EventEmitter {
    */
   private _ingestSnapshot(snapshot: Snapshot): void {
     this.version = snapshot.v;
+    this.opCache.clear();
 
     if (snapshot.type) {
-      const type = types.get(snapshot.type);
+      const type = this.connection.types.get(snapshot.type);
       if (!type) {
         this.emit('error', new Error('Unknown type: ' + snapshot.type));
         return;
@@ -218,6 +277,19 @@ export class Doc extends EventEmitter {
     }
   }
 
+  /**
+   * Take a snapshot that arrived with query results (internal).
+   *
+   * Ignored if the doc is already at that version or newer, or has ops of
+   * its own on the way, which the server's ops will bring it past.
+   */
+  _ingestQuerySnapshot(snapshot: Snapshot): void {
+    if (this.version !== null && snapshot.v <= this.version) return;
+    if (this.hasWritePending()) return;
+    this._ingestSnapshot(snapshot);
+    this.emit('load');
+  }
+
   /**
    * Handle an operation from the server.
    *
@@ -233,10 +305,11 @@ export class Doc extends EventEmitter {
   ): void {
     if (error) {
       // Server rejected our op - need to rollback
+      const otError = new OTError(error.code as ErrorCode, error.message);
       if (this.inflightOp) {
-        this._rollback(new Error(error.message));
+        this._rollback(otError);
       } else {
-        this.emit('error', new Error(error.message));
+        this.emit('error', otError);
       }
       return;
     }
@@ -270,6 +343,11 @@ export class Doc extends EventEmitter {
       return;
     }
 
+    // Keep the op as the server committed it, before we transform it
+    if (message.op !== undefined) {
+      this._cacheOp(message.v, message.op, message.src);
+    }
+
     // Transform our pending ops against this remote op
     if (this.inflightOp) {
       const err = transformX(this.inflightOp, message);
@@ -290,6 +368,7 @@ export class Doc extends EventEmitter {
     // Apply the remote op to our local state
     this.version++;
     this._otApply(message, false);
+    this._flushPendingPresence();
   }
 
   /**
@@ -308,22 +387,25 @@ export class Doc extends EventEmitter {
 
       this.emit('before op', op.op, source);
       this.data = this.type.apply(this.data, op.op);
+      this._transformPresence(op.op, source, op.src);
       this.emit('op', op.op, source);
     } else if (op.create) {
       // Create operation
-      const type = types.get(op.create.type);
+      const type = this.connection.types.get(op.create.type);
       if (!type) {
         this.emit('error', new Error('Unknown type: ' + op.create.type));
         return;
       }
       this.type = type;
       this.data = type.create(op.create.data);
+      this._clearRemotePresence();
       this.emit('create', source);
     } else if (op.del) {
       // Delete operation
       const oldData = this.data;
       this.type = null;
       this.data = undefined;
+      this._clearRemotePresence();
       this.emit('del', oldData, source);
     }
   }
@@ -334,9 +416,27 @@ export class Doc extends EventEmitter {
   private _opAcknowledged(message: OpMessage): void {
     const inflightOp = this.inflightOp!;
 
-    // Update version
-    if ('create' in inflightOp && inflightOp.create) {
-      this.version = message.v!;
+    // The server acks with the version after the op. If that skips
+    // versions, our op was transformed against ops we never got (we
+    // aren't subscribed), and our data is behind. Fetch those ops first;
+    // our op comes back with them and is acked then.
+    //
+    // Reference: Doc.prototype._opAcknowledged in ShareDB
+    if (message.v !== undefined && this.version !== null && message.v > this.version + 1) {
+      this.heldAck = message;
+      this.connection.sendFetchOps(this, this.version);
+      return;
+    }
+
+    // Keep the op as the server committed it (unless it was a no-op)
+    if ('op' in inflightOp && message.v !== undefined && message.v > this.version!) {
+      this._cacheOp(message.v - 1, inflightOp.op, this.connection.id);
+    }
+
+    // Update version. The server acks with the version after the op,
+    // which stays the same if the op turned out to be a no-op.
+    if (message.v !== undefined) {
+      this.version = message.v;
     } else {
       this.version!++;
     }
@@ -350,9 +450,43 @@ export class Doc extends EventEmitter {
     this.inflightOp = null;
     this.flush();
 
+    // Presence waits until the server has all our ops
+    this._flushPendingPresence();
+    if (this.presenceUnsent && !this.hasWritePending()) {
+      this._sendPresence();
+    }
+
     this.emit('ack');
   }
 
+  /**
+   * Handle the ops fetched after an ack that skipped versions (internal).
+   *
+   * They go through _handleOp like broadcast ops: other clients' ops are
+   * transformed and applied, and our own op acks the inflightOp.
+   */
+  _handleFetchOps(error: { code: string; message: string } | undefined, ops?: OpMessage[]): void {
+    const heldAck = this.heldAck;
+    if (!heldAck) return;
+    this.heldAck = null;
+
+    if (error) {
+      this._hardRollback(new OTError(error.code as ErrorCode, error.message));
+      return;
+    }
+
+    for (const op of ops ?? []) {
+      const isOurs = this.inflightOp && op.src === this.inflightOp.src && op.seq === this.inflightOp.seq;
+      // Acks carry the version after the op, broadcast ops the version before it
+      this._handleOp(undefined, isOurs ? { ...op, v: op.v! + 1 } : op);
+    }
+
+    // Not among them: the server found our op was a no-op
+    if (this.inflightOp && heldAck.src === this.inflightOp.src && heldAck.seq === this.inflightOp.seq) {
+      this._opAcknowledged({ ...heldAck, v: this.version! });
+    }
+  }
+
   /**
    * Rollback after server rejected our op.
    *
@@ -396,6 +530,10 @@ export class Doc extends EventEmitter {
    */
   _onConnectionStateChanged(): void {
     if (this.connection.canSend) {
+      if (this.subscribeUnsent) {
+        this.subscribeUnsent = false;
+        this.connection.sendSubscribe(this);
+      }
       this.flush();
     } else {
       // Connection lost - move inflight back to pending
@@ -403,6 +541,7 @@ export class Doc extends EventEmitter {
         this.pendingOps.unshift(this.inflightOp);
         this.inflightOp = null;
       }
+      this.heldAck = null;
       this.subscribed = false;
     }
   }
@@ -429,6 +568,12 @@ export class Doc extends EventEmitter {
     this.inflightOp = this.pendingOps.shift()!;
     const op = this.inflightOp;
 
+    // Send against our current version: remote ops may have arrived
+    // since the op was submitted, and earlier ops of ours have been acked
+    if (this.version !== null) {
+      op.v = this.version;
+    }
+
     // Assign src and seq for identifying this op
     if (op.seq === undefined) {
       op.seq = this.connection.seq++;
@@ -452,6 +597,9 @@ export class Doc extends EventEmitter {
    *
    * Example (text):
    *   doc.submitOp({ type: 'insert', pos: 0, text: 'Hello' });
+   *
+   * Ops that normalize to a no-op are not sent; the callback is called
+   * on the next tick.
    */
   submitOp(component: unknown, callback?: (error?: Error) => void): void {
     if (!this.type) {
@@ -466,6 +614,11 @@ export class Doc extends EventEmitter {
       callbacks: [callback],
     };
 
+    if (normalize(this.type, op as EditOp)) {
+      setTimeout(() => callback?.(), 0);
+      return;
+    }
+
     this._submit(op);
   }
 
@@ -490,11 +643,15 @@ export class Doc extends EventEmitter {
       return;
     }
 
-    const typeObj = types.get(type);
+    const typeObj = this.connection.types.get(type);
     if (!typeObj) {
       callback?.(new Error('Unknown type: ' + type));
       return;
     }
+    if (this.connection.state === 'connected' && !this.connection.serverTypes.includes(typeObj.uri)) {
+      callback?.(new Error('Server does not support type: ' + type));
+      return;
+    }
 
     const op: PendingOp = {
       create: { type: typeObj.uri, data },
@@ -542,7 +699,7 @@ export class Doc extends EventEmitter {
 
     // If it's a create op, update local type
     if ('create' in op && op.create) {
-      const type = types.get(op.create.type);
+      const type = this.connection.types.get(op.create.type);
       if (type) {
         this.type = type;
         this.data = type.create(op.create.data);
@@ -562,6 +719,196 @@ export class Doc extends EventEmitter {
     setTimeout(() => this.flush(), 0);
   }
 
+  /**
+   * Track a selection, keeping it in place as the document changes.
+   *
+   * Every 'op' event moves the selection through the op, whether the op
+   * was submitted locally or came from another client. This uses the
+   * type's transformSelection (or transformCursor) method.
+   *
+   * @param selection - The initial selection
+   * @returns The tracked selection
+   *
+   * Example (text):
+   *   const tracked = doc.trackSelection({ start: 2, end: 2 });
+   *   doc.submitOp({ type: 'insert', pos: 0, text: 'ab' });
+   *   tracked.selection // => { start: 4, end: 4 }
+   *   tracked.stop();
+   */
+  trackSelection(selection: CursorRange): TrackedSelection {
+    const onOp = (op: unknown, source: boolean) => {
+      if (this.type) {
+        tracked.selection = transformSelection(this.type, tracked.selection, op, source);
+      }
+    };
+
+    const tracked: TrackedSelection = {
+      selection: { ...selection },
+      stop: () => {
+        this.off('op', onOp);
+      },
+    };
+
+    this.on('op', onOp);
+    return tracked;
+  }
+
+  /**
+   * Share this client's presence with the document's other clients.
+   *
+   * Reference: LocalDocPresence.prototype.submit in ShareDB
+   *
+   * The value is relayed, never stored, and moves through later ops
+   * like any presence (see ../core/presence). It is sent once the server
+   * has all our pending ops, so it refers to a version the server knows,
+   * and re-sent periodically so it doesn't expire. Submit null to leave.
+   *
+   * @param value - The presence value, or null
+   * @param callback - Called once the value is sent, or on error
+   *
+   * Example (text):
+   *   doc.submitPresence({ start: 4, end: 4, name: 'Ada' });
+   *   otherDoc.on('presence', (clientId, value) => drawCursor(clientId, value));
+   */
+  submitPresence(value: unknown, callback?: (error?: Error) => void): void {
+    if (!this.subscribed) {
+      callback?.(new Error('Cannot submit presence: document is not subscribed'));
+      return;
+    }
+
+    this.localPresence = value ?? null;
+    if (callback) this.presenceCallbacks.push(callback);
+    this._sendPresence();
+
+    if (this.localPresence === null && this.presenceHeartbeat) {
+      clearInterval(this.presenceHeartbeat);
+      this.presenceHeartbeat = null;
+    } else if (this.localPresence !== null && !this.presenceHeartbeat) {
+      this.presenceHeartbeat = setInterval(() => this._sendPresence(), this.connection.presenceTimeout / 2);
+      this.presenceHeartbeat.unref?.();
+    }
+  }
+
+  /**
+   * Send localPresence, or hold it until our ops are acked.
+   */
+  private _sendPresence(): void {
+    if (this.hasWritePending() || !this.connection.canSend) {
+      this.presenceUnsent = true;
+      return;
+    }
+    this.presenceUnsent = false;
+    this.connection.sendPresence(this, this.localPresence);
+
+    const callbacks = this.presenceCallbacks;
+    this.presenceCallbacks = [];
+    for (const callback of callbacks) {
+      callback();
+    }
+  }
+
+  /**
+   * Handle another client's presence from the server (internal).
+   *
+   * The value refers to server version `v`. It is moved to what this
+   * client shows: through ops we got since (from the op cache), then
+   * through our own ops the server doesn't have yet.
+   */
+  _handlePresence(update: PresenceUpdate): void {
+    if (update.p === null) {
+      this.pendingPresence.delete(update.src);
+      this._setRemotePresence(update.src, null);
+      return;
+    }
+    if (this.version === null || !this.type) return;
+    if (update.v > this.version) {
+      // Wait until the ops before it reach us
+      this.pendingPresence.set(update.src, update);
+      return;
+    }
+    this.pendingPresence.delete(update.src);
+
+    let value: unknown = update.p;
+    for (let v = update.v; v < this.version; v++) {
+      const cached = this.opCache.get(v);
+      // Too old to place; the next heartbeat will bring it again
+      if (!cached) return;
+      value = transformPresence(this.type, value, cached.op, cached.src === update.src);
+    }
+    for (const op of this.inflightOp ? [this.inflightOp, ...this.pendingOps] : this.pendingOps) {
+      if (!('op' in op)) return;
+      value = transformPresence(this.type, value, op.op, false);
+    }
+    this._setRemotePresence(update.src, value);
+  }
+
+  /**
+   * Set or remove one remote presence, restarting its expiry timer.
+   */
+  private _setRemotePresence(clientId: string, value: unknown): void {
+    const timer = this.presenceExpiry.get(clientId);
+    if (timer) clearTimeout(timer);
+    this.presenceExpiry.delete(clientId);
+
+    if (value === null) {
+      if (!(clientId in this.remotePresence)) return;
+      delete this.remotePresence[clientId];
+    } else {
+      this.remotePresence[clientId] = value;
+      const expiry = setTimeout(() => this._setRemotePresence(clientId, null), this.connection.presenceTimeout);
+      expiry.unref?.();
+      this.presenceExpiry.set(clientId, expiry);
+    }
+    this.emit('presence', clientId, value);
+  }
+
+  /**
+   * Remove all remote presence, e.g. when the document is created or deleted.
+   */
+  private _clearRemotePresence(): void {
+    this.pendingPresence.clear();
+    this.opCache.clear();
+    for (const clientId of Object.keys(this.remotePresence)) {
+      this._setRemotePresence(clientId, null);
+    }
+  }
+
+  /**
+   * Move all presence through an op applied to local state.
+   *
+   * @param op - The op, as applied locally
+   * @param source - true if it is our own op
+   * @param src - Client ID of the remote op's author
+   */
+  private _transformPresence(op: unknown, source: boolean, src?: string): void {
+    const type = this.type!;
+    for (const [clientId, value] of Object.entries(this.remotePresence)) {
+      this.remotePresence[clientId] = transformPresence(type, value, op, !source && clientId === src);
+    }
+    if (this.localPresence !== null) {
+      this.localPresence = transformPresence(type, this.localPresence, op, source);
+    }
+  }
+
+  /**
+   * Handle remote presence that was waiting for our version to catch up.
+   */
+  private _flushPendingPresence(): void {
+    for (const update of Array.from(this.pendingPresence.values())) {
+      if (this.version !== null && update.v <= this.version) {
+        this._handlePresence(update);
+      }
+    }
+  }
+
+  /**
+   * Remember an op as the server committed it at `version`.
+   */
+  private _cacheOp(version: number, op: unknown, src?: string): void {
+    this.opCache.set(version, { op, src });
+    this.opCache.delete(version - PRESENCE_OP_CACHE_SIZE);
+  }
+
   /**
    * Check if there are pending writes.
    */
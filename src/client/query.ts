@@ -0,0 +1,185 @@
+/**
+ * Query - Client-side query results
+ *
+ * Reference: lib/client/query.js in ShareDB
+ *
+ * A Query holds the Docs of a collection that match a query (see
+ * ../core/query for the language). Get one from the Connection:
+ *
+ *   createFetchQuery       results once
+ *   createSubscribeQuery   results kept live as documents change
+ *
+ * A subscribed query keeps both the list and the Docs in it up to date.
+ * When a commit changes which documents match, or their order, the
+ * server sends the difference and the query emits:
+ *
+ *   'insert' (docs, index)       docs entered the results at index
+ *   'remove' (docs, index)       docs left the results from index
+ *   'move'   (docs, from, to)    docs moved within the results
+ *   'changed' (results)          after any of the above
+ *
+ * Example:
+ *   const query = connection.createSubscribeQuery('tasks', {
+ *     filter: { status: 'open' },
+ *     sort: { priority: -1 },
+ *   });
+ *   query.on('ready', () => render(query.results));
+ *   query.on('changed', (results) => render(results));
+ */
+
+import { EventEmitter } from 'events';
+import { Connection } from './connection';
+import { Doc } from './doc';
+import { Snapshot } from '../core/snapshot';
+import { Query as QueryExpression, QueryDiff } from '../core/query';
+import { OTError, ErrorCode } from '../core/error';
+
+/** Callback for query results */
+export type QueryCallback = (error: Error | undefined, results?: Doc[]) => void;
+
+/**
+ * Query class - the results of a query
+ */
+export class Query extends EventEmitter {
+  /** Parent connection */
+  public readonly connection: Connection;
+
+  /** Query ID, unique on the connection */
+  public readonly id: number;
+
+  /** Message action: 'qf' for a fetch, 'qs' for a subscription */
+  public readonly action: 'qf' | 'qs';
+
+  /** Collection name */
+  public readonly collection: string;
+
+  /** The query */
+  public readonly query: QueryExpression;
+
+  /** The matching Docs, in query order */
+  public results: Doc[] = [];
+
+  /** Whether the first results have arrived */
+  public ready: boolean = false;
+
+  /** Whether the query was sent to the server */
+  public sent: boolean = false;
+
+  constructor(
+    connection: Connection,
+    id: number,
+    action: 'qf' | 'qs',
+    collection: string,
+    query: QueryExpression,
+    callback?: QueryCallback
+  ) {
+    super();
+    this.connection = connection;
+    this.id = id;
+    this.action = action;
+    this.collection = collection;
+    this.query = query;
+
+    if (callback) {
+      this.once('ready', () => callback(undefined, this.results));
+      this.once('error', (error: Error) => {
+        if (!this.ready) callback(error);
+      });
+    }
+  }
+
+  /**
+   * Send the query to the server (internal).
+   */
+  _send(): void {
+    this.sent = true;
+    this.connection._sendQuery(this);
+  }
+
+  /**
+   * Handle the first results from the server (internal).
+   */
+  _handleResponse(error: { code: string; message: string } | undefined, snapshots?: Snapshot[]): void {
+    if (error) {
+      this.connection._removeQuery(this);
+      this._emitError(new OTError(error.code as ErrorCode, error.message));
+      return;
+    }
+
+    this.results = this._ingest(snapshots ?? []);
+    this.ready = true;
+    if (this.action === 'qf') {
+      this.connection._removeQuery(this);
+    }
+    this.emit('ready');
+  }
+
+  /**
+   * Apply a change to the results sent by the server (internal).
+   */
+  _handleDiff(error: { code: string; message: string } | undefined, diff?: QueryDiff[]): void {
+    if (error) {
+      this._emitError(new OTError(error.code as ErrorCode, error.message));
+      return;
+    }
+
+    for (const change of diff ?? []) {
+      switch (change.type) {
+        case 'insert': {
+          const docs = this._ingest(change.values);
+          this.results.splice(change.index, 0, ...docs);
+          this.emit('insert', docs, change.index);
+          break;
+        }
+        case 'remove': {
+          const docs = this.results.splice(change.index, change.howMany);
+          this.emit('remove', docs, change.index);
+          break;
+        }
+        case 'move': {
+          const docs = this.results.splice(change.from, change.howMany);
+          this.results.splice(change.to, 0, ...docs);
+          this.emit('move', docs, change.from, change.to);
+          break;
+        }
+      }
+    }
+    this.emit('changed', this.results);
+  }
+
+  /**
+   * Stop the query. A subscribed query stops getting changes, and its
+   * Docs stop getting ops unless they are subscribed themselves.
+   *
+   * @param callback - Called once the server has stopped the query
+   */
+  destroy(callback?: () => void): void {
+    this.connection._removeQuery(this);
+    if (this.action === 'qs' && this.sent && this.connection.canSend) {
+      this.connection._sendQueryUnsubscribe(this, callback);
+    } else {
+      callback?.();
+    }
+  }
+
+  /**
+   * Emit an error, if anyone listens for it. Without a listener,
+   * EventEmitter throws it, out of the connection's message handling.
+   */
+  private _emitError(error: OTError): void {
+    if (this.listenerCount('error') > 0) {
+      this.emit('error', error);
+    }
+  }
+
+  /**
+   * Turn snapshots into the connection's Docs.
+   */
+  private _ingest(snapshots: Snapshot[]): Doc[] {
+    return snapshots.map((snapshot) => {
+      const doc = this.connection.get(this.collection, snapshot.id);
+      doc._ingestQuerySnapshot(snapshot);
+      return doc;
+    });
+  }
+}
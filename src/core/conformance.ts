@@ -0,0 +1,285 @@
+/**
+ * OT Type Conformance Checker
+ *
+ * Reference: ot-fuzzer, used to test the ShareDB/ottypes types
+ *
+ * Writing a transform function is easy to get subtly wrong: it passes
+ * every example you thought of and then diverges on the one you didn't.
+ * This module throws lots of random documents and ops at an OTType and
+ * checks the properties every type must satisfy:
+ *
+ * - transform (TP1):
+ *     apply(apply(d, a), transform(b, a, 'right')) ===
+ *     apply(apply(d, b), transform(a, b, 'left'))
+ * - compose (if implemented):
+ *     apply(d, compose(a, b)) === apply(apply(d, a), b)
+ * - invert (if implemented):
+ *     apply(apply(d, a), invert(a)) === d
+ * - normalize (if implemented):
+ *     normalize(normalize(a)) === normalize(a), and
+ *     apply(d, normalize(a)) === apply(d, a)
+ *
+ * The caller supplies generators for documents and ops. Document size
+ * grows over the run, and once a property fails the checker keeps
+ * searching at smaller sizes, so the reported failure is the smallest
+ * case it found.
+ *
+ * Example:
+ *   const result = checkConformance(counterType, {
+ *     snapshot: (random) => random.int(100),
+ *     op: (random) => random.int(20) - 10,
+ *   });
+ *   if (result.failure) console.log(result.failure);
+ */
+
+import { OTType } from './types';
+
+/**
+ * Seeded random number source, so failures can be reproduced.
+ */
+export interface Random {
+  /** Float in [0, 1) */
+  next(): number;
+  /** Integer in [0, max) */
+  int(max: number): number;
+  /** Random element of a non-empty array */
+  pick<T>(items: readonly T[]): T;
+}
+
+/**
+ * Create a seeded random number source (mulberry32).
+ *
+ * @param seed - Any 32-bit integer
+ */
+export function createRandom(seed: number): Random {
+  let state = seed >>> 0;
+
+  const next = (): number => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  return {
+    next,
+    int: (max) => Math.floor(next() * max),
+    pick: (items) => items[Math.floor(next() * items.length)],
+  };
+}
+
+/**
+ * Generators for random documents and ops of a type.
+ */
+export interface ConformanceGenerators<TSnapshot, TOp> {
+  /**
+   * Generate a document.
+   *
+   * @param random - Random source
+   * @param size - Suggested size; grows from 0 over the run
+   */
+  snapshot(random: Random, size: number): TSnapshot;
+
+  /**
+   * Generate an op that can be applied to the given document.
+   *
+   * To check invert, generated ops must carry whatever the type needs
+   * to invert them (e.g. the text a delete removes).
+   */
+  op(random: Random, snapshot: TSnapshot, size: number): TOp;
+}
+
+/** The properties the checker knows about */
+export type ConformanceProperty = 'transform' | 'compose' | 'invert' | 'normalize';
+
+/**
+ * Options for checkConformance
+ */
+export interface ConformanceOptions<TSnapshot> {
+  /** Random cases per property (default 500) */
+  runs?: number;
+  /** Seed for the run (default 1) */
+  seed?: number;
+  /** Largest size passed to the generators (default 10) */
+  maxSize?: number;
+  /** Document equality (defaults to structural equality) */
+  equal?: (a: TSnapshot, b: TSnapshot) => boolean;
+}
+
+/**
+ * A failing case.
+ */
+export interface ConformanceFailure {
+  /** The property that does not hold */
+  property: ConformanceProperty;
+  /** Seed that reproduces this case */
+  seed: number;
+  /** Generator size for this case */
+  size: number;
+  /** The starting document */
+  snapshot: unknown;
+  /** The ops involved, in the order the property names them */
+  ops: unknown[];
+  /** What went wrong */
+  message: string;
+}
+
+/**
+ * Result of a conformance run.
+ */
+export interface ConformanceResult {
+  /** Properties that were checked (optional methods may be missing) */
+  checked: ConformanceProperty[];
+  /** Smallest failing case found, if any */
+  failure?: ConformanceFailure;
+}
+
+function clone<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
+
+/**
+ * Compare two JSON values structurally, ignoring the order of object keys:
+ * edits to different keys can leave them in either order.
+ */
+function defaultEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  if (Array.isArray(a) || Array.isArray(b)) {
+    if (!Array.isArray(a) || !Array.isArray(b) || a.length !== b.length) return false;
+    return a.every((value, i) => defaultEqual(value, b[i]));
+  }
+  const objA = a as Record<string, unknown>;
+  const objB = b as Record<string, unknown>;
+  const keys = Object.keys(objA);
+  if (keys.length !== Object.keys(objB).length) return false;
+  return keys.every((key) => Object.prototype.hasOwnProperty.call(objB, key) && defaultEqual(objA[key], objB[key]));
+}
+
+/** Size of a failing case, used to pick the smallest one */
+function caseSize(failure: ConformanceFailure): number {
+  return JSON.stringify([failure.snapshot, failure.ops]).length;
+}
+
+/**
+ * Check one property on one random case.
+ *
+ * @returns A failure, or null if the property held
+ */
+function checkCase<TSnapshot, TOp>(
+  type: OTType<TSnapshot, TOp>,
+  generators: ConformanceGenerators<TSnapshot, TOp>,
+  property: ConformanceProperty,
+  seed: number,
+  size: number,
+  equal: (a: TSnapshot, b: TSnapshot) => boolean
+): ConformanceFailure | null {
+  const random = createRandom(seed);
+  const snapshot = generators.snapshot(random, size);
+  const ops: TOp[] = [];
+
+  // Types must not mutate their inputs, so every call gets a copy
+  const apply = (doc: TSnapshot, op: TOp): TSnapshot => type.apply(clone(doc), clone(op));
+
+  const fail = (message: string): ConformanceFailure => ({
+    property,
+    seed,
+    size,
+    snapshot: clone(snapshot),
+    ops: clone(ops),
+    message,
+  });
+
+  try {
+    const a = generators.op(random, clone(snapshot), size);
+    ops.push(a);
+
+    if (property === 'transform') {
+      const b = generators.op(random, clone(snapshot), size);
+      ops.push(b);
+      const left = apply(apply(snapshot, a), type.transform(clone(b), clone(a), 'right'));
+      const right = apply(apply(snapshot, b), type.transform(clone(a), clone(b), 'left'));
+      if (!equal(left, right)) {
+        return fail(`Documents diverged: ${JSON.stringify(left)} !== ${JSON.stringify(right)}`);
+      }
+    } else if (property === 'compose') {
+      const afterA = apply(snapshot, a);
+      const b = generators.op(random, clone(afterA), size);
+      ops.push(b);
+      const sequential = apply(afterA, b);
+      const composed = apply(snapshot, type.compose!(clone(a), clone(b)));
+      if (!equal(sequential, composed)) {
+        return fail(`compose differs: ${JSON.stringify(composed)} !== ${JSON.stringify(sequential)}`);
+      }
+    } else if (property === 'invert') {
+      const restored = apply(apply(snapshot, a), type.invert!(clone(a)));
+      if (!equal(restored, snapshot)) {
+        return fail(`invert did not restore the document: ${JSON.stringify(restored)}`);
+      }
+    } else {
+      const once = type.normalize!(clone(a));
+      const twice = type.normalize!(clone(once));
+      if (!defaultEqual(once, twice)) {
+        return fail(`normalize is not idempotent: ${JSON.stringify(once)} -> ${JSON.stringify(twice)}`);
+      }
+      if (!equal(apply(snapshot, once), apply(snapshot, a))) {
+        return fail('normalize changed the effect of the op');
+      }
+    }
+  } catch (error: any) {
+    return fail(`Threw: ${error?.message ?? error}`);
+  }
+
+  return null;
+}
+
+/**
+ * Check that an OTType satisfies the OT properties on random cases.
+ *
+ * @param type - The type to check
+ * @param generators - Random document and op generators
+ * @param options - Run options
+ * @returns The checked properties and the smallest failing case, if any
+ */
+export function checkConformance<TSnapshot, TOp>(
+  type: OTType<TSnapshot, TOp>,
+  generators: ConformanceGenerators<TSnapshot, TOp>,
+  options: ConformanceOptions<TSnapshot> = {}
+): ConformanceResult {
+  const runs = options.runs ?? 500;
+  const seed = options.seed ?? 1;
+  const maxSize = options.maxSize ?? 10;
+  const equal = options.equal ?? defaultEqual;
+
+  const checked: ConformanceProperty[] = ['transform'];
+  if (type.compose) checked.push('compose');
+  if (type.invert) checked.push('invert');
+  if (type.normalize) checked.push('normalize');
+
+  for (const property of checked) {
+    let found: ConformanceFailure | null = null;
+
+    // Search phase: sizes grow so simple cases are tried first
+    for (let i = 0; i < runs && !found; i++) {
+      const size = Math.floor((i * (maxSize + 1)) / runs);
+      found = checkCase(type, generators, property, seed + i, size, equal);
+    }
+
+    if (!found) continue;
+
+    // Shrink phase: look for smaller failures at sizes up to the failing one
+    let smallest: ConformanceFailure = found;
+    for (let i = 0; i < runs; i++) {
+      const size = i % (found.size + 1);
+      const failure = checkCase(type, generators, property, seed + runs + i, size, equal);
+      if (failure && caseSize(failure) < caseSize(smallest)) {
+        smallest = failure;
+      }
+    }
+
+    return { checked, failure: smallest };
+  }
+
+  return { checked };
+}
@@ -25,14 +25,31 @@ export const ERROR_CODES = {
   ERR_OT_OP_NOT_PROVIDED: 'ERR_OT_OP_NOT_PROVIDED',
   ERR_OP_VERSION_MISMATCH_DURING_TRANSFORM: 'ERR_OP_VERSION_MISMATCH_DURING_TRANSFORM',
   ERR_OP_ALREADY_SUBMITTED: 'ERR_OP_ALREADY_SUBMITTED',
+  ERR_OP_VERSION_NEWER_THAN_CURRENT_SNAPSHOT: 'ERR_OP_VERSION_NEWER_THAN_CURRENT_SNAPSHOT',
 
   // Submit errors
   ERR_SUBMIT_TRANSFORM_OPS_NOT_FOUND: 'ERR_SUBMIT_TRANSFORM_OPS_NOT_FOUND',
   ERR_MAX_SUBMIT_RETRIES_EXCEEDED: 'ERR_MAX_SUBMIT_RETRIES_EXCEEDED',
 
+  // Projection errors
+  ERR_TYPE_CANNOT_BE_PROJECTED: 'ERR_TYPE_CANNOT_BE_PROJECTED',
+  ERR_OP_NOT_ALLOWED_IN_PROJECTION: 'ERR_OP_NOT_ALLOWED_IN_PROJECTION',
+  ERR_QUERY_NOT_ALLOWED_IN_PROJECTION: 'ERR_QUERY_NOT_ALLOWED_IN_PROJECTION',
+
+  // Query errors
+  ERR_QUERY_BADLY_FORMED: 'ERR_QUERY_BADLY_FORMED',
+
+  // Access errors
+  ERR_ACCESS_DENIED: 'ERR_ACCESS_DENIED',
+
+  // Database errors
+  ERR_DB_LOG_CORRUPT: 'ERR_DB_LOG_CORRUPT',
+  ERR_DB_QUERY_NOT_SUPPORTED: 'ERR_DB_QUERY_NOT_SUPPORTED',
+
   // Connection errors
   ERR_CONNECTION_CLOSED: 'ERR_CONNECTION_CLOSED',
   ERR_CONNECTION_SEQ_INTEGER_OVERFLOW: 'ERR_CONNECTION_SEQ_INTEGER_OVERFLOW',
+  ERR_PROTOCOL_VERSION_NOT_SUPPORTED: 'ERR_PROTOCOL_VERSION_NOT_SUPPORTED',
 } as const;
 
 export type ErrorCode = typeof ERROR_CODES[keyof typeof ERROR_CODES];
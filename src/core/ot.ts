@@ -11,10 +11,14 @@
  * - checkOp: Validate operation format
  * - apply: Apply an operation to a snapshot (mutates snapshot)
  * - transform: Transform an operation against another operation (mutates op)
+ * - normalize: Normalize an edit operation and detect no-ops (mutates op)
+ *
+ * Each function looks types up in a TypeRegistry. It defaults to the
+ * global `types` registry; Backend passes its own.
  */
 
 import { OTError, ERROR_CODES } from './error';
-import { OTType, types } from './types';
+import { OTType, TypeRegistry, types } from './types';
 import { Snapshot } from './snapshot';
 
 /**
@@ -81,11 +85,18 @@ export function isDeleteOp(op: Op): op is DeleteOp {
  * - Delete ops have del: true
  * - Edit ops have op property
  * - src and seq are set together
+ * - Edit payloads pass the document type's validate hook, if a type is given
  *
  * @param op - Operation to validate
+ * @param registry - Registry to look up types in
+ * @param type - The document's type, to validate edit payloads against
  * @throws OTError if operation is invalid
  */
-export function checkOp(op: unknown): asserts op is Op {
+export function checkOp(
+  op: unknown,
+  registry: TypeRegistry = types,
+  type: OTType | string | null = null
+): asserts op is Op {
   if (op == null || typeof op !== 'object') {
     throw new OTError(ERROR_CODES.ERR_OT_OP_BADLY_FORMED, 'Op must be an object');
   }
@@ -101,7 +112,7 @@ export function checkOp(op: unknown): asserts op is Op {
     if (typeof create.type !== 'string') {
       throw new OTError(ERROR_CODES.ERR_OT_OP_BADLY_FORMED, 'Missing create type');
     }
-    if (!types.has(create.type)) {
+    if (!registry.has(create.type)) {
       throw new OTError(ERROR_CODES.ERR_DOC_TYPE_NOT_RECOGNIZED, 'Unknown type: ' + create.type);
     }
   }
@@ -115,6 +126,14 @@ export function checkOp(op: unknown): asserts op is Op {
   else if (!('op' in opObj)) {
     throw new OTError(ERROR_CODES.ERR_OT_OP_BADLY_FORMED, 'Missing op, create, or del');
   }
+  // Check the edit payload against the document type
+  else if (type) {
+    const resolvedType = typeof type === 'string' ? registry.get(type) : type;
+    if (!resolvedType) {
+      throw new OTError(ERROR_CODES.ERR_DOC_TYPE_NOT_RECOGNIZED, 'Unknown type: ' + type);
+    }
+    resolvedType.validate?.(opObj.op);
+  }
 
   // Validate src and seq (must be set together)
   if (opObj.src != null && typeof opObj.src !== 'string') {
@@ -140,6 +159,7 @@ export function checkOp(op: unknown): asserts op is Op {
  *
  * @param snapshot - Document snapshot (will be mutated!)
  * @param op - Operation to apply
+ * @param registry - Registry to look up the document type in
  * @throws OTError if operation cannot be applied
  *
  * Example:
@@ -147,7 +167,7 @@ export function checkOp(op: unknown): asserts op is Op {
  *   apply(snapshot, { create: { type: 'counter', data: 5 } });
  *   // snapshot is now { id: 'doc1', v: 1, type: 'counter', data: 5 }
  */
-export function apply(snapshot: Snapshot, op: Op): void {
+export function apply(snapshot: Snapshot, op: Op, registry: TypeRegistry = types): void {
   if (typeof snapshot !== 'object' || snapshot == null) {
     throw new OTError(ERROR_CODES.ERR_APPLY_SNAPSHOT_NOT_PROVIDED, 'Missing snapshot');
   }
@@ -166,7 +186,7 @@ export function apply(snapshot: Snapshot, op: Op): void {
       throw new OTError(ERROR_CODES.ERR_DOC_ALREADY_CREATED, 'Document already exists');
     }
 
-    const type = types.get(op.create.type);
+    const type = registry.get(op.create.type);
     if (!type) {
       throw new OTError(ERROR_CODES.ERR_DOC_TYPE_NOT_RECOGNIZED, 'Unknown type: ' + op.create.type);
     }
@@ -196,7 +216,7 @@ export function apply(snapshot: Snapshot, op: Op): void {
       throw new OTError(ERROR_CODES.ERR_OT_OP_NOT_PROVIDED, 'Missing op');
     }
 
-    const type = types.get(snapshot.type);
+    const type = registry.get(snapshot.type);
     if (!type) {
       throw new OTError(ERROR_CODES.ERR_DOC_TYPE_NOT_RECOGNIZED, 'Unknown type: ' + snapshot.type);
     }
@@ -231,6 +251,7 @@ export function apply(snapshot: Snapshot, op: Op): void {
  * @param type - The document type (for edit transformations)
  * @param op - The operation to transform (will be mutated!)
  * @param appliedOp - The operation that has already been applied
+ * @param registry - Registry to resolve `type` in, when given by name
  * @throws OTError if transformation is not possible
  *
  * Example (two concurrent edits on a counter):
@@ -241,7 +262,8 @@ export function apply(snapshot: Snapshot, op: Op): void {
 export function transform(
   type: OTType | string | null,
   op: Op,
-  appliedOp: Op
+  appliedOp: Op,
+  registry: TypeRegistry = types
 ): void {
   // Version check
   if (op.v != null && appliedOp.v != null && op.v !== appliedOp.v) {
@@ -275,7 +297,7 @@ export function transform(
     // Resolve type from string if needed
     let resolvedType: OTType;
     if (typeof type === 'string') {
-      const t = types.get(type);
+      const t = registry.get(type);
       if (!t) {
         throw new OTError(ERROR_CODES.ERR_DOC_TYPE_NOT_RECOGNIZED, 'Unknown type: ' + type);
       }
@@ -295,19 +317,43 @@ export function transform(
   }
 }
 
+/**
+ * Normalize an edit operation using its type.
+ *
+ * Uses the type's optional normalize and isNoop methods. Types without
+ * them never produce no-ops.
+ *
+ * IMPORTANT: This function MUTATES the op argument!
+ *
+ * @param type - The document type
+ * @param op - The edit operation to normalize (will be mutated!)
+ * @returns true if the op does nothing and can be dropped
+ *
+ * Example (text):
+ *   const op = { op: { type: 'delete', pos: 3, count: 0 } };
+ *   normalize(textType, op) // => true
+ */
+export function normalize(type: OTType, op: EditOp): boolean {
+  if (type.normalize) {
+    op.op = type.normalize(op.op);
+  }
+  return type.isNoop ? type.isNoop(op.op) : false;
+}
+
 /**
  * Apply multiple operations to a snapshot.
  *
  * @param snapshot - Document snapshot (will be mutated!)
  * @param ops - Array of operations to apply
+ * @param registry - Registry to look up the document type in
  * @throws OTError if any operation cannot be applied
  */
-export function applyOps(snapshot: Snapshot, ops: Op[]): void {
+export function applyOps(snapshot: Snapshot, ops: Op[], registry: TypeRegistry = types): void {
   for (const op of ops) {
     // Update snapshot version to match op version before applying
     if (op.v != null) {
       snapshot.v = op.v;
     }
-    apply(snapshot, op);
+    apply(snapshot, op, registry);
   }
 }
@@ -0,0 +1,80 @@
+/**
+ * Presence - Ephemeral per-document user state
+ *
+ * Reference: lib/client/presence in ShareDB
+ *
+ * Presence is what each client wants others to know about it while it
+ * has a document open: where its cursor is, what it has selected, its
+ * name and color. It is relayed to the document's other subscribers but
+ * never written to the op log.
+ *
+ * A presence value is any JSON value, or null for "not here". The parts
+ * that point into the document move with ops, like a cursor does:
+ *
+ *   3                                  a cursor
+ *   { start: 2, end: 5, name: 'Ada' }  a selection, plus fields kept as they are
+ *
+ * Anything else passes through ops unchanged. Positions only move for
+ * types with transformCursor or transformSelection.
+ */
+
+import { OTType, CursorRange } from './types';
+
+/**
+ * A client's presence on a document, as relayed by the server.
+ */
+export interface PresenceUpdate {
+  /** Client ID of the presence's owner */
+  src: string;
+  /** Document version the value refers to */
+  v: number;
+  /** The presence value, or null when the client has left */
+  p: unknown;
+}
+
+/**
+ * Move a selection through an op, using whatever the type supports.
+ *
+ * Types with transformSelection handle it themselves. Types with only
+ * transformCursor have both ends moved separately. Types with neither
+ * leave the selection where it is.
+ */
+export function transformSelection(
+  type: OTType,
+  selection: CursorRange,
+  op: unknown,
+  isOwnOp: boolean
+): CursorRange {
+  if (type.transformSelection) {
+    return type.transformSelection(selection, op, isOwnOp);
+  }
+  if (type.transformCursor) {
+    return {
+      start: type.transformCursor(selection.start, op, isOwnOp),
+      end: type.transformCursor(selection.end, op, isOwnOp),
+    };
+  }
+  return selection;
+}
+
+/**
+ * Move a presence value through an op.
+ *
+ * @param type - The document's type
+ * @param value - Presence value before the op
+ * @param op - Edit op applied to the document
+ * @param isOwnOp - true if the op was made by the presence's owner
+ * @returns Presence value after the op
+ */
+export function transformPresence(type: OTType, value: unknown, op: unknown, isOwnOp: boolean): unknown {
+  if (typeof value === 'number') {
+    return type.transformCursor ? type.transformCursor(value, op, isOwnOp) : value;
+  }
+  if (value !== null && typeof value === 'object' && !Array.isArray(value)) {
+    const { start, end } = value as Partial<CursorRange>;
+    if (typeof start === 'number' && typeof end === 'number') {
+      return { ...value, ...transformSelection(type, { start, end }, op, isOwnOp) };
+    }
+  }
+  return value;
+}
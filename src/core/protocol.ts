@@ -0,0 +1,14 @@
+/**
+ * Protocol - Version of the client-server protocol
+ *
+ * Reference: the `protocol` field of the handshake in ShareDB
+ *
+ * The server sends its protocol version in the handshake. A client that
+ * speaks a different version can't rely on the server understanding its
+ * messages, so it refuses to send anything and reports an error.
+ *
+ * Bump this when a message changes in a way the other side can't handle.
+ */
+
+/** Version of the protocol this client and server speak */
+export const PROTOCOL_VERSION = 1;
@@ -0,0 +1,305 @@
+/**
+ * Query - Selecting documents of a collection
+ *
+ * Reference: the query support of sharedb-mingo-memory and sharedb-mongo
+ *
+ * ShareDB passes queries straight to the database, so their language is
+ * whatever the adapter speaks (usually MongoDB's). This tutorial has a
+ * small language of its own, evaluated against snapshot data:
+ *
+ *   {
+ *     filter: { status: 'open', priority: { $gte: 2 }, 'owner.name': { $in: ['ada', 'bob'] } },
+ *     sort: { priority: -1, title: 1 },
+ *     skip: 0,
+ *     limit: 20,
+ *   }
+ *
+ * filter  fields (dotted paths into the data) and the condition on each;
+ *         a plain value means $eq. All of them must hold.
+ * sort    fields to order by, 1 ascending or -1 descending. Ties are
+ *         broken by document ID, so results always come in the same order.
+ * skip    number of matches to leave out from the start
+ * limit   maximum number of results
+ *
+ * Only documents that exist and whose data is an object can match.
+ *
+ * This module also diffs two result lists (diffResults), which is how a
+ * live query tells clients what changed.
+ */
+
+import { Snapshot } from './snapshot';
+import { OTError, ERROR_CODES } from './error';
+
+/**
+ * Conditions on one field.
+ */
+export interface QueryCondition {
+  /** Equal to the value */
+  $eq?: unknown;
+  /** Not equal to the value */
+  $ne?: unknown;
+  /** Greater than (numbers and strings only) */
+  $gt?: number | string;
+  /** Greater than or equal to */
+  $gte?: number | string;
+  /** Less than */
+  $lt?: number | string;
+  /** Less than or equal to */
+  $lte?: number | string;
+  /** Equal to one of the values */
+  $in?: unknown[];
+  /** Equal to none of the values */
+  $nin?: unknown[];
+  /** Present (true) or missing (false) */
+  $exists?: boolean;
+}
+
+/**
+ * A query over a collection.
+ */
+export interface Query {
+  /** Field path -> value it must equal, or conditions it must meet */
+  filter?: Record<string, unknown>;
+  /** Field path -> 1 (ascending) or -1 (descending), in priority order */
+  sort?: Record<string, 1 | -1>;
+  /** Number of results to skip */
+  skip?: number;
+  /** Maximum number of results */
+  limit?: number;
+}
+
+/**
+ * One change to a list of query results.
+ *
+ * Reference: the arraydiff format ShareDB sends in query updates
+ */
+export type QueryDiff =
+  | { type: 'insert'; index: number; values: Snapshot[] }
+  | { type: 'remove'; index: number; howMany: number }
+  | { type: 'move'; from: number; to: number; howMany: number };
+
+const CONDITION_KEYS = new Set(['$eq', '$ne', '$gt', '$gte', '$lt', '$lte', '$in', '$nin', '$exists']);
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isCount(value: unknown): boolean {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0;
+}
+
+/**
+ * Check that a query is well formed.
+ *
+ * @throws OTError (ERR_QUERY_BADLY_FORMED) describing the first problem
+ */
+export function checkQuery(query: unknown): asserts query is Query {
+  const fail = (message: string): never => {
+    throw new OTError(ERROR_CODES.ERR_QUERY_BADLY_FORMED, message);
+  };
+
+  if (!isPlainObject(query)) fail('Query must be an object');
+  const { filter, sort, skip, limit, ...rest } = query as Record<string, unknown>;
+
+  const unknown = Object.keys(rest);
+  if (unknown.length > 0) fail(`Unknown query field '${unknown[0]}'`);
+
+  if (filter !== undefined) {
+    if (!isPlainObject(filter)) fail('filter must be an object');
+    for (const [path, condition] of Object.entries(filter as Record<string, unknown>)) {
+      // Objects are conditions if they use operators, and values otherwise
+      if (!isPlainObject(condition) || !Object.keys(condition).some((key) => key.startsWith('$'))) continue;
+      for (const [key, value] of Object.entries(condition)) {
+        if (!CONDITION_KEYS.has(key)) fail(`Unknown condition '${key}' on '${path}'`);
+        if ((key === '$in' || key === '$nin') && !Array.isArray(value)) fail(`${key} on '${path}' must be an array`);
+        if (key === '$exists' && typeof value !== 'boolean') fail(`$exists on '${path}' must be a boolean`);
+        if (['$gt', '$gte', '$lt', '$lte'].includes(key) && typeof value !== 'number' && typeof value !== 'string') {
+          fail(`${key} on '${path}' must be a number or string`);
+        }
+      }
+    }
+  }
+
+  if (sort !== undefined) {
+    if (!isPlainObject(sort)) fail('sort must be an object');
+    for (const [path, direction] of Object.entries(sort as Record<string, unknown>)) {
+      if (direction !== 1 && direction !== -1) fail(`sort direction of '${path}' must be 1 or -1`);
+    }
+  }
+
+  if (skip !== undefined && !isCount(skip)) fail('skip must be a non-negative integer');
+  if (limit !== undefined && !isCount(limit)) fail('limit must be a non-negative integer');
+}
+
+/**
+ * The fields a query looks at (for filtering or sorting).
+ */
+export function queryFields(query: Query): string[] {
+  return [...Object.keys(query.filter ?? {}), ...Object.keys(query.sort ?? {})];
+}
+
+/**
+ * Read a dotted path from document data.
+ */
+function getPath(data: unknown, path: string): unknown {
+  let value = data;
+  for (const key of path.split('.')) {
+    if (!isPlainObject(value)) return undefined;
+    value = value[key];
+  }
+  return value;
+}
+
+function valuesEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Compare for $gt/$lt and friends. Only numbers with numbers and strings
+ * with strings are ordered; anything else fails the condition.
+ */
+function compareOrdered(value: unknown, bound: number | string): number | null {
+  if (typeof value !== typeof bound) return null;
+  return (value as number | string) < bound ? -1 : (value as number | string) > bound ? 1 : 0;
+}
+
+function meetsCondition(value: unknown, condition: unknown): boolean {
+  if (!isPlainObject(condition) || !Object.keys(condition).some((key) => key.startsWith('$'))) {
+    return valuesEqual(value, condition);
+  }
+  const c = condition as QueryCondition;
+  const ordered = (bound: number | string, test: (cmp: number) => boolean) => {
+    const cmp = compareOrdered(value, bound);
+    return cmp !== null && test(cmp);
+  };
+
+  if ('$eq' in c && !valuesEqual(value, c.$eq)) return false;
+  if ('$ne' in c && valuesEqual(value, c.$ne)) return false;
+  if (c.$gt !== undefined && !ordered(c.$gt, (cmp) => cmp > 0)) return false;
+  if (c.$gte !== undefined && !ordered(c.$gte, (cmp) => cmp >= 0)) return false;
+  if (c.$lt !== undefined && !ordered(c.$lt, (cmp) => cmp < 0)) return false;
+  if (c.$lte !== undefined && !ordered(c.$lte, (cmp) => cmp <= 0)) return false;
+  if (c.$in !== undefined && !c.$in.some((v) => valuesEqual(value, v))) return false;
+  if (c.$nin !== undefined && c.$nin.some((v) => valuesEqual(value, v))) return false;
+  if (c.$exists !== undefined && (value !== undefined) !== c.$exists) return false;
+  return true;
+}
+
+/**
+ * Whether a snapshot matches a query's filter.
+ */
+export function matchesQuery(query: Query, snapshot: Snapshot): boolean {
+  if (snapshot.type === null || !isPlainObject(snapshot.data)) return false;
+  for (const [path, condition] of Object.entries(query.filter ?? {})) {
+    if (!meetsCondition(getPath(snapshot.data, path), condition)) return false;
+  }
+  return true;
+}
+
+/**
+ * Rank of a value's kind in sort order: missing, null, booleans,
+ * numbers, strings, then anything else.
+ */
+function sortRank(value: unknown): number {
+  if (value === undefined) return 0;
+  if (value === null) return 1;
+  switch (typeof value) {
+    case 'boolean':
+      return 2;
+    case 'number':
+      return 3;
+    case 'string':
+      return 4;
+    default:
+      return 5;
+  }
+}
+
+/** A value that sorts with < and > */
+type Comparable = boolean | number | string;
+
+function compareValues(a: unknown, b: unknown): number {
+  const rankA = sortRank(a);
+  const rankB = sortRank(b);
+  if (rankA !== rankB) return rankA - rankB;
+  // Both missing, or both null
+  if (rankA < 2) return 0;
+  // Same rank: both booleans, numbers or strings (anything else compares as JSON)
+  const [x, y] = (rankA === 5 ? [JSON.stringify(a), JSON.stringify(b)] : [a, b]) as [Comparable, Comparable];
+  return x < y ? -1 : x > y ? 1 : 0;
+}
+
+/**
+ * Run a query over snapshots.
+ *
+ * @param query - A query that passed checkQuery
+ * @param snapshots - Every document of the collection
+ * @returns The matching snapshots, sorted, skipped and limited
+ */
+export function executeQuery(query: Query, snapshots: Snapshot[]): Snapshot[] {
+  const sort = Object.entries(query.sort ?? {});
+  const results = snapshots
+    .filter((snapshot) => matchesQuery(query, snapshot))
+    .sort((a, b) => {
+      for (const [path, direction] of sort) {
+        const cmp = compareValues(getPath(a.data, path), getPath(b.data, path));
+        if (cmp !== 0) return cmp * direction;
+      }
+      return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+    });
+
+  const skip = query.skip ?? 0;
+  return results.slice(skip, query.limit === undefined ? undefined : skip + query.limit);
+}
+
+/**
+ * Diff two result lists.
+ *
+ * Applying the returned changes in order to `before` gives `after`:
+ * first removals, then, position by position, moves of results that
+ * are already there and inserts of new ones.
+ *
+ * @param before - Document IDs of the old results
+ * @param after - The new results
+ * @returns The changes; inserts carry the new snapshots
+ */
+export function diffResults(before: string[], after: Snapshot[]): QueryDiff[] {
+  const diff: QueryDiff[] = [];
+  const afterIds = new Set(after.map((snapshot) => snapshot.id));
+  const current = before.slice();
+
+  // Remove from the end, so earlier indexes stay valid
+  for (let i = current.length - 1; i >= 0; i--) {
+    if (afterIds.has(current[i])) continue;
+    let start = i;
+    while (start > 0 && !afterIds.has(current[start - 1])) start--;
+    diff.push({ type: 'remove', index: start, howMany: i - start + 1 });
+    current.splice(start, i - start + 1);
+    i = start;
+  }
+
+  for (let i = 0; i < after.length; i++) {
+    const id = after[i].id;
+    if (current[i] === id) continue;
+
+    const from = current.indexOf(id, i);
+    if (from !== -1) {
+      diff.push({ type: 'move', from, to: i, howMany: 1 });
+      current.splice(from, 1);
+      current.splice(i, 0, id);
+      continue;
+    }
+
+    // A run of new results goes in as one insert
+    let end = i + 1;
+    while (end < after.length && !current.includes(after[end].id)) end++;
+    const values = after.slice(i, end);
+    diff.push({ type: 'insert', index: i, values });
+    current.splice(i, 0, ...values.map((snapshot) => snapshot.id));
+    i = end - 1;
+  }
+
+  return diff;
+}
@@ -14,8 +14,23 @@
  * - compose(op1, op2): Compose two operations into one
  * - invert(op): Create an inverse operation for undo
  * - normalize(op): Normalize an operation
+ * - validate(op): Check that an operation is well formed
+ * - isNoop(op): Check whether an operation does nothing
+ * - transformCursor(cursor, op, isOwnOp): Move a cursor through an operation
+ * - transformSelection(selection, op, isOwnOp): Move a selection through an operation
  */
 
+/**
+ * A selection in a document, as a pair of cursor positions.
+ *
+ * `start` and `end` are not ordered: when the user selects backwards,
+ * `start` (the anchor) is after `end` (the caret).
+ */
+export interface CursorRange {
+  start: number;
+  end: number;
+}
+
 /**
  * OT Type Interface
  *
@@ -108,6 +123,72 @@ export interface OTType<TSnapshot = unknown, TOp = unknown> {
    * @returns Normalized operation
    */
   normalize?(op: TOp): TOp;
+
+  /**
+   * Optional: Check that an operation is well formed.
+   *
+   * Called by the server on every submitted edit, before it is
+   * transformed or applied, so a bad payload is rejected up front
+   * instead of failing somewhere inside apply (or corrupting data).
+   *
+   * Only the op itself is checked: the op may have been made against an
+   * older version, so checks against the document belong in apply.
+   *
+   * @param op - Operation payload, as received from the client
+   * @throws OTError (ERR_OT_OP_BADLY_FORMED) naming the field that is wrong
+   *
+   * Example for counter type:
+   *   validate(5) // ok
+   *   validate('abc') // throws
+   */
+  validate?(op: unknown): void;
+
+  /**
+   * Optional: Check whether an operation does nothing.
+   *
+   * Transform can leave ops with nothing left to do (e.g. deleting text
+   * someone else already deleted). Ops that are no-ops after normalize
+   * are acknowledged without being committed or broadcast.
+   *
+   * @param op - Normalized operation
+   * @returns true if applying op never changes the document
+   *
+   * Example for counter type:
+   *   isNoop(0) => true
+   *   isNoop(5) => false
+   */
+  isNoop?(op: TOp): boolean;
+
+  /**
+   * Optional: Move a cursor position through an operation.
+   *
+   * Used to keep carets in the right place while the document changes
+   * under them.
+   *
+   * @param cursor - Cursor position before the op
+   * @param op - Operation that was applied
+   * @param isOwnOp - true if the op was made by the cursor's owner
+   * @returns Cursor position after the op
+   *
+   * Example for text type:
+   *   transformCursor(5, {type: 'insert', pos: 2, text: 'ab'}, false) => 7
+   *   transformCursor(2, {type: 'insert', pos: 2, text: 'ab'}, true) => 4
+   *   transformCursor(2, {type: 'insert', pos: 2, text: 'ab'}, false) => 2
+   */
+  transformCursor?(cursor: number, op: TOp, isOwnOp: boolean): number;
+
+  /**
+   * Optional: Move a selection through an operation.
+   *
+   * Types that only implement transformCursor get this for free: both
+   * ends of the selection are moved with transformCursor.
+   *
+   * @param selection - Selection before the op
+   * @param op - Operation that was applied
+   * @param isOwnOp - true if the op was made by the selection's owner
+   * @returns Selection after the op
+   */
+  transformSelection?(selection: CursorRange, op: TOp, isOwnOp: boolean): CursorRange;
 }
 
 /**
@@ -117,6 +198,14 @@ export interface OTType<TSnapshot = unknown, TOp = unknown> {
  *
  * Types are registered by both name and URI to allow looking up
  * by either identifier.
+ *
+ * Each Backend and Connection can be given its own registry, so several
+ * isolated servers in one process can support different types. The
+ * global `types` registry below is only the default.
+ *
+ * Example:
+ *   const registry = new TypeRegistry([counterType]);
+ *   const backend = new Backend({ types: registry });
  */
 export class TypeRegistry {
   /** Map of type name/uri to type instance */
@@ -125,6 +214,15 @@ export class TypeRegistry {
   /** Default type to use when none specified */
   public defaultType: OTType | null = null;
 
+  /**
+   * @param initialTypes - Types to register straight away
+   */
+  constructor(initialTypes: OTType<any, any>[] = []) {
+    for (const type of initialTypes) {
+      this.register(type);
+    }
+  }
+
   /**
    * Register a type.
    *
@@ -161,7 +259,17 @@ export class TypeRegistry {
   has(nameOrUri: string): boolean {
     return this.types.has(nameOrUri);
   }
+
+  /**
+   * List the registered types.
+   *
+   * @returns The URI of each type, once
+   */
+  uris(): string[] {
+    return [...new Set(this.types.values())].map((type) => type.uri);
+  }
 }
 
-// Global type registry instance
+// Global type registry instance, used when no registry is given.
+// The built-in types register themselves here when imported.
 export const types = new TypeRegistry();
@@ -3,7 +3,7 @@
  *
  * This package provides a simplified but complete implementation of:
  * - OT (Operational Transformation) core functions
- * - Type system with counter and text examples
+ * - Type system with counter, text, list, map and JSON examples
  * - Client-side document synchronization
  * - Server-side operation handling
  *
@@ -12,7 +12,7 @@
 
 // Core modules
 export { OTError, ERROR_CODES, ErrorCode } from './core/error';
-export { OTType, TypeRegistry, types } from './core/types';
+export { OTType, CursorRange, TypeRegistry, types } from './core/types';
 export {
   Snapshot,
   SnapshotMeta,
@@ -33,6 +33,27 @@ export {
   transform,
   applyOps,
 } from './core/ot';
+export {
+  checkConformance,
+  createRandom,
+  Random,
+  ConformanceGenerators,
+  ConformanceOptions,
+  ConformanceProperty,
+  ConformanceFailure,
+  ConformanceResult,
+} from './core/conformance';
+export {
+  Query as QueryExpression,
+  QueryCondition,
+  QueryDiff,
+  checkQuery,
+  matchesQuery,
+  executeQuery,
+  diffResults,
+} from './core/query';
+export { PresenceUpdate, transformPresence, transformSelection } from './core/presence';
+export { PROTOCOL_VERSION } from './core/protocol';
 
 // Types
 export {
@@ -48,7 +69,57 @@ export {
   DeleteOp as TextDeleteOp,
   isInsertOp,
   isDeleteOp as isTextDeleteOp,
+  makeInvertible as makeTextInvertible,
 } from './types/text';
+export {
+  jsonType,
+  JsonSnapshot,
+  JsonOp,
+  JsonComponent,
+  JsonPath,
+} from './types/json';
+export {
+  multiTextType,
+  MultiTextSnapshot,
+  MultiTextOp,
+  MultiTextComponent,
+  MultiTextDelete,
+  isMultiTextDelete,
+  makeInvertible as makeMultiTextInvertible,
+} from './types/multi-text';
+export {
+  richTextType,
+  RichTextSnapshot,
+  RichTextOp,
+  RichTextComponent,
+  RichTextInsert,
+  RichTextRetain,
+  RichTextDelete,
+  RichTextAttributes,
+  isRichTextInsert,
+  isRichTextRetain,
+  isRichTextDelete,
+  makeInvertible as makeRichTextInvertible,
+} from './types/rich-text';
+export {
+  listType,
+  ListSnapshot,
+  ListOp,
+  ListComponent,
+  ListInsert,
+  ListRemove,
+  ListReplace,
+  ListMove,
+} from './types/list';
+export {
+  mapType,
+  MapSnapshot,
+  MapOp,
+  MapComponent,
+  MapSet,
+  MapDelete,
+  MapAdd,
+} from './types/map';
 
 // Client
 export {
@@ -56,10 +127,44 @@ export {
   Transport,
   Message,
   MessageType,
+  ConnectionOptions,
+  HandshakeMessage,
+  FetchMessage,
+  SnapshotFetchMessage,
+  SnapshotCallback,
+  QueryMessage,
+  PresenceMessage,
 } from './client/connection';
-export { Doc } from './client/doc';
+export { Doc, TrackedSelection } from './client/doc';
+export { Query, QueryCallback } from './client/query';
 
 // Server
-export { MemoryDb, StoredOp } from './server/memory-db';
-export { submitOp, SubmitOptions, SubmitResult } from './server/submit-request';
-export { Backend, Agent, BackendOptions } from './server/backend';
+export { Db, StoredOp, OpMeta } from './server/db';
+export {
+  checkDbConformance,
+  DbConformanceCheck,
+  DbConformanceFailure,
+  DbConformanceOptions,
+  DbConformanceResult,
+} from './server/db-conformance';
+export { MemoryDb, MemoryDbOptions } from './server/memory-db';
+export { FileDb, FileDbOptions } from './server/file-db';
+export { submitOp, SubmitOptions, SubmitResult, SubmitHook, SubmitHookContext } from './server/submit-request';
+export { Middleware, MiddlewareAction, MiddlewareContext } from './server/middleware';
+export { Projection, ProjectionFields } from './server/projections';
+export {
+  PubSub,
+  PubSubMessage,
+  PubSubListener,
+  MemoryPubSub,
+  collectionChannel,
+  docChannel,
+} from './server/pubsub';
+export {
+  useAccessControl,
+  AccessAction,
+  AccessRequest,
+  AccessRule,
+  CollectionPolicy,
+} from './server/access';
+export { Backend, Agent, BackendOptions, BackendSubmitOptions } from './server/backend';
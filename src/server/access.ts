@@ -0,0 +1,154 @@
+/**
+ * Access Control - Who may read and write which documents
+ *
+ * Reference: the sharedb-access plugin for ShareDB
+ *
+ * Without access control, any client can subscribe to, fetch and
+ * overwrite any document. useAccessControl installs middleware that
+ * checks every request against per-collection policies:
+ *
+ *   read    may the client see this document? (subscribe, fetch, history,
+ *           queries, and every op and presence relayed to it)
+ *   create  may the client create this document?
+ *   edit    may the client apply this op to this document?
+ *   delete  may the client delete this document?
+ *
+ * Rules get the agent, so they can check the identity that 'connect'
+ * middleware stored in `agent.custom`, and the document and op, so they
+ * can decide per document or per op content.
+ *
+ * Anything a policy doesn't allow is denied: collections without a
+ * policy, and actions without a rule. Denied requests fail with
+ * ERR_ACCESS_DENIED, and denied reads never send the snapshot. Queries
+ * are checked per document: their results just leave out the documents
+ * the client may not read.
+ *
+ * Read access can end while a client is subscribed, for example when
+ * an edit changes a document's owner. So `read` is checked again, on
+ * the document as it is now, before each op or presence is relayed. A
+ * subscriber that fails it stops getting the document's ops and
+ * presence, and gets an ERR_ACCESS_DENIED op error.
+ *
+ * Policies are looked up by the collection name the client uses. A
+ * projection (see ./projections) is a collection of its own: it needs
+ * its own policy, whose rules see projected snapshots. The policy of
+ * the collection it projects doesn't apply to it.
+ *
+ * Submits made by server code (Backend.submit without an agent) are
+ * trusted and not checked.
+ *
+ * Example:
+ *   backend.use('connect', (context) => {
+ *     context.agent!.custom.userId = userIdFrom(context.req);
+ *   });
+ *   useAccessControl(backend, {
+ *     notes: {
+ *       read: ({ agent, snapshot }) => (snapshot?.data as Note)?.owner === agent.custom.userId,
+ *       create: () => true,
+ *       edit: ({ agent, snapshot }) => (snapshot?.data as Note).owner === agent.custom.userId,
+ *     },
+ *   });
+ */
+
+import type { Agent, Backend } from './backend';
+import type { MiddlewareContext } from './middleware';
+import { Op, isCreateOp, isDeleteOp } from '../core/ot';
+import { Snapshot } from '../core/snapshot';
+import { OTError, ERROR_CODES } from '../core/error';
+
+/** The kinds of access a policy decides */
+export type AccessAction = 'read' | 'create' | 'edit' | 'delete';
+
+/**
+ * The request a rule is deciding on.
+ */
+export interface AccessRequest {
+  /** The client's agent; identity lives in `agent.custom` */
+  agent: Agent;
+  /** Collection name */
+  collection: string;
+  /** Document ID */
+  id: string;
+  /** The snapshot being read, or the document before the op is applied */
+  snapshot: Snapshot;
+  /** The op being submitted (create, edit and delete only) */
+  op?: Op;
+}
+
+/**
+ * A rule: return true to allow the request.
+ */
+export type AccessRule = (request: AccessRequest) => boolean | Promise<boolean>;
+
+/**
+ * Rules for one collection. Actions without a rule are denied.
+ */
+export type CollectionPolicy = Partial<Record<AccessAction, AccessRule>>;
+
+/**
+ * Check one request against the policies, throwing if it is denied.
+ */
+async function check(
+  policies: Record<string, CollectionPolicy>,
+  action: AccessAction,
+  request: AccessRequest
+): Promise<void> {
+  const rule = policies[request.collection]?.[action];
+  if (!rule || !(await rule(request))) {
+    throw new OTError(
+      ERROR_CODES.ERR_ACCESS_DENIED,
+      `Access denied: ${action} ${request.collection}/${request.id}`
+    );
+  }
+}
+
+/**
+ * Install access control on a backend.
+ *
+ * @param backend - The backend to protect
+ * @param policies - Policies by collection name
+ */
+export function useAccessControl(backend: Backend, policies: Record<string, CollectionPolicy>): void {
+  backend.use('readSnapshots', async (context) => {
+    if (!context.agent) return;
+    for (const snapshot of context.snapshots!) {
+      try {
+        await check(policies, 'read', {
+          agent: context.agent,
+          collection: context.collection!,
+          id: snapshot.id,
+          snapshot,
+        });
+      } catch (error) {
+        context.rejectedSnapshots!.set(snapshot.id, error as Error);
+      }
+    }
+  });
+
+  // Relayed ops and presence: the subscriber may have lost read access since
+  const checkRelay = async (context: MiddlewareContext) => {
+    if (!context.agent) return;
+    await check(policies, 'read', {
+      agent: context.agent,
+      collection: context.collection!,
+      id: context.id!,
+      snapshot: await backend.getSnapshot(context.collection!, context.id!),
+    });
+  };
+  backend.use('op', checkRelay);
+  backend.use('sendPresence', checkRelay);
+
+  // 'apply' sees the op after transform, against the snapshot it applies to
+  backend.use('apply', async (context) => {
+    if (!context.agent) return;
+    const op = context.op!;
+    const action: AccessAction = isCreateOp(op) ? 'create' : isDeleteOp(op) ? 'delete' : 'edit';
+    await check(policies, action, {
+      agent: context.agent,
+      collection: context.collection!,
+      id: context.id!,
+      snapshot: context.snapshot!,
+      op,
+    });
+  });
+}
@@ -8,17 +8,46 @@
  * - Database connections
  * - Agent (client session) management
  * - Operation submission and broadcasting
- * - Pub/Sub for horizontal scaling (simplified here)
+ * - Middleware hooks (see ./middleware)
+ * - Projections of JSON collections (see ./projections)
+ * - Pub/Sub, so several Backends can share one database (see ./pubsub)
+ * - Presence relay (see ../core/presence)
  *
- * In this simplified tutorial version, we focus on the core
- * functionality without middleware, projections, or full pub/sub.
+ * Committed ops are published, not sent to agents directly: each Backend
+ * listens on the channels of the documents its agents subscribe to, and
+ * forwards what it hears.
  */
 
 import { EventEmitter } from "events";
 import { MemoryDb } from "./memory-db";
+import { Db, StoredOp } from "./db";
 import { submitOp, SubmitResult } from "./submit-request";
-import { Op } from "../core/ot";
-import { Snapshot } from "../core/snapshot";
+import { Middleware, MiddlewareAction, MiddlewareContext, runMiddleware } from "./middleware";
+import { Projection, ProjectionFields, projectSnapshot, projectOp, checkProjectedOp } from "./projections";
+import { PubSub, PubSubMessage, MemoryPubSub, collectionChannel, docChannel } from "./pubsub";
+import { Op, applyOps, isEditOp } from "../core/ot";
+import { PresenceUpdate, transformPresence } from "../core/presence";
+import { PROTOCOL_VERSION } from "../core/protocol";
+import { Query, QueryDiff, checkQuery, queryFields, diffResults } from "../core/query";
+import { Snapshot, createEmptySnapshot } from "../core/snapshot";
+import { OTError, ERROR_CODES } from "../core/error";
+import { TypeRegistry, types } from "../core/types";
+
+/**
+ * A live query an agent is running for its client
+ */
+interface AgentQuery {
+  /** Collection (or projection) name */
+  collection: string;
+  /** The query */
+  query: Query;
+  /** IDs of the current results, in order */
+  ids: string[];
+  /** Stops listening for ops on the collection */
+  unsubscribe: () => void;
+  /** The latest run; the next one waits for it */
+  running: Promise<void>;
+}
 
 /**
  * Agent - Represents a connected client on the server
@@ -37,23 +66,73 @@ export class Agent extends EventEmitter {
   /** Parent backend */
   public readonly backend: Backend;
 
+  /** Custom per-client state, e.g. identity set by 'connect' middleware */
+  public custom: Record<string, unknown> = {};
+
   /** Document subscriptions: collection -> Set of doc IDs */
   private subscriptions: Map<string, Set<string>> = new Map();
 
+  /** Live queries, by the client's query ID */
+  private queries: Map<number, AgentQuery> = new Map();
+
+  /** Documents this client has presence on: collection -> Set of doc IDs */
+  private presence: Map<string, Set<string>> = new Map();
+
+  /** Number of the latest presence message per document, so older ones can't overtake it */
+  private presenceSeq: Map<string, number> = new Map();
+
   /** Send function (injected by transport) */
   private sendFn: ((message: unknown) => void) | null = null;
 
+  /** Relayed ops and presence waiting for 'op'/'sendPresence' middleware */
+  private relaying: Promise<void> = Promise.resolve();
+
+  /** Documents whose ops were rejected for this client, as "collection.id" */
+  private denied: Set<string> = new Set();
+
+  /** Resolves to false if 'connect' middleware rejected this agent */
+  private connected: Promise<boolean> = Promise.resolve(true);
+
   constructor(backend: Backend, clientId: string) {
     super();
     this.backend = backend;
     this.clientId = clientId;
   }
 
+  /**
+   * Run the 'connect' middleware (internal).
+   *
+   * Messages are held until it finishes. If it fails, the agent closes
+   * and ignores every message.
+   */
+  _connect(req: unknown): void {
+    this.connected = this.backend.trigger("connect", this, { req }).then(
+      () => true,
+      () => {
+        this.close();
+        return false;
+      },
+    );
+  }
+
   /**
    * Bind a send function to this agent.
+   *
+   * Once 'connect' middleware has accepted the client, the agent greets it
+   * with the handshake: its client ID, the protocol version and the OT
+   * types the server supports. The client sends nothing until then.
    */
   bindSend(send: (message: unknown) => void): void {
     this.sendFn = send;
+    this.connected.then((accepted) => {
+      if (!accepted) return;
+      this.send({
+        a: "hs",
+        id: this.clientId,
+        protocol: PROTOCOL_VERSION,
+        types: this.backend.types.uris(),
+      });
+    });
   }
 
   /**
@@ -65,10 +144,59 @@ export class Agent extends EventEmitter {
     }
   }
 
+  /**
+   * Send another client's op or presence to this client (internal).
+   *
+   * The 'op' or 'sendPresence' middleware runs first, if there is any.
+   * Messages wait for it in a queue, so a slow check can't let a later
+   * op overtake an earlier one. A rejected op ends the subscription to
+   * the document, since the client can't follow it with ops missing.
+   * Nothing more is relayed for it, even while a live query still holds
+   * it, until the client reads the document again.
+   */
+  _relay(collection: string, id: string, message: any): void {
+    const action = message.a === "op" ? "op" : "sendPresence";
+    if (!this.backend._hasMiddleware(action)) {
+      this.send(message);
+      return;
+    }
+
+    const key = collection + "." + id;
+    this.relaying = this.relaying.then(async () => {
+      if (this.denied.has(key)) return;
+      try {
+        await this.backend.trigger(
+          action,
+          this,
+          action === "op"
+            ? { collection, id, op: message }
+            : { collection, id, presence: { src: message.src, v: message.v, p: message.p } },
+        );
+        this.send(message);
+      } catch (error: any) {
+        if (action !== "op") return;
+        this.denied.add(key);
+        this.subscriptions.get(collection)?.delete(id);
+        this._release(collection, id);
+        this.send(this._errorReply({ a: "op", c: collection, d: id }, error));
+      }
+    });
+  }
+
   /**
    * Handle a message from the client.
    */
   async handleMessage(message: any): Promise<void> {
+    if (!(await this.connected)) return;
+
+    try {
+      const context = await this.backend.trigger("receive", this, { data: message });
+      message = context.data;
+    } catch (error: any) {
+      this.send(this._errorReply(message, error));
+      return;
+    }
+
     switch (message.a) {
       case "s": // Subscribe
         await this._handleSubscribe(message);
@@ -82,15 +210,97 @@ export class Agent extends EventEmitter {
       case "f": // Fetch
         await this._handleFetch(message);
         break;
+      case "nf": // Fetch a historical snapshot by version
+      case "nt": // Fetch a historical snapshot by timestamp
+        await this._handleSnapshotFetch(message);
+        break;
+      case "qf": // Fetch query results
+        await this._handleQueryFetch(message);
+        break;
+      case "qs": // Subscribe to query results
+        await this._handleQuerySubscribe(message);
+        break;
+      case "qu": // Unsubscribe from query results
+        await this._handleQueryUnsubscribe(message);
+        break;
+      case "p": // Presence
+        await this._handlePresence(message);
+        break;
       default:
         console.warn("Unknown message action:", message.a);
     }
   }
 
+  /**
+   * Send a reply to a client request, through the 'reply' middleware.
+   *
+   * If the middleware rejects the reply, the client gets the error instead.
+   */
+  private async _reply(request: any, reply: Record<string, unknown>): Promise<void> {
+    // Without middleware, send right away so replies keep their order
+    // relative to broadcasts
+    if (!this.backend._hasMiddleware("reply")) {
+      this.send(reply);
+      return;
+    }
+    try {
+      const context = await this.backend.trigger("reply", this, { request, reply });
+      this.send(context.reply);
+    } catch (error: any) {
+      this.send(this._errorReply(request, error));
+    }
+  }
+
+  /**
+   * Build the error reply to a client request.
+   *
+   * It echoes whatever the client uses to match the reply to its
+   * request: the action, document, and request ID or op src/seq.
+   */
+  private _errorReply(request: any, error: any): Record<string, unknown> {
+    const reply: Record<string, unknown> = { a: request?.a, c: request?.c, d: request?.d };
+    if (request?.id !== undefined) reply.id = request.id;
+    if (request?.src !== undefined) reply.src = request.src;
+    if (request?.seq !== undefined) reply.seq = request.seq;
+    reply.error = { code: error?.code || "ERR_UNKNOWN", message: error?.message ?? String(error) };
+    return reply;
+  }
+
+  /**
+   * Run the 'readSnapshots' middleware on snapshots about to be sent.
+   *
+   * Snapshots the middleware rejects are left out, as query results
+   * should be. Requests for one document use _readSnapshot, which fails
+   * instead.
+   */
+  private async _readSnapshots(
+    collection: string,
+    snapshots: Snapshot[],
+    rejectedSnapshots = new Map<string, Error>(),
+  ): Promise<Snapshot[]> {
+    if (!this.backend._hasMiddleware("readSnapshots")) return snapshots;
+    const context = await this.backend.trigger("readSnapshots", this, { collection, snapshots, rejectedSnapshots });
+    return context.snapshots!.filter((snapshot) => !rejectedSnapshots.has(snapshot.id));
+  }
+
+  /**
+   * Run the 'readSnapshots' middleware on the one snapshot a request asked for.
+   *
+   * @throws The error the middleware rejected the snapshot with
+   */
+  private async _readSnapshot(collection: string, snapshot: Snapshot): Promise<Snapshot> {
+    const rejectedSnapshots = new Map<string, Error>();
+    const [read] = await this._readSnapshots(collection, [snapshot], rejectedSnapshots);
+    const error = rejectedSnapshots.get(snapshot.id);
+    if (error) throw error;
+    return read;
+  }
+
   /**
    * Handle subscribe request.
    */
   private async _handleSubscribe(message: {
+    a: "s";
     c: string;
     d: string;
   }): Promise<void> {
@@ -98,7 +308,10 @@ export class Agent extends EventEmitter {
 
     try {
       // Get current snapshot
-      const snapshot = await this.backend.db.getSnapshot(collection, id);
+      const snapshot = await this._readSnapshot(
+        collection,
+        await this.backend.getSnapshot(collection, id),
+      );
 
       // Add to subscriptions
       let docIds = this.subscriptions.get(collection);
@@ -109,22 +322,17 @@ export class Agent extends EventEmitter {
       docIds.add(id);
 
       // Register with backend for broadcasts
-      this.backend._subscribe(collection, id, this);
+      this._watch(collection, id);
 
       // Send snapshot to client
-      this.send({
+      await this._reply(message, {
         a: "s",
         c: collection,
         d: id,
         data: snapshot,
       });
     } catch (error: any) {
-      this.send({
-        a: "s",
-        c: collection,
-        d: id,
-        error: { code: error.code || "ERR_UNKNOWN", message: error.message },
-      });
+      await this._reply(message, this._errorReply(message, error));
     }
   }
 
@@ -132,6 +340,7 @@ export class Agent extends EventEmitter {
    * Handle unsubscribe request.
    */
   private async _handleUnsubscribe(message: {
+    a: "us";
     c: string;
     d: string;
   }): Promise<void> {
@@ -142,9 +351,9 @@ export class Agent extends EventEmitter {
       docIds.delete(id);
     }
 
-    this.backend._unsubscribe(collection, id, this);
+    this._release(collection, id);
 
-    this.send({
+    await this._reply(message, {
       a: "us",
       c: collection,
       d: id,
@@ -153,32 +362,275 @@ export class Agent extends EventEmitter {
 
   /**
    * Handle fetch request.
+   *
+   * With a version, replies with the ops committed since it instead of
+   * the snapshot: a doc that isn't subscribed catches up with them when
+   * its op was transformed against ops it never got.
    */
-  private async _handleFetch(message: { c: string; d: string }): Promise<void> {
+  private async _handleFetch(message: { a: "f"; c: string; d: string; v?: number }): Promise<void> {
     const { c: collection, d: id } = message;
 
     try {
-      const snapshot = await this.backend.db.getSnapshot(collection, id);
-      this.send({
+      const snapshot = await this._readSnapshot(
+        collection,
+        await this.backend.getSnapshot(collection, id),
+      );
+      if (typeof message.v === "number") {
+        const ops = await this.backend.getOps(collection, id, message.v, snapshot.v);
+        await this._reply(message, {
+          a: "f",
+          c: collection,
+          d: id,
+          v: message.v,
+          ops: ops.map(({ c, d, m, ...op }) => op),
+        });
+        return;
+      }
+      await this._reply(message, {
         a: "f",
         c: collection,
         d: id,
         data: snapshot,
       });
     } catch (error: any) {
-      this.send({
-        a: "f",
-        c: collection,
-        d: id,
-        error: { code: error.code || "ERR_UNKNOWN", message: error.message },
-      });
+      await this._reply(message, this._errorReply(message, error));
     }
   }
 
+  /**
+   * Handle a historical snapshot request.
+   *
+   * Reference: Agent.prototype._fetchSnapshot and _fetchSnapshotByTimestamp in ShareDB
+   *
+   * Unlike subscribe, this doesn't register the agent for broadcasts: the
+   * client gets a read-only copy of the document as it was.
+   */
+  private async _handleSnapshotFetch(message: {
+    a: "nf" | "nt";
+    id: number;
+    c: string;
+    d: string;
+    v?: number | null;
+    ts?: number | null;
+  }): Promise<void> {
+    const { a, id: requestId, c: collection, d: id } = message;
+
+    try {
+      const snapshot = await this._readSnapshot(
+        collection,
+        a === "nf"
+          ? await this.backend.fetchSnapshot(collection, id, message.v ?? null)
+          : await this.backend.fetchSnapshotByTimestamp(collection, id, message.ts ?? null),
+      );
+      await this._reply(message, { a, id: requestId, c: collection, d: id, data: snapshot });
+    } catch (error: any) {
+      await this._reply(message, this._errorReply(message, error));
+    }
+  }
+
+  /**
+   * Handle a one-shot query.
+   */
+  private async _handleQueryFetch(message: { a: "qf"; id: number; c: string; q: Query }): Promise<void> {
+    const { id: queryId, c: collection } = message;
+
+    try {
+      const snapshots = await this._readSnapshots(collection, await this.backend.query(collection, message.q));
+      await this._reply(message, { a: "qf", id: queryId, c: collection, data: snapshots });
+    } catch (error: any) {
+      await this._reply(message, this._errorReply(message, error));
+    }
+  }
+
+  /**
+   * Handle a live query.
+   *
+   * Reference: Agent.prototype._querySubscribe in ShareDB
+   *
+   * The client gets the current results, and the agent subscribes to each
+   * result document so the client's Docs stay up to date. Whenever an op
+   * is committed in the collection, the query runs again and the client
+   * gets the difference as a 'q' message: results inserted (with their
+   * snapshots), removed, or moved.
+   */
+  private async _handleQuerySubscribe(message: { a: "qs"; id: number; c: string; q: Query }): Promise<void> {
+    const { id: queryId, c: collection, q: query } = message;
+
+    // Listen before the first run, so no commit falls in between. Each run
+    // waits for the one before, so the client gets the results first and
+    // then the changes, in order.
+    const state: AgentQuery = {
+      collection,
+      query,
+      ids: [],
+      unsubscribe: this.backend._subscribeCollection(collection, () => {
+        state.running = state.running.then(() => this._rerunQuery(queryId, state));
+      }),
+      running: Promise.resolve(),
+    };
+    this.queries.set(queryId, state);
+
+    state.running = (async () => {
+      try {
+        const snapshots = await this._readSnapshots(collection, await this.backend.query(collection, query));
+        state.ids = snapshots.map((snapshot) => snapshot.id);
+        for (const id of state.ids) {
+          this._watch(collection, id);
+        }
+        await this._reply(message, { a: "qs", id: queryId, c: collection, data: snapshots });
+      } catch (error: any) {
+        state.unsubscribe();
+        this.queries.delete(queryId);
+        await this._reply(message, this._errorReply(message, error));
+      }
+    })();
+    await state.running;
+  }
+
+  /**
+   * Run a live query again, and tell the client what changed.
+   */
+  private async _rerunQuery(queryId: number, state: AgentQuery): Promise<void> {
+    if (this.queries.get(queryId) !== state) return;
+
+    let diff: QueryDiff[];
+    try {
+      const snapshots = await this._readSnapshots(
+        state.collection,
+        await this.backend.query(state.collection, state.query),
+      );
+      if (this.queries.get(queryId) !== state) return;
+      diff = diffResults(state.ids, snapshots);
+      if (diff.length === 0) return;
+
+      const before = state.ids;
+      state.ids = snapshots.map((snapshot) => snapshot.id);
+      for (const id of state.ids) {
+        this._watch(state.collection, id);
+      }
+      for (const id of before) {
+        if (!state.ids.includes(id)) this._release(state.collection, id);
+      }
+    } catch (error: any) {
+      this.send(this._errorReply({ a: "q", c: state.collection, id: queryId }, error));
+      return;
+    }
+    this.send({ a: "q", id: queryId, diff });
+  }
+
+  /**
+   * Handle a request to stop a live query.
+   */
+  private async _handleQueryUnsubscribe(message: { a: "qu"; id: number }): Promise<void> {
+    const state = this.queries.get(message.id);
+    if (state) {
+      state.unsubscribe();
+      this.queries.delete(message.id);
+      for (const id of state.ids) {
+        this._release(state.collection, id);
+      }
+    }
+    await this._reply(message, { a: "qu", id: message.id });
+  }
+
+  /**
+   * Whether this agent gets a document's broadcasts, because it is
+   * subscribed to it directly or through a live query.
+   */
+  private _watches(collection: string, id: string): boolean {
+    if (this.isSubscribed(collection, id)) return true;
+    for (const state of this.queries.values()) {
+      if (state.collection === collection && state.ids.includes(id)) return true;
+    }
+    return false;
+  }
+
+  /**
+   * Start broadcasts of a document to this agent, which has just been
+   * allowed to read it.
+   */
+  private _watch(collection: string, id: string): void {
+    this.denied.delete(collection + "." + id);
+    this.backend._subscribe(collection, id, this);
+  }
+
+  /**
+   * Stop broadcasts of a document to this agent, and drop its presence
+   * there, unless it still watches the document.
+   */
+  private _release(collection: string, id: string): void {
+    if (!this._watches(collection, id)) {
+      this.backend._unsubscribe(collection, id, this);
+      this._leave(collection, id);
+    }
+  }
+
+  /**
+   * Handle a presence update.
+   *
+   * Reference: Agent.prototype._broadcastPresence in ShareDB
+   *
+   * The value refers to the version the client had when it sent it. If
+   * ops were committed since, it is moved through them first, so the
+   * other clients get it at the current version. Presence from clients
+   * that don't watch the document is ignored.
+   */
+  private async _handlePresence(message: { a: "p"; c: string; d: string; v?: number; p?: unknown }): Promise<void> {
+    const { c: collection, d: id } = message;
+    if (!this._watches(collection, id)) return;
+
+    const key = collection + "." + id;
+    const seq = (this.presenceSeq.get(key) ?? 0) + 1;
+    this.presenceSeq.set(key, seq);
+
+    let value: unknown = message.p ?? null;
+    let v = message.v ?? 0;
+    if (value !== null) {
+      try {
+        const snapshot = await this.backend.getSnapshot(collection, id);
+        if (v > snapshot.v) return;
+        const type = snapshot.type ? this.backend.types.get(snapshot.type) : undefined;
+        for (const op of await this.backend.getOps(collection, id, v, snapshot.v)) {
+          // Created or deleted since: the presence is about a document that's gone
+          if (!type || !isEditOp(op)) return;
+          value = transformPresence(type, value, op.op, op.src === this.clientId);
+        }
+        v = snapshot.v;
+      } catch {
+        return;
+      }
+    }
+
+    // A later presence message from this client was handled meanwhile
+    if (this.presenceSeq.get(key) !== seq || !this._watches(collection, id)) return;
+
+    let docIds = this.presence.get(collection);
+    if (!docIds) {
+      docIds = new Set();
+      this.presence.set(collection, docIds);
+    }
+    if (value === null) {
+      docIds.delete(id);
+    } else {
+      docIds.add(id);
+    }
+    this.backend._publishPresence(collection, id, { src: this.clientId, v, p: value });
+  }
+
+  /**
+   * Tell the document's other clients this client has left it.
+   */
+  private _leave(collection: string, id: string): void {
+    if (!this.presence.get(collection)?.delete(id)) return;
+    this.presenceSeq.delete(collection + "." + id);
+    this.backend._publishPresence(collection, id, { src: this.clientId, v: 0, p: null });
+  }
+
   /**
    * Handle operation submission.
    */
   private async _handleOp(message: {
+    a: "op";
     c: string;
     d: string;
     v?: number;
@@ -207,10 +659,11 @@ export class Agent extends EventEmitter {
 
     try {
       // Submit the operation
-      const result = await this.backend.submit(collection, id, op);
+      const result = await this.backend.submit(collection, id, op, { agent: this });
 
-      // Send acknowledgement to the submitting client
-      this.send({
+      // Send acknowledgement to the submitting client. `v` is the version
+      // after the op, which a no-op leaves unchanged.
+      await this._reply(message, {
         a: "op",
         c: collection,
         d: id,
@@ -219,34 +672,9 @@ export class Agent extends EventEmitter {
         seq,
       });
 
-      // Broadcast to other subscribers
-      this.backend._broadcast(
-        collection,
-        id,
-        {
-          a: "op",
-          c: collection,
-          d: id,
-          v: result.op.v,
-          src,
-          seq,
-          ...("create" in result.op && result.op.create
-            ? { create: result.op.create }
-            : {}),
-          ...("del" in result.op && result.op.del ? { del: true } : {}),
-          ...("op" in result.op ? { op: result.op.op } : {}),
-        },
-        this,
-      );
+      // Backend.submit already published the op to the other subscribers
     } catch (error: any) {
-      this.send({
-        a: "op",
-        c: collection,
-        d: id,
-        src,
-        seq,
-        error: { code: error.code || "ERR_UNKNOWN", message: error.message },
-      });
+      await this._reply(message, this._errorReply(message, error));
     }
   }
 
@@ -261,6 +689,13 @@ export class Agent extends EventEmitter {
    * Clean up when agent disconnects.
    */
   close(): void {
+    // Leave every document we had presence on
+    for (const [collection, docIds] of this.presence) {
+      for (const id of docIds) {
+        this._leave(collection, id);
+      }
+    }
+
     // Unsubscribe from all documents
     for (const [collection, docIds] of this.subscriptions) {
       for (const id of docIds) {
@@ -268,6 +703,15 @@ export class Agent extends EventEmitter {
       }
     }
     this.subscriptions.clear();
+
+    // And from live query results
+    for (const state of this.queries.values()) {
+      state.unsubscribe();
+      for (const id of state.ids) {
+        this.backend._unsubscribe(state.collection, id, this);
+      }
+    }
+    this.queries.clear();
     this.emit("close");
   }
 }
@@ -276,8 +720,24 @@ export class Agent extends EventEmitter {
  * Backend options
  */
 export interface BackendOptions {
-  /** Database instance (defaults to MemoryDb) */
-  db?: MemoryDb;
+  /** Database instance (defaults to a MemoryDb without milestones) */
+  db?: Db;
+  /** OT types this backend supports (defaults to the global registry) */
+  types?: TypeRegistry;
+  /** Clock for snapshot and op timestamps, in milliseconds (defaults to Date.now) */
+  clock?: () => number;
+  /** Pub/sub shared with other backends on the same db (defaults to a private MemoryPubSub) */
+  pubsub?: PubSub;
+}
+
+/**
+ * Options for Backend.submit
+ */
+export interface BackendSubmitOptions {
+  /** The submitting client's agent; its clientId is recorded with the op */
+  agent?: Agent;
+  /** Custom metadata to record with the op, readable later through getOps */
+  metadata?: Record<string, unknown>;
 }
 
 /**
@@ -285,7 +745,16 @@ export interface BackendOptions {
  */
 export class Backend extends EventEmitter {
   /** The database */
-  public readonly db: MemoryDb;
+  public readonly db: Db;
+
+  /** Where committed ops are published */
+  public readonly pubsub: PubSub;
+
+  /** The OT types documents on this backend can use */
+  public readonly types: TypeRegistry;
+
+  /** Clock for commit timestamps */
+  private readonly clock: () => number;
 
   /** Connected agents */
   private agents: Set<Agent> = new Set();
@@ -296,18 +765,121 @@ export class Backend extends EventEmitter {
   /** Counter for generating client IDs */
   private clientIdCounter: number = 0;
 
+  /**
+   * Random ID of this backend. Prefixes its client IDs, so they are unique
+   * across backends sharing a pub/sub, and is the source of server ops.
+   */
+  public readonly id: string = Math.random().toString(36).slice(2, 8);
+
+  /** Sequence number of the last op submitted by server code */
+  private serverSeq: number = 0;
+
+  /** Pub/sub doc channels we listen to, with the function to stop listening */
+  private channels: Map<string, () => void> = new Map();
+
+  /** Middleware by action, in the order it was added */
+  private middleware: Map<MiddlewareAction, Middleware[]> = new Map();
+
+  /** Projections by name */
+  private projections: Map<string, Projection> = new Map();
+
   constructor(options: BackendOptions = {}) {
     super();
     this.db = options.db || new MemoryDb();
+    this.pubsub = options.pubsub || new MemoryPubSub();
+    this.types = options.types || types;
+    this.clock = options.clock || Date.now;
+  }
+
+  /**
+   * Add middleware for one or more actions.
+   *
+   * Reference: Backend.prototype.use in ShareDB
+   *
+   * @param action - The action(s) to hook into (see ./middleware)
+   * @param fn - Runs with the request's context; throw to reject it
+   * @returns this, for chaining
+   *
+   * Example:
+   *   backend.use('connect', (context) => {
+   *     context.agent!.custom.userId = userIdFrom(context.req);
+   *   });
+   */
+  use(action: MiddlewareAction | MiddlewareAction[], fn: Middleware): this {
+    for (const name of Array.isArray(action) ? action : [action]) {
+      let fns = this.middleware.get(name);
+      if (!fns) {
+        fns = [];
+        this.middleware.set(name, fns);
+      }
+      fns.push(fn);
+    }
+    return this;
+  }
+
+  /**
+   * Run the middleware for an action.
+   *
+   * Reference: Backend.prototype.trigger in ShareDB
+   *
+   * @param action - The action to run
+   * @param agent - The client's agent, or null for server code
+   * @param request - Fields of the context for this action
+   * @returns The context, after middleware has had its way with it
+   * @throws Whatever a middleware throws
+   */
+  async trigger(
+    action: MiddlewareAction,
+    agent: Agent | null,
+    request: Omit<MiddlewareContext, "action" | "backend" | "agent">,
+  ): Promise<MiddlewareContext> {
+    const context: MiddlewareContext = { ...request, action, backend: this, agent };
+    await runMiddleware(this.middleware.get(action) || [], context);
+    return context;
+  }
+
+  /**
+   * Whether any middleware is registered for an action (internal).
+   */
+  _hasMiddleware(action: MiddlewareAction): boolean {
+    return (this.middleware.get(action)?.length ?? 0) > 0;
+  }
+
+  /**
+   * Add a projection: a collection name that shows only some fields of
+   * the JSON documents in another collection.
+   *
+   * Reference: Backend.prototype.addProjection in ShareDB
+   *
+   * @param name - Collection name clients use for the projection
+   * @param collection - The real collection
+   * @param fields - Top-level fields the projection shows
+   *
+   * Example:
+   *   backend.addProjection('users_public', 'users', { name: true, avatar: true });
+   */
+  addProjection(name: string, collection: string, fields: ProjectionFields): void {
+    if (this.projections.has(collection)) {
+      throw new Error(`Cannot project '${collection}': it is a projection itself`);
+    }
+    this.projections.set(name, { name, target: collection, fields: { ...fields } });
+  }
+
+  /**
+   * The real collection behind a collection name (internal).
+   */
+  _target(collection: string): string {
+    return this.projections.get(collection)?.target ?? collection;
   }
 
   /**
    * Create a new agent for a client connection.
    *
+   * @param req - Passed to 'connect' middleware, e.g. the HTTP upgrade request
    * @returns New Agent instance
    */
-  createAgent(): Agent {
-    const clientId = (++this.clientIdCounter).toString(36);
+  createAgent(req?: unknown): Agent {
+    const clientId = this.id + (++this.clientIdCounter).toString(36);
     const agent = new Agent(this, clientId);
     this.agents.add(agent);
 
@@ -315,6 +887,10 @@ export class Backend extends EventEmitter {
       this.agents.delete(agent);
     });
 
+    if (this._hasMiddleware("connect")) {
+      agent._connect(req);
+    }
+
     return agent;
   }
 
@@ -324,19 +900,200 @@ export class Backend extends EventEmitter {
    * @param collection - Collection name
    * @param id - Document ID
    * @param op - The operation
+   * @param options - Who submitted the op, and custom metadata to record with it
    * @returns Submit result
+   *
+   * Every committed op is broadcast to the document's subscribers, whoever
+   * submitted it. Ops from server code (no agent) that don't say where
+   * they came from get `src: 'server:<backend id>'` and the next seq, so
+   * clients can tell them apart from their own.
+   *
+   * Example:
+   *   await backend.submit('docs', 'doc1', { op: 1 }, { metadata: { reason: 'import' } });
+   *   (await backend.getOps('docs', 'doc1', 0))[0].m  // { reason: 'import', ts: ... }
    */
-  async submit(collection: string, id: string, op: Op): Promise<SubmitResult> {
-    const result = await submitOp(this.db, collection, id, op);
-    this.emit("submit", collection, id, result);
+  async submit(
+    collection: string,
+    id: string,
+    op: Op,
+    options: BackendSubmitOptions = {}
+  ): Promise<SubmitResult> {
+    const agent = options.agent ?? null;
+    const projection = this.projections.get(collection);
+    if (!agent && op.src == null) {
+      op = { ...op, src: "server:" + this.id, seq: ++this.serverSeq };
+    }
+    const result = await submitOp(this.db, this._target(collection), id, op, {
+      types: this.types,
+      clock: this.clock,
+      clientId: agent?.clientId,
+      metadata: options.metadata,
+      hook: async (name, hookContext) => {
+        // Check the op once it is transformed, against the document it applies to
+        if (projection && name === "apply") {
+          checkProjectedOp(projection.fields, hookContext.op, hookContext.snapshot!.type);
+        }
+        // Middleware sees the collection name the op was submitted to
+        const context = await this.trigger(name, agent, { collection, id, ...hookContext });
+        hookContext.op = context.op!;
+        hookContext.snapshot = context.snapshot;
+      },
+    });
+    this.emit("submit", this._target(collection), id, result);
+
+    // Tell every backend's subscribers, including our own. No-ops weren't
+    // committed, so nobody needs to hear about them.
+    if (!result.noop) {
+      const target = this._target(collection);
+      const message: PubSubMessage = { c: target, d: id, op: result.op };
+      this.pubsub.publish([collectionChannel(target), docChannel(target, id)], message);
+    }
     return result;
   }
 
   /**
-   * Get a snapshot from the database.
+   * Get a snapshot from the database, projected if `collection` is a projection.
    */
   async getSnapshot(collection: string, id: string): Promise<Snapshot> {
-    return this.db.getSnapshot(collection, id);
+    return this._project(collection, await this.db.getSnapshot(this._target(collection), id));
+  }
+
+  /**
+   * Get committed operations, with their metadata, from the database.
+   * Projected if `collection` is a projection.
+   */
+  async getOps(collection: string, id: string, fromVersion: number, toVersion?: number): Promise<StoredOp[]> {
+    const ops = await this.db.getOps(this._target(collection), id, fromVersion, toVersion);
+    const projection = this.projections.get(collection);
+    return projection ? ops.map((op) => projectOp(projection.fields, op)) : ops;
+  }
+
+  /**
+   * Run a query over a collection.
+   *
+   * Queries on a projection may only filter and sort on its fields, so
+   * their results can't give away hidden data.
+   *
+   * @param collection - Collection (or projection) name
+   * @param query - The query (see ../core/query)
+   * @returns The matching snapshots, projected if `collection` is a projection
+   * @throws OTError if the query is badly formed, or the db can't run queries
+   *
+   * Example:
+   *   await backend.query('tasks', { filter: { status: 'open' }, sort: { priority: -1 } });
+   */
+  async query(collection: string, query: Query): Promise<Snapshot[]> {
+    checkQuery(query);
+    const projection = this.projections.get(collection);
+    if (projection) {
+      for (const path of queryFields(query)) {
+        if (!projection.fields[path.split(".")[0]]) {
+          throw new OTError(
+            ERROR_CODES.ERR_QUERY_NOT_ALLOWED_IN_PROJECTION,
+            `Query uses '${path}', which is outside the projection`,
+          );
+        }
+      }
+    }
+    if (!this.db.query) {
+      throw new OTError(ERROR_CODES.ERR_DB_QUERY_NOT_SUPPORTED, "The database does not support queries");
+    }
+
+    const snapshots = await this.db.query(this._target(collection), query);
+    return snapshots.map((snapshot) => this._project(collection, snapshot));
+  }
+
+  /**
+   * Listen for ops committed anywhere in a collection (internal).
+   *
+   * @param collection - Collection (or projection) name
+   * @param listener - Called with each committed op
+   * @returns A function that stops listening
+   */
+  _subscribeCollection(collection: string, listener: (message: PubSubMessage) => void): () => void {
+    return this.pubsub.subscribe(collectionChannel(this._target(collection)), listener);
+  }
+
+  /**
+   * Project a snapshot if `collection` is a projection (internal).
+   */
+  private _project(collection: string, snapshot: Snapshot): Snapshot {
+    const projection = this.projections.get(collection);
+    return projection ? projectSnapshot(projection.fields, snapshot) : snapshot;
+  }
+
+  /**
+   * Rebuild a document as it was at a given version.
+   *
+   * Reference: Backend.prototype.fetchSnapshot in ShareDB
+   *
+   * @param collection - Collection name
+   * @param id - Document ID
+   * @param version - Version to rebuild, or null for the current version
+   * @returns The snapshot at that version
+   * @throws OTError if the version is newer than the document
+   *
+   * The snapshot is rebuilt by replaying the op log, starting from the
+   * nearest milestone if the database stores them (see MemoryDbOptions).
+   * It carries no metadata.
+   *
+   * Example:
+   *   // doc1 was created with 'hi', then edited to 'hi!'
+   *   await backend.fetchSnapshot('docs', 'doc1', 1)  // { v: 1, data: 'hi', ... }
+   */
+  async fetchSnapshot(collection: string, id: string, version: number | null = null): Promise<Snapshot> {
+    const current = await this.db.getSnapshot(this._target(collection), id);
+    if (version === null) version = current.v;
+
+    if (!Number.isInteger(version) || version < 0) {
+      throw new OTError(ERROR_CODES.ERR_OT_OP_BADLY_FORMED, `Invalid snapshot version: ${version}`);
+    }
+    if (version > current.v) {
+      throw new OTError(
+        ERROR_CODES.ERR_OP_VERSION_NEWER_THAN_CURRENT_SNAPSHOT,
+        `Requested version ${version} is newer than current version ${current.v}`
+      );
+    }
+
+    return this._rebuild(collection, id, version);
+  }
+
+  /**
+   * Rebuild a document as it was at a given time.
+   *
+   * Reference: Backend.prototype.fetchSnapshotByTimestamp in ShareDB
+   *
+   * @param collection - Collection name
+   * @param id - Document ID
+   * @param timestamp - Time in milliseconds, or null for the current version
+   * @returns The snapshot after the last op committed at or before `timestamp`
+   */
+  async fetchSnapshotByTimestamp(collection: string, id: string, timestamp: number | null = null): Promise<Snapshot> {
+    const ops = await this.db.getOps(this._target(collection), id, 0);
+
+    // Op timestamps only grow, so stop at the first op after `timestamp`
+    const end = timestamp === null ? -1 : ops.findIndex((op) => (op.m?.ts ?? 0) > timestamp);
+    return this._rebuild(collection, id, end === -1 ? ops.length : end);
+  }
+
+  /**
+   * Rebuild a version from the nearest milestone below it (internal).
+   *
+   * Without a milestone, the ops are replayed from creation. The result
+   * is projected if `collection` is a projection.
+   */
+  private async _rebuild(collection: string, id: string, version: number): Promise<Snapshot> {
+    const target = this._target(collection);
+    const milestone = this.db.getMilestoneSnapshot
+      ? await this.db.getMilestoneSnapshot(target, id, version)
+      : null;
+    const snapshot = milestone ?? createEmptySnapshot(id);
+    // Replayed snapshots carry no metadata, whichever way they were built
+    delete snapshot.m;
+
+    const ops = await this.db.getOps(target, id, snapshot.v, version);
+    applyOps(snapshot, ops, this.types);
+    return this._project(collection, snapshot);
   }
 
   /**
@@ -356,6 +1113,13 @@ export class Backend extends EventEmitter {
     }
 
     docSubs.add(agent);
+
+    // Listen for ops committed on the document, by us or other backends
+    const target = this._target(collection);
+    const channel = docChannel(target, id);
+    if (!this.channels.has(channel)) {
+      this.channels.set(channel, this.pubsub.subscribe(channel, (message) => this._onPublished(message)));
+    }
   }
 
   /**
@@ -377,6 +1141,60 @@ export class Backend extends EventEmitter {
     if (collectionSubs.size === 0) {
       this.subscriptionsByDoc.delete(collection);
     }
+
+    // Stop listening once nobody here watches the document, in any projection
+    const target = this._target(collection);
+    const watched = [target, ...this._projectionsOf(target)].some((name) =>
+      this.subscriptionsByDoc.get(name)?.has(id),
+    );
+    const channel = docChannel(target, id);
+    if (!watched && this.channels.has(channel)) {
+      this.channels.get(channel)!();
+      this.channels.delete(channel);
+    }
+  }
+
+  /**
+   * Publish a client's presence on a document, without storing it (internal).
+   */
+  _publishPresence(collection: string, id: string, presence: PresenceUpdate): void {
+    const target = this._target(collection);
+    this.pubsub.publish([docChannel(target, id)], { c: target, d: id, presence });
+  }
+
+  /**
+   * Send an op or presence published on a doc channel to our subscribers
+   * (internal).
+   *
+   * The client it came from (if it is one of ours) is skipped: it already
+   * got an ack for its op, and knows its own presence.
+   */
+  private _onPublished(message: PubSubMessage): void {
+    const src = message.op?.src ?? message.presence?.src;
+    let source: Agent | undefined;
+    for (const agent of this.agents) {
+      if (agent.clientId === src) source = agent;
+    }
+
+    if (message.op) {
+      this._broadcastOp(message.c, message.d, message.op, source);
+    } else if (message.presence) {
+      const { src, v, p } = message.presence;
+      for (const name of [message.c, ...this._projectionsOf(message.c)]) {
+        this._broadcast(name, message.d, { a: "p", c: name, d: message.d, src, v, p }, source);
+      }
+    }
+  }
+
+  /**
+   * Names of the projections of a collection.
+   */
+  private _projectionsOf(target: string): string[] {
+    const names: string[] = [];
+    for (const projection of this.projections.values()) {
+      if (projection.target === target) names.push(projection.name);
+    }
+    return names;
   }
 
   /**
@@ -390,7 +1208,7 @@ export class Backend extends EventEmitter {
   _broadcast(
     collection: string,
     id: string,
-    message: unknown,
+    message: any,
     excludeAgent?: Agent,
   ): void {
     const collectionSubs = this.subscriptionsByDoc.get(collection);
@@ -401,20 +1219,65 @@ export class Backend extends EventEmitter {
 
     for (const agent of docSubs) {
       if (agent !== excludeAgent) {
-        agent.send(message);
+        agent._relay(collection, id, message);
       }
     }
   }
 
   /**
-   * Close the backend.
+   * Broadcast a committed op to the subscribers of its document (internal).
+   *
+   * Subscribers of the real collection get the op as it is; subscribers
+   * of each projection of it get the projected op.
+   *
+   * @param collection - Collection (or projection) the op was submitted to
+   * @param id - Document ID
+   * @param op - The committed op
+   * @param excludeAgent - Agent to exclude (usually the one who submitted)
    */
-  close(): void {
+  _broadcastOp(collection: string, id: string, op: Op & { src?: string; seq?: number }, excludeAgent?: Agent): void {
+    const target = this._target(collection);
+    const message = (c: string, sent: Op) => ({
+      a: "op",
+      c,
+      d: id,
+      v: sent.v,
+      src: op.src,
+      seq: op.seq,
+      ...("create" in sent && sent.create ? { create: sent.create } : {}),
+      ...("del" in sent && sent.del ? { del: true } : {}),
+      ...("op" in sent ? { op: sent.op } : {}),
+    });
+
+    this._broadcast(target, id, message(target, op), excludeAgent);
+    for (const projection of this.projections.values()) {
+      if (projection.target !== target) continue;
+      let projected: Op;
+      try {
+        projected = projectOp(projection.fields, op);
+      } catch {
+        // Not a JSON document: projection subscribers couldn't read it anyway
+        continue;
+      }
+      this._broadcast(projection.name, id, message(projection.name, projected), excludeAgent);
+    }
+  }
+
+  /**
+   * Close the backend, its agents, its pub/sub and its database.
+   */
+  async close(): Promise<void> {
     for (const agent of this.agents) {
       agent.close();
     }
     this.agents.clear();
     this.subscriptionsByDoc.clear();
+    for (const unsubscribe of this.channels.values()) {
+      unsubscribe();
+    }
+    this.channels.clear();
+    this.pubsub.close();
+    await this.db.close();
     this.emit("close");
   }
 }
@@ -0,0 +1,263 @@
+/**
+ * Database Adapter Conformance Checker
+ *
+ * Reference: test/db.js in ShareDB, which every adapter runs
+ *
+ * submitOp relies on the database to keep history straight: a commit at
+ * a stale version must fail, ops must come back in order, and a failed
+ * commit must leave nothing behind. An adapter that gets one of these
+ * wrong still passes simple tests, then loses or duplicates ops under
+ * concurrent writes. This module runs the same checks against any Db:
+ *
+ * - empty: missing documents read as v=0, type=null, with no ops
+ * - commit: a committed op and snapshot read back as they were written
+ * - snapshot: the committed snapshot is kept as given, not rebuilt from
+ *   the ops, also after a restart
+ * - lock: a commit at the wrong version returns false
+ * - concurrent: of two commits at the same version, exactly one wins
+ * - order: ops come back in version order, filtered by range
+ * - atomic: a failed commit changes neither the snapshot nor the ops
+ * - isolation: changing a returned snapshot or op doesn't change storage
+ * - bulk: getSnapshotBulk returns every requested document
+ *
+ * Each check gets a fresh database from the factory, and closes it.
+ * Adapters that persist should also pass `reopen`, so what they stored
+ * is read back the way a restarted process would see it.
+ *
+ * Example:
+ *   const result = await checkDbConformance(() => new MemoryDb());
+ *   if (result.failures.length) console.log(result.failures);
+ */
+
+import { Db } from './db';
+import { Snapshot } from '../core/snapshot';
+import { Op } from '../core/ot';
+
+/** The checks the suite knows about */
+export type DbConformanceCheck =
+  | 'empty'
+  | 'commit'
+  | 'snapshot'
+  | 'lock'
+  | 'concurrent'
+  | 'order'
+  | 'atomic'
+  | 'isolation'
+  | 'bulk';
+
+/**
+ * Conformance run options
+ */
+export interface DbConformanceOptions {
+  /**
+   * Open a second database on the storage of `db`, as a process restarted
+   * after a crash would (`db` is not closed first)
+   */
+  reopen?: (db: Db) => Db | Promise<Db>;
+}
+
+/**
+ * A failing check.
+ */
+export interface DbConformanceFailure {
+  /** The check that failed */
+  check: DbConformanceCheck;
+  /** What went wrong */
+  message: string;
+}
+
+/**
+ * Result of a conformance run.
+ */
+export interface DbConformanceResult {
+  /** Checks that were run */
+  checked: DbConformanceCheck[];
+  /** Failing checks, empty if the adapter conforms */
+  failures: DbConformanceFailure[];
+}
+
+const COLLECTION = 'conformance';
+
+function fail(message: string): never {
+  throw new Error(message);
+}
+
+function sameJson(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/** Snapshot of a counter document at version v */
+function counterSnapshot(id: string, v: number, data: number): Snapshot {
+  return { id, v, type: 'counter', data };
+}
+
+/**
+ * Write a counter document with `count` ops: a create, then +1 edits.
+ */
+async function writeHistory(db: Db, id: string, count: number): Promise<void> {
+  for (let v = 0; v < count; v++) {
+    const op: Op = v === 0 ? { create: { type: 'counter', data: 0 }, v } : { op: 1, v };
+    const committed = await db.commit(COLLECTION, id, { ...op, m: { ts: v } }, counterSnapshot(id, v + 1, v));
+    if (!committed) fail(`commit at v=${v} returned false`);
+  }
+}
+
+/**
+ * A check. `reopen` gives a database on the same storage, or `db` itself
+ * for adapters that don't persist.
+ */
+type Check = (db: Db, reopen: () => Promise<Db>) => Promise<void>;
+
+const checks: Record<DbConformanceCheck, Check> = {
+  async empty(db) {
+    const snapshot = await db.getSnapshot(COLLECTION, 'missing');
+    if (snapshot.id !== 'missing' || snapshot.v !== 0 || snapshot.type !== null || snapshot.data !== undefined) {
+      fail(`missing document read as ${JSON.stringify(snapshot)}`);
+    }
+    const ops = await db.getOps(COLLECTION, 'missing', 0);
+    if (ops.length !== 0) fail(`missing document has ${ops.length} ops`);
+  },
+
+  async commit(db) {
+    await writeHistory(db, 'doc', 2);
+    const snapshot = await db.getSnapshot(COLLECTION, 'doc');
+    if (!sameJson(snapshot, counterSnapshot('doc', 2, 1))) {
+      fail(`snapshot read back as ${JSON.stringify(snapshot)}`);
+    }
+    const [create, edit] = await db.getOps(COLLECTION, 'doc', 0);
+    if (!create || !('create' in create) || create.c !== COLLECTION || create.d !== 'doc') {
+      fail(`create op read back as ${JSON.stringify(create)}`);
+    }
+    if (!edit || !('op' in edit) || edit.op !== 1 || edit.m?.ts !== 1) {
+      fail(`edit op read back as ${JSON.stringify(edit)}`);
+    }
+  },
+
+  async snapshot(db, reopen) {
+    // Not what replaying the create gives: 'commit' middleware may have
+    // changed the data, or added metadata
+    const written: Snapshot = { ...counterSnapshot('doc', 1, 7), m: { ctime: 1, mtime: 1, source: 'import' } };
+    await db.commit(COLLECTION, 'doc', { create: { type: 'counter', data: 0 }, v: 0, m: { ts: 1 } }, written);
+
+    for (const [when, source] of [['', db], [' after a restart', await reopen()]] as const) {
+      const snapshot = await source.getSnapshot(COLLECTION, 'doc');
+      if (!sameJson(snapshot, written)) {
+        fail(`committed snapshot read back${when} as ${JSON.stringify(snapshot)}`);
+      }
+    }
+  },
+
+  async lock(db) {
+    await writeHistory(db, 'doc', 2);
+    for (const v of [0, 1, 3]) {
+      if (await db.commit(COLLECTION, 'doc', { op: 1, v }, counterSnapshot('doc', v + 1, 9))) {
+        fail(`commit at v=${v} succeeded when the document is at v=2`);
+      }
+    }
+  },
+
+  async concurrent(db) {
+    await writeHistory(db, 'doc', 1);
+    const results = await Promise.all([
+      db.commit(COLLECTION, 'doc', { op: 1, v: 1 }, counterSnapshot('doc', 2, 1)),
+      db.commit(COLLECTION, 'doc', { op: 2, v: 1 }, counterSnapshot('doc', 2, 2)),
+    ]);
+    if (results.filter(Boolean).length !== 1) {
+      fail(`concurrent commits at v=1 returned ${JSON.stringify(results)}`);
+    }
+    const ops = await db.getOps(COLLECTION, 'doc', 1);
+    if (ops.length !== 1) fail(`${ops.length} ops stored at v=1`);
+  },
+
+  async order(db) {
+    await writeHistory(db, 'doc', 5);
+    const versions = async (from: number, to?: number) =>
+      (await db.getOps(COLLECTION, 'doc', from, to)).map((op) => op.v);
+    const cases: Array<[number, number | undefined, number[]]> = [
+      [0, undefined, [0, 1, 2, 3, 4]],
+      [2, undefined, [2, 3, 4]],
+      [1, 3, [1, 2]],
+      [3, 3, []],
+    ];
+    for (const [from, to, expected] of cases) {
+      const actual = await versions(from, to);
+      if (!sameJson(actual, expected)) {
+        fail(`getOps(${from}, ${to}) returned versions ${JSON.stringify(actual)}`);
+      }
+    }
+  },
+
+  async atomic(db) {
+    await writeHistory(db, 'doc', 2);
+    await db.commit(COLLECTION, 'doc', { op: 5, v: 1 }, counterSnapshot('doc', 2, 99));
+    const snapshot = await db.getSnapshot(COLLECTION, 'doc');
+    const ops = await db.getOps(COLLECTION, 'doc', 0);
+    if (snapshot.data !== 1) fail(`failed commit changed the snapshot to ${JSON.stringify(snapshot)}`);
+    if (ops.length !== snapshot.v) fail(`${ops.length} ops stored for a snapshot at v=${snapshot.v}`);
+  },
+
+  async isolation(db) {
+    const written = counterSnapshot('doc', 1, 0);
+    await db.commit(COLLECTION, 'doc', { create: { type: 'counter', data: 0 }, v: 0 }, written);
+    written.data = 42;
+
+    const snapshot = await db.getSnapshot(COLLECTION, 'doc');
+    snapshot.data = 43;
+    const [op] = await db.getOps(COLLECTION, 'doc', 0);
+    op.v = 7;
+
+    const again = await db.getSnapshot(COLLECTION, 'doc');
+    if (again.data !== 0) fail(`stored snapshot changed to ${JSON.stringify(again)}`);
+    const [opAgain] = await db.getOps(COLLECTION, 'doc', 0);
+    if (opAgain.v !== 0) fail(`stored op changed to ${JSON.stringify(opAgain)}`);
+  },
+
+  async bulk(db) {
+    await writeHistory(db, 'a', 1);
+    await writeHistory(db, 'b', 2);
+    const snapshots = await db.getSnapshotBulk(COLLECTION, ['a', 'b', 'missing']);
+    const versions = Object.keys(snapshots)
+      .sort()
+      .map((id) => [id, snapshots[id].v, snapshots[id].type]);
+    if (!sameJson(versions, [['a', 1, 'counter'], ['b', 2, 'counter'], ['missing', 0, null]])) {
+      fail(`bulk read returned ${JSON.stringify(snapshots)}`);
+    }
+  },
+};
+
+/**
+ * Check that a database adapter keeps the promises submitOp relies on.
+ *
+ * @param createDb - Creates a fresh, empty database for each check
+ * @param options - How to reopen a database that persists
+ * @returns The checks that were run and the ones that failed
+ */
+export async function checkDbConformance(
+  createDb: () => Db | Promise<Db>,
+  options: DbConformanceOptions = {}
+): Promise<DbConformanceResult> {
+  const checked = Object.keys(checks) as DbConformanceCheck[];
+  const failures: DbConformanceFailure[] = [];
+
+  for (const check of checked) {
+    const db = await createDb();
+    const opened = [db];
+    const reopen = async () => {
+      if (!options.reopen) return db;
+      const reopened = await options.reopen(db);
+      opened.push(reopened);
+      return reopened;
+    };
+    try {
+      await checks[check](db, reopen);
+    } catch (error: any) {
+      failures.push({ check, message: error?.message ?? String(error) });
+    } finally {
+      for (const each of opened) {
+        await each.close();
+      }
+    }
+  }
+
+  return { checked, failures };
+}
@@ -0,0 +1,110 @@
+/**
+ * Database Interface - What the server needs from storage
+ *
+ * Reference: lib/db/index.js in ShareDB
+ *
+ * Backend and submitOp only talk to the database through this interface,
+ * so any storage can be dropped in. MemoryDb is the reference adapter.
+ *
+ * An adapter must keep two promises:
+ * - commit is an optimistic lock: it only succeeds if op.v is the current
+ *   version, and then stores the op and the new snapshot together
+ * - ops come back in version order, one per version, with nothing missing
+ *
+ * Run checkDbConformance (./db-conformance) against a new adapter to
+ * check both.
+ */
+
+import { Snapshot } from '../core/snapshot';
+import { Op } from '../core/ot';
+import { Query } from '../core/query';
+
+/**
+ * Metadata recorded with a committed operation
+ *
+ * Reference: op.m in ShareDB
+ */
+export interface OpMeta {
+  /** When the op was committed */
+  ts: number;
+  /** Client ID of the agent that submitted the op (absent for server submits) */
+  clientId?: string;
+  /** Custom metadata passed to Backend.submit */
+  [key: string]: unknown;
+}
+
+/**
+ * Stored operation with metadata
+ *
+ * This is the operation as stored in the database, including
+ * collection/document info and metadata.
+ */
+export type StoredOp = Op & {
+  /** Collection name */
+  c: string;
+  /** Document ID */
+  d: string;
+  /** Metadata */
+  m?: OpMeta;
+};
+
+/**
+ * Database adapter interface
+ */
+export interface Db {
+  /**
+   * Get a snapshot for a document.
+   *
+   * @returns The snapshot, or an empty one (v=0, type=null) if the
+   *   document doesn't exist. Callers may mutate it.
+   */
+  getSnapshot(collection: string, id: string): Promise<Snapshot>;
+
+  /**
+   * Get snapshots for several documents of a collection at once.
+   *
+   * @returns Snapshots keyed by document ID, including empty ones for
+   *   documents that don't exist
+   */
+  getSnapshotBulk(collection: string, ids: string[]): Promise<Record<string, Snapshot>>;
+
+  /**
+   * Get operations for a document within a version range.
+   *
+   * @param fromVersion - Start version (inclusive)
+   * @param toVersion - End version (exclusive), or undefined for all
+   * @returns The ops, in version order
+   */
+  getOps(collection: string, id: string, fromVersion: number, toVersion?: number): Promise<StoredOp[]>;
+
+  /**
+   * Commit an operation and update the snapshot atomically.
+   *
+   * @param op - Operation to commit, with its metadata in `op.m`
+   * @param snapshot - New snapshot after applying the operation
+   * @returns true if committed, false if op.v is not the current version
+   */
+  commit(collection: string, id: string, op: Op & { m?: OpMeta }, snapshot: Snapshot): Promise<boolean>;
+
+  /**
+   * Get the latest milestone snapshot at or before a version.
+   *
+   * Optional: adapters without milestones rebuild history from creation.
+   */
+  getMilestoneSnapshot?(collection: string, id: string, version: number): Promise<Snapshot | null>;
+
+  /**
+   * Get the snapshots of a collection that match a query.
+   *
+   * Optional: without it, the Backend can't run queries.
+   *
+   * @param query - A query that passed checkQuery (see ../core/query)
+   * @returns The results, in query order
+   */
+  query?(collection: string, query: Query): Promise<Snapshot[]>;
+
+  /**
+   * Release any resources the adapter holds.
+   */
+  close(): Promise<void>;
+}
@@ -0,0 +1,271 @@
+/**
+ * File Database - Durable storage in an append-only op log
+ *
+ * Reference: the role sharedb-mongo plays for ShareDB, on plain files
+ *
+ * MemoryDb loses everything when the process exits. FileDb keeps the same
+ * in-memory state, and also writes it to a directory:
+ *
+ *   <dir>/<collection>.ops.jsonl         every committed op, one JSON line each
+ *   <dir>/<collection>.checkpoint.json   snapshots as of the first N op lines
+ *
+ * The op log is the source of truth. A commit appends its op before the
+ * in-memory state changes, so a commit that returned true is on disk.
+ * On startup the snapshots are loaded from the checkpoint, and just the
+ * ops after it are replayed.
+ *
+ * A committed snapshot can differ from what replaying its op gives
+ * ('commit' middleware may change it). Such a commit writes a checkpoint
+ * straight away, so the snapshot comes back the same after a restart.
+ *
+ * If the process dies halfway through an append, the log ends in a torn
+ * line. On startup that line is dropped (that commit never returned true)
+ * and the file is truncated, so later appends start on a clean line.
+ *
+ * Milestones (see MemoryDbOptions) are kept in memory only; after a
+ * restart, history is rebuilt from creation until new ones are stored.
+ *
+ * Example:
+ *   const backend = new Backend({ db: new FileDb({ dir: './data' }) });
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { MemoryDb, MemoryDbOptions } from './memory-db';
+import { StoredOp, OpMeta } from './db';
+import { Snapshot, createEmptySnapshot, cloneSnapshot } from '../core/snapshot';
+import { Op, apply, isCreateOp } from '../core/ot';
+import { TypeRegistry, types } from '../core/types';
+import { OTError, ERROR_CODES } from '../core/error';
+
+/**
+ * File Database options
+ */
+export interface FileDbOptions extends MemoryDbOptions {
+  /** Directory for the op logs and checkpoints (created if missing) */
+  dir: string;
+  /** Write a collection's checkpoint every N commits to it (default 100) */
+  checkpointInterval?: number;
+  /** Registry used to replay ops (defaults to the global one) */
+  types?: TypeRegistry;
+}
+
+/**
+ * Checkpoint file contents
+ */
+interface Checkpoint {
+  /** Number of op log lines the snapshots include */
+  lines: number;
+  /** Every document in the collection */
+  snapshots: Snapshot[];
+}
+
+/**
+ * File Database implementation
+ */
+export class FileDb extends MemoryDb {
+  /** Directory for the op logs and checkpoints */
+  public readonly dir: string;
+
+  private readonly checkpointInterval: number;
+  private readonly types: TypeRegistry;
+
+  /** Map of collection -> number of lines in its op log */
+  private lines: Map<string, number> = new Map();
+
+  /** Map of collection -> op log lines at its last checkpoint */
+  private checkpointed: Map<string, number> = new Map();
+
+  /**
+   * Open a database directory, rebuilding state from what is there.
+   *
+   * @throws OTError if an op log is corrupt anywhere but its last line
+   */
+  constructor(options: FileDbOptions) {
+    super(options);
+    this.dir = options.dir;
+    this.checkpointInterval = options.checkpointInterval ?? 100;
+    this.types = options.types ?? types;
+
+    fs.mkdirSync(this.dir, { recursive: true });
+    for (const file of fs.readdirSync(this.dir)) {
+      if (file.endsWith('.ops.jsonl')) {
+        this._load(decodeURIComponent(file.slice(0, -'.ops.jsonl'.length)));
+      }
+    }
+  }
+
+  /**
+   * Commit an operation, appending it to the collection's op log.
+   *
+   * Same optimistic-lock contract as MemoryDb.commit. The lock check and
+   * the append happen with no await in between, so concurrent commits
+   * can't both pass the check.
+   */
+  async commit(collection: string, id: string, op: Op & { m?: OpMeta }, snapshot: Snapshot): Promise<boolean> {
+    if (op.v !== this._version(collection, id)) {
+      return false;
+    }
+
+    const m = op.m ?? { ts: Date.now() };
+    const storedOp: StoredOp = { ...op, c: collection, d: id, m };
+    const replayable = this._replays(this.snapshots.get(collection)?.get(id), storedOp, snapshot);
+    fs.appendFileSync(this._logPath(collection), JSON.stringify(storedOp) + '\n');
+
+    const lines = (this.lines.get(collection) ?? 0) + 1;
+    this.lines.set(collection, lines);
+
+    const committed = super.commit(collection, id, { ...op, m }, snapshot);
+
+    if (!replayable || lines - (this.checkpointed.get(collection) ?? 0) >= this.checkpointInterval) {
+      this._checkpoint(collection);
+    }
+    return committed;
+  }
+
+  /**
+   * Close the database, checkpointing collections with new ops.
+   */
+  async close(): Promise<void> {
+    for (const [collection, lines] of this.lines) {
+      if (lines !== (this.checkpointed.get(collection) ?? 0)) {
+        this._checkpoint(collection);
+      }
+    }
+  }
+
+  /**
+   * Delete all data, on disk too (for testing).
+   */
+  clear(): void {
+    super.clear();
+    for (const collection of this.lines.keys()) {
+      fs.rmSync(this._logPath(collection), { force: true });
+      fs.rmSync(this._checkpointPath(collection), { force: true });
+    }
+    this.lines.clear();
+    this.checkpointed.clear();
+  }
+
+  private _logPath(collection: string): string {
+    return path.join(this.dir, encodeURIComponent(collection) + '.ops.jsonl');
+  }
+
+  private _checkpointPath(collection: string): string {
+    return path.join(this.dir, encodeURIComponent(collection) + '.checkpoint.json');
+  }
+
+  /**
+   * Write a collection's snapshots to its checkpoint file.
+   *
+   * The file is written under a temporary name and renamed into place,
+   * so a crash leaves either the old checkpoint or the new one.
+   */
+  private _checkpoint(collection: string): void {
+    const lines = this.lines.get(collection) ?? 0;
+    const checkpoint: Checkpoint = {
+      lines,
+      snapshots: Array.from(this.snapshots.get(collection)?.values() ?? []),
+    };
+    const file = this._checkpointPath(collection);
+    fs.writeFileSync(file + '.tmp', JSON.stringify(checkpoint));
+    fs.renameSync(file + '.tmp', file);
+    this.checkpointed.set(collection, lines);
+  }
+
+  /**
+   * Rebuild a collection from its checkpoint and op log.
+   */
+  private _load(collection: string): void {
+    const ops = this._readLog(collection);
+
+    let checkpoint: Checkpoint = { lines: 0, snapshots: [] };
+    const checkpointFile = this._checkpointPath(collection);
+    if (fs.existsSync(checkpointFile)) {
+      checkpoint = JSON.parse(fs.readFileSync(checkpointFile, 'utf8'));
+      // A checkpoint can't be ahead of the log it was written from
+      if (checkpoint.lines > ops.length) {
+        throw new OTError(
+          ERROR_CODES.ERR_DB_LOG_CORRUPT,
+          `Checkpoint for '${collection}' covers ${checkpoint.lines} ops, but the log has ${ops.length}`
+        );
+      }
+    }
+
+    const collectionSnapshots = new Map<string, Snapshot>();
+    const collectionOps = new Map<string, StoredOp[]>();
+    for (const snapshot of checkpoint.snapshots) {
+      collectionSnapshots.set(snapshot.id, snapshot);
+    }
+
+    ops.forEach((op, line) => {
+      let docOps = collectionOps.get(op.d);
+      if (!docOps) {
+        docOps = [];
+        collectionOps.set(op.d, docOps);
+      }
+      docOps.push(op);
+
+      if (line >= checkpoint.lines) {
+        collectionSnapshots.set(op.d, this._replay(collectionSnapshots.get(op.d), op));
+      }
+    });
+
+    this.snapshots.set(collection, collectionSnapshots);
+    this.ops.set(collection, collectionOps);
+    this.lines.set(collection, ops.length);
+    this.checkpointed.set(collection, checkpoint.lines);
+  }
+
+  /**
+   * Rebuild the snapshot an op leaves, with the metadata submitOp stamped
+   * when the op was first committed.
+   */
+  private _replay(previous: Snapshot | undefined, op: StoredOp): Snapshot {
+    const snapshot = cloneSnapshot(previous ?? createEmptySnapshot(op.d));
+    apply(snapshot, op, this.types);
+    const ts = op.m?.ts;
+    if (ts !== undefined) {
+      snapshot.m = isCreateOp(op) ? { ...snapshot.m, ctime: ts, mtime: ts } : { ...snapshot.m, mtime: ts };
+    }
+    return snapshot;
+  }
+
+  /**
+   * Whether replaying an op gives exactly the snapshot committed with it.
+   * When in doubt (the replay fails, or only key order differs) it says
+   * no, which just costs an extra checkpoint.
+   */
+  private _replays(previous: Snapshot | undefined, op: StoredOp, snapshot: Snapshot): boolean {
+    try {
+      return JSON.stringify(this._replay(previous, op)) === JSON.stringify(snapshot);
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Read a collection's op log, dropping a torn final line.
+   *
+   * @throws OTError if any other line is not valid JSON
+   */
+  private _readLog(collection: string): StoredOp[] {
+    const file = this._logPath(collection);
+    const text = fs.readFileSync(file, 'utf8');
+    const lines = text.split('\n');
+
+    // Everything after the last newline is an append that didn't finish
+    const torn = lines.pop()!;
+    if (torn !== '') {
+      fs.truncateSync(file, Buffer.byteLength(text) - Buffer.byteLength(torn));
+    }
+
+    return lines.map((line, index) => {
+      try {
+        return JSON.parse(line) as StoredOp;
+      } catch {
+        throw new OTError(ERROR_CODES.ERR_DB_LOG_CORRUPT, `Corrupt op log '${file}' at line ${index + 1}`);
+      }
+    });
+  }
+}
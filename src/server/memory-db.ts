@@ -9,38 +9,45 @@
  * The database stores:
  * - Snapshots: Current state of each document
  * - Ops: History of all operations (for transformation and playback)
+ * - Milestones: Optional snapshots every N versions, so old versions can
+ *   be rebuilt without replaying the whole history
  */
 
 import { Snapshot, createEmptySnapshot, cloneSnapshot } from '../core/snapshot';
 import { Op } from '../core/ot';
+import { Query, executeQuery } from '../core/query';
+import { Db, StoredOp, OpMeta } from './db';
 
 /**
- * Stored operation with metadata
- *
- * This is the operation as stored in the database, including
- * collection/document info and metadata.
+ * Memory Database options
  */
-export type StoredOp = Op & {
-  /** Collection name */
-  c: string;
-  /** Document ID */
-  d: string;
-  /** Metadata */
-  m?: {
-    ts: number;
-    [key: string]: unknown;
-  };
-};
+export interface MemoryDbOptions {
+  /** Store a milestone snapshot every N versions (default: no milestones) */
+  milestoneInterval?: number;
+  /** Per-collection overrides of milestoneInterval; 0 turns milestones off */
+  milestoneIntervals?: Record<string, number>;
+}
 
 /**
  * Memory Database implementation
  */
-export class MemoryDb {
+export class MemoryDb implements Db {
   /** Map of collection -> id -> snapshot */
-  private snapshots: Map<string, Map<string, Snapshot>> = new Map();
+  protected snapshots: Map<string, Map<string, Snapshot>> = new Map();
 
   /** Map of collection -> id -> ops array */
-  private ops: Map<string, Map<string, StoredOp[]>> = new Map();
+  protected ops: Map<string, Map<string, StoredOp[]>> = new Map();
+
+  /** Map of collection -> id -> milestone snapshots, oldest first */
+  private milestones: Map<string, Map<string, Snapshot[]>> = new Map();
+
+  private readonly milestoneInterval: number;
+  private readonly milestoneIntervals: Record<string, number>;
+
+  constructor(options: MemoryDbOptions = {}) {
+    this.milestoneInterval = options.milestoneInterval ?? 0;
+    this.milestoneIntervals = options.milestoneIntervals ?? {};
+  }
 
   /**
    * Get a snapshot for a document.
@@ -63,6 +70,21 @@ export class MemoryDb {
     return createEmptySnapshot(id);
   }
 
+  /**
+   * Get snapshots for several documents of a collection at once.
+   *
+   * @param collection - Collection name
+   * @param ids - Document IDs
+   * @returns Promise resolving to snapshots keyed by document ID
+   */
+  async getSnapshotBulk(collection: string, ids: string[]): Promise<Record<string, Snapshot>> {
+    const result: Record<string, Snapshot> = {};
+    for (const id of ids) {
+      result[id] = await this.getSnapshot(collection, id);
+    }
+    return result;
+  }
+
   /**
    * Get operations for a document within a version range.
    *
@@ -83,11 +105,51 @@ export class MemoryDb {
     const collectionOps = this.ops.get(collection);
     const docOps = collectionOps?.get(id) || [];
 
-    // Filter ops by version range
-    return docOps.filter((op) => {
-      const v = op.v!;
-      return v >= fromVersion && (toVersion === undefined || v < toVersion);
-    });
+    // Filter ops by version range, and copy them so callers can't change history
+    return docOps
+      .filter((op) => {
+        const v = op.v!;
+        return v >= fromVersion && (toVersion === undefined || v < toVersion);
+      })
+      .map((op) => JSON.parse(JSON.stringify(op)) as StoredOp);
+  }
+
+  /**
+   * Get the latest milestone snapshot at or before a version.
+   *
+   * Reference: lib/milestone-db/memory.js getMilestoneSnapshot in ShareDB
+   *
+   * @param collection - Collection name
+   * @param id - Document ID
+   * @param version - Version to look up
+   * @returns Promise resolving to the milestone, or null if there is none
+   *
+   * Rebuilding an old version can start from here instead of from
+   * creation, and replay only the ops after it.
+   */
+  async getMilestoneSnapshot(collection: string, id: string, version: number): Promise<Snapshot | null> {
+    const docMilestones = this.milestones.get(collection)?.get(id) || [];
+
+    for (let i = docMilestones.length - 1; i >= 0; i--) {
+      if (docMilestones[i].v <= version) {
+        return cloneSnapshot(docMilestones[i]);
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Current version of a document, read without copying anything (internal).
+   */
+  protected _version(collection: string, id: string): number {
+    return this.snapshots.get(collection)?.get(id)?.v ?? 0;
+  }
+
+  /**
+   * How often to store milestones for a collection (0 means never).
+   */
+  private _milestoneInterval(collection: string): number {
+    return this.milestoneIntervals[collection] ?? this.milestoneInterval;
   }
 
   /**
@@ -95,7 +157,7 @@ export class MemoryDb {
    *
    * @param collection - Collection name
    * @param id - Document ID
-   * @param op - Operation to commit
+   * @param op - Operation to commit, with its metadata in `op.m`
    * @param snapshot - New snapshot after applying the operation
    * @returns Promise resolving to true if committed, false if version conflict
    *
@@ -108,7 +170,7 @@ export class MemoryDb {
   async commit(
     collection: string,
     id: string,
-    op: Op,
+    op: Op & { m?: OpMeta },
     snapshot: Snapshot
   ): Promise<boolean> {
     // Get or create collection maps
@@ -140,29 +202,67 @@ export class MemoryDb {
       collectionOps.set(id, docOps);
     }
 
-    // Add metadata to op
-    const storedOp: StoredOp = {
-      ...op,
-      c: collection,
-      d: id,
-      m: {
-        ts: Date.now(),
-      },
-    };
+    // Add metadata to op. submitOp fills in op.m; direct callers get a timestamp
+    const storedOp: StoredOp = JSON.parse(
+      JSON.stringify({
+        ...op,
+        c: collection,
+        d: id,
+        m: op.m ?? { ts: Date.now() },
+      })
+    );
     docOps.push(storedOp);
 
     // Update snapshot
     collectionSnapshots.set(id, cloneSnapshot(snapshot));
 
+    // Store a milestone every N versions. This happens after the lock
+    // check, so only snapshots that were actually committed become one.
+    const interval = this._milestoneInterval(collection);
+    if (interval > 0 && snapshot.v % interval === 0) {
+      let collectionMilestones = this.milestones.get(collection);
+      if (!collectionMilestones) {
+        collectionMilestones = new Map();
+        this.milestones.set(collection, collectionMilestones);
+      }
+      let docMilestones = collectionMilestones.get(id);
+      if (!docMilestones) {
+        docMilestones = [];
+        collectionMilestones.set(id, docMilestones);
+      }
+      docMilestones.push(cloneSnapshot(snapshot));
+    }
+
     return true;
   }
 
+  /**
+   * Get the snapshots of a collection that match a query.
+   *
+   * Every document is checked, which is fine for a tutorial-sized db.
+   *
+   * @param collection - Collection name
+   * @param query - The query (see ../core/query)
+   * @returns Promise resolving to the matching snapshots, in query order
+   */
+  async query(collection: string, query: Query): Promise<Snapshot[]> {
+    const collectionSnapshots = this.snapshots.get(collection);
+    if (!collectionSnapshots) return [];
+    return executeQuery(query, Array.from(collectionSnapshots.values())).map(cloneSnapshot);
+  }
+
+  /**
+   * Close the database. Nothing to release for in-memory storage.
+   */
+  async close(): Promise<void> {}
+
   /**
    * Delete all data (for testing).
    */
   clear(): void {
     this.snapshots.clear();
     this.ops.clear();
+    this.milestones.clear();
   }
 
   /**
@@ -0,0 +1,118 @@
+/**
+ * Middleware - Hooks into the Backend's request handling
+ *
+ * Reference: Backend.prototype.use and Backend.prototype.trigger in ShareDB
+ *
+ * Middleware runs at fixed points while the Backend handles a request,
+ * and can inspect, change or reject it:
+ *
+ *   connect        an agent was created (attach identity to agent.custom)
+ *   receive        a raw message arrived from a client
+ *   readSnapshots  snapshots are about to be sent to a client
+ *   submit         an op was submitted, before it is transformed
+ *   apply          an op is about to be applied to the snapshot
+ *   commit         an op was applied, and is about to be committed
+ *   reply          a reply is about to be sent to a client
+ *   op             another client's op is about to be sent to a subscriber
+ *   sendPresence   another client's presence is about to be sent to a subscriber
+ *
+ * Each middleware gets a context object for the request. It can change
+ * the context in place (for example replace `context.op`), and throws to
+ * reject the request. The error reaches the client as `error: { code,
+ * message }` on the reply to its request. 'readSnapshots' can also
+ * reject single snapshots by adding them to `rejectedSnapshots`, so a
+ * query still returns the rest. A rejected 'op' ends the
+ * subscriber's subscription to the document, and a rejected
+ * 'sendPresence' just isn't sent.
+ *
+ * Example:
+ *   backend.use('submit', (context) => {
+ *     if (context.collection === 'archive') {
+ *       throw new Error('The archive is read-only');
+ *     }
+ *   });
+ */
+
+import type { Agent, Backend } from './backend';
+import { Op } from '../core/ot';
+import { Snapshot } from '../core/snapshot';
+import { PresenceUpdate } from '../core/presence';
+
+/** The points in request handling middleware can hook into */
+export type MiddlewareAction =
+  | 'connect'
+  | 'receive'
+  | 'readSnapshots'
+  | 'submit'
+  | 'apply'
+  | 'commit'
+  | 'reply'
+  | 'op'
+  | 'sendPresence';
+
+/**
+ * The request a middleware is looking at.
+ *
+ * Which fields are set depends on the action:
+ * - connect: req
+ * - receive: data (the raw message)
+ * - readSnapshots: collection, snapshots, rejectedSnapshots
+ * - submit: collection, id, op
+ * - apply: collection, id, op, snapshot (before the op)
+ * - commit: collection, id, op, snapshot (after the op)
+ * - reply: request (the client's message), reply
+ * - op: collection, id, op (as committed)
+ * - sendPresence: collection, id, presence
+ */
+export interface MiddlewareContext {
+  /** The action being run */
+  action: MiddlewareAction;
+  /** The backend handling the request */
+  backend: Backend;
+  /** The client's agent, or null for submits made by server code */
+  agent: Agent | null;
+  /** Whatever was passed to createAgent, e.g. the HTTP upgrade request */
+  req?: unknown;
+  /** Raw message from the client */
+  data?: any;
+  /** Collection name */
+  collection?: string;
+  /** Document ID */
+  id?: string;
+  /** The op being submitted */
+  op?: Op;
+  /** The document the op applies to */
+  snapshot?: Snapshot;
+  /** Presence about to be sent to the client */
+  presence?: PresenceUpdate;
+  /** Snapshots about to be sent to the client */
+  snapshots?: Snapshot[];
+  /**
+   * Snapshots the client may not read, by document ID, with the error to
+   * give. A query leaves them out of its results; a request for a single
+   * document fails with the error.
+   */
+  rejectedSnapshots?: Map<string, Error>;
+  /** The client message being replied to */
+  request?: any;
+  /** The reply about to be sent */
+  reply?: any;
+}
+
+/**
+ * A middleware function. Throw (or reject) to stop the request.
+ */
+export type Middleware = (context: MiddlewareContext) => void | Promise<void>;
+
+/**
+ * Run middleware one after another.
+ *
+ * @param middleware - Functions to run, in the order they were added
+ * @param context - The context they all share
+ * @throws Whatever the first failing middleware throws
+ */
+export async function runMiddleware(middleware: Middleware[], context: MiddlewareContext): Promise<void> {
+  for (const fn of middleware) {
+    await fn(context);
+  }
+}
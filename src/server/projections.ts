@@ -0,0 +1,136 @@
+/**
+ * Projections - Restricted views of JSON collections
+ *
+ * Reference: lib/projections.js in ShareDB
+ *
+ * A projection is a collection name that maps onto a real collection but
+ * only shows some top-level fields of each document:
+ *
+ *   backend.addProjection('users_public', 'users', { name: true, avatar: true });
+ *
+ * Clients of `users_public` see `{ name, avatar }` of each user, and
+ * never the rest. They only hear about ops on those fields (others reach
+ * them as empty edits, so versions still line up), and ops they submit
+ * may only touch those fields.
+ *
+ * Only documents of the JSON type can be projected.
+ */
+
+import { Op, isCreateOp, isEditOp } from '../core/ot';
+import { Snapshot, cloneSnapshot } from '../core/snapshot';
+import { OTError, ERROR_CODES } from '../core/error';
+import { jsonType, JsonComponent } from '../types/json';
+
+/** Top-level fields a projection shows */
+export type ProjectionFields = Record<string, true>;
+
+/**
+ * A projection of a collection.
+ */
+export interface Projection {
+  /** Projection name, used as the collection name by clients */
+  name: string;
+  /** The real collection */
+  target: string;
+  /** Fields the projection shows */
+  fields: ProjectionFields;
+}
+
+function isJsonType(type: string | null): boolean {
+  return type === jsonType.uri || type === jsonType.name;
+}
+
+function checkType(type: string | null): void {
+  if (type !== null && !isJsonType(type)) {
+    throw new OTError(ERROR_CODES.ERR_TYPE_CANNOT_BE_PROJECTED, `Cannot project documents of type ${type}`);
+  }
+}
+
+/**
+ * Keep only the projected fields of a document.
+ *
+ * Values that aren't plain objects (e.g. undefined, before creation)
+ * are returned as they are.
+ */
+function projectData(fields: ProjectionFields, data: unknown): unknown {
+  if (data == null || typeof data !== 'object' || Array.isArray(data)) return data;
+  const result: Record<string, unknown> = {};
+  for (const key of Object.keys(data)) {
+    if (fields[key]) result[key] = (data as Record<string, unknown>)[key];
+  }
+  return result;
+}
+
+/**
+ * Whether data has no fields outside the projection.
+ */
+function onlyProjectedFields(fields: ProjectionFields, data: unknown): boolean {
+  if (data == null || typeof data !== 'object' || Array.isArray(data)) return true;
+  return Object.keys(data).every((key) => fields[key]);
+}
+
+/**
+ * Project a snapshot.
+ *
+ * @throws OTError if the document isn't of the JSON type
+ */
+export function projectSnapshot(fields: ProjectionFields, snapshot: Snapshot): Snapshot {
+  checkType(snapshot.type);
+  const projected = cloneSnapshot(snapshot);
+  projected.data = projectData(fields, snapshot.data);
+  return projected;
+}
+
+/**
+ * Project an op, for sending to clients of the projection.
+ *
+ * Edits keep only the components on projected fields; a component that
+ * replaces the whole document has its values projected.
+ *
+ * @throws OTError if the op creates a document that isn't of the JSON type
+ */
+export function projectOp<T extends Op>(fields: ProjectionFields, op: T): T {
+  if (isCreateOp(op)) {
+    checkType(op.create.type);
+    return { ...op, create: { ...op.create, data: projectData(fields, op.create.data) } };
+  }
+  if (isEditOp(op)) {
+    const components: JsonComponent[] = [];
+    for (const c of op.op as JsonComponent[]) {
+      if (c.p.length > 0) {
+        if (fields[c.p[0]]) components.push(c);
+        continue;
+      }
+      const root: JsonComponent = { p: [] };
+      if ('od' in c) root.od = projectData(fields, c.od);
+      if ('oi' in c) root.oi = projectData(fields, c.oi);
+      components.push(root);
+    }
+    return { ...op, op: components };
+  }
+  return op;
+}
+
+/**
+ * Check that an op submitted through a projection only touches
+ * projected fields. Deletes are allowed: they don't reveal anything.
+ *
+ * @param snapshotType - Type of the document the op applies to
+ * @throws OTError if it touches other fields, or the document can't be projected
+ */
+export function checkProjectedOp(fields: ProjectionFields, op: Op, snapshotType: string | null): void {
+  const reject = (): never => {
+    throw new OTError(ERROR_CODES.ERR_OP_NOT_ALLOWED_IN_PROJECTION, 'Op touches fields outside the projection');
+  };
+
+  if (isCreateOp(op)) {
+    checkType(op.create.type);
+    if (!onlyProjectedFields(fields, op.create.data)) reject();
+  } else if (isEditOp(op)) {
+    checkType(snapshotType);
+    // Replacing the whole document would wipe the hidden fields too
+    for (const c of op.op as JsonComponent[]) {
+      if (c.p.length === 0 || !fields[c.p[0]]) reject();
+    }
+  }
+}
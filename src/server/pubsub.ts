@@ -0,0 +1,127 @@
+/**
+ * Pub/Sub - Committed ops, shared between Backend instances
+ *
+ * Reference: lib/pubsub/index.js and lib/pubsub/memory.js in ShareDB
+ *
+ * A Backend only knows about the agents connected to it. When several
+ * Backends share one database, a client on one of them has to hear about
+ * ops committed through the others. So every Backend publishes the ops
+ * it commits, and subscribes to the documents its agents are looking at:
+ *
+ *   backend A: commit op on notes/n1 -> publish to 'notes', 'notes.n1'
+ *   backend B: subscribed to 'notes.n1' -> send op to its agents
+ *
+ * Channels are per collection and per document (see docChannel).
+ * Presence (see ../core/presence) travels on document channels too.
+ *
+ * MemoryPubSub connects Backends in one process. Across processes you
+ * would implement the same interface on top of Redis or similar.
+ *
+ * Example:
+ *   const db = new MemoryDb();
+ *   const pubsub = new MemoryPubSub();
+ *   const backend1 = new Backend({ db, pubsub });
+ *   const backend2 = new Backend({ db, pubsub });
+ */
+
+import { Op } from '../core/ot';
+import { PresenceUpdate } from '../core/presence';
+
+/**
+ * A committed op or a presence update, as published.
+ */
+export interface PubSubMessage {
+  /** Collection name */
+  c: string;
+  /** Document ID */
+  d: string;
+  /** The committed op, with src/seq of whoever submitted it */
+  op?: Op & { src?: string; seq?: number };
+  /** A client's presence on the document */
+  presence?: PresenceUpdate;
+}
+
+/** Receives messages published to a channel */
+export type PubSubListener = (message: PubSubMessage) => void;
+
+/**
+ * Pub/Sub interface
+ */
+export interface PubSub {
+  /**
+   * Publish a message to channels.
+   *
+   * A listener subscribed to several of the channels gets it once per channel.
+   */
+  publish(channels: string[], message: PubSubMessage): void;
+
+  /**
+   * Listen to a channel.
+   *
+   * @returns A function that stops listening
+   */
+  subscribe(channel: string, listener: PubSubListener): () => void;
+
+  /**
+   * Release any resources the pub/sub holds.
+   */
+  close(): void;
+}
+
+/**
+ * Channel for a whole collection.
+ */
+export function collectionChannel(collection: string): string {
+  return collection;
+}
+
+/**
+ * Channel for one document.
+ *
+ * Reference: Backend.prototype.getDocChannel in ShareDB
+ */
+export function docChannel(collection: string, id: string): string {
+  return collection + '.' + id;
+}
+
+/**
+ * In-process Pub/Sub
+ *
+ * Messages are delivered synchronously, so listeners see them in the
+ * order they were published.
+ */
+export class MemoryPubSub implements PubSub {
+  /** Map of channel -> listeners */
+  private listeners: Map<string, Set<PubSubListener>> = new Map();
+
+  publish(channels: string[], message: PubSubMessage): void {
+    for (const channel of channels) {
+      // Copy, so listeners can unsubscribe while we deliver
+      for (const listener of Array.from(this.listeners.get(channel) ?? [])) {
+        listener(message);
+      }
+    }
+  }
+
+  subscribe(channel: string, listener: PubSubListener): () => void {
+    let channelListeners = this.listeners.get(channel);
+    if (!channelListeners) {
+      channelListeners = new Set();
+      this.listeners.set(channel, channelListeners);
+    }
+    channelListeners.add(listener);
+
+    return () => {
+      channelListeners!.delete(listener);
+      if (channelListeners!.size === 0 && this.listeners.get(channel) === channelListeners) {
+        this.listeners.delete(channel);
+      }
+    };
+  }
+
+  /**
+   * Close the pub/sub. Other Backends may still share it, so listeners
+   * stay in place; each Backend unsubscribes its own on close.
+   */
+  close(): void {}
+}
@@ -11,13 +11,31 @@
  * 5. Commit to the database (with optimistic locking)
  * 6. If commit fails (concurrent write), retry from step 1
  * 7. Broadcast the op to other subscribers
+ *
+ * Edits that normalize to a no-op (often because transform left them
+ * nothing to do) skip steps 4-7: they are acknowledged, but the version
+ * doesn't change and nobody else hears about them.
  */
 
-import { MemoryDb, StoredOp } from './memory-db';
+import { Db, StoredOp, OpMeta } from './db';
 import { Snapshot, cloneSnapshot } from '../core/snapshot';
-import { Op, apply, transform, checkOp } from '../core/ot';
+import { Op, apply, transform, checkOp, normalize, isEditOp, isCreateOp } from '../core/ot';
 import { OTError, ERROR_CODES } from '../core/error';
-import { types } from '../core/types';
+import { TypeRegistry, types } from '../core/types';
+
+/** Points in submitOp where a hook runs */
+export type SubmitHook = 'submit' | 'apply' | 'commit';
+
+/**
+ * What a submit hook sees. Hooks can replace `op` (and `snapshot` at
+ * 'commit'), and throw to reject the op.
+ */
+export interface SubmitHookContext {
+  /** The op: as submitted at 'submit', transformed at 'apply' and 'commit' */
+  op: Op;
+  /** The snapshot: before the op at 'apply', after it at 'commit' */
+  snapshot?: Snapshot;
+}
 
 /**
  * Options for submit request
@@ -25,18 +43,30 @@ import { types } from '../core/types';
 export interface SubmitOptions {
   /** Maximum number of retries on version conflict */
   maxRetries?: number;
+  /** Registry to look up document types in (defaults to the global one) */
+  types?: TypeRegistry;
+  /** Client ID of the submitting agent, recorded in the op's metadata */
+  clientId?: string;
+  /** Custom metadata to record with the op */
+  metadata?: Record<string, unknown>;
+  /** Clock for commit timestamps, in milliseconds (defaults to Date.now) */
+  clock?: () => number;
+  /** Called at each hook point; Backend runs its middleware from here */
+  hook?: (name: SubmitHook, context: SubmitHookContext) => Promise<void>;
 }
 
 /**
  * Result of a submit operation
  */
 export interface SubmitResult {
-  /** The operation (possibly transformed) */
-  op: Op;
+  /** The operation (possibly transformed), with its metadata once committed */
+  op: Op & { m?: OpMeta };
   /** The new snapshot after applying the op */
   snapshot: Snapshot;
   /** Operations that were applied between op.v and current version */
   ops: StoredOp[];
+  /** true if the op did nothing, so it was not committed */
+  noop?: boolean;
 }
 
 /**
@@ -51,31 +81,50 @@ export interface SubmitResult {
  * @throws OTError if submit fails after max retries
  *
  * This function handles the complete submit flow:
- * 1. Fetch current snapshot
+ * 0. Run the 'submit' hook
+ * 1. Fetch current snapshot (and validate the op against its type)
  * 2. Transform op if needed
- * 3. Apply op to snapshot
- * 4. Commit with retry on conflict
+ * 3. Run the 'apply' hook, then normalize edits, and stop here if they
+ *    do nothing (an op the hook rejects fails even if it does nothing)
+ * 4. Apply op to snapshot, stamp the snapshot and op metadata, and run
+ *    the 'commit' hook
+ * 5. Commit with retry on conflict
+ *
+ * Commits keep `snapshot.m.ctime` (set when the document is created) and
+ * `snapshot.m.mtime` (set on every commit) up to date. The op records
+ * the commit time, the submitting client and any custom metadata in `m`.
  */
 export async function submitOp(
-  db: MemoryDb,
+  db: Db,
   collection: string,
   id: string,
   op: Op,
   options: SubmitOptions = {}
 ): Promise<SubmitResult> {
   const maxRetries = options.maxRetries ?? 10;
+  const registry = options.types ?? types;
+  const clock = options.clock ?? Date.now;
   let retries = 0;
 
+  if (options.hook) {
+    const context: SubmitHookContext = { op };
+    await options.hook('submit', context);
+    op = context.op;
+  }
+
   // Validate op format
-  checkOp(op);
+  checkOp(op, registry);
 
   while (true) {
     // Step 1: Fetch current snapshot
     const snapshot = await db.getSnapshot(collection, id);
     const transformedOps: StoredOp[] = [];
 
+    // Validate the edit payload now that we know the document type
+    checkOp(op, registry, snapshot.type);
+
     // Clone the op so we don't mutate the original on retry
-    const opCopy = JSON.parse(JSON.stringify(op)) as Op;
+    let opCopy = JSON.parse(JSON.stringify(op)) as Op;
 
     // Step 2: Set version if not provided
     if (opCopy.v === undefined) {
@@ -113,23 +162,61 @@ export async function submitOp(
 
         // Transform against this historical op
         const type = snapshot.type;
-        transform(type, opCopy, historicalOp as Op);
+        transform(type, opCopy, historicalOp as Op, registry);
 
         transformedOps.push(historicalOp);
       }
     }
 
+    // Run the 'apply' hook first, so a no-op still gets checked
+    if (options.hook) {
+      const context: SubmitHookContext = { op: opCopy, snapshot: cloneSnapshot(snapshot) };
+      await options.hook('apply', context);
+      opCopy = context.op;
+    }
+
+    // Drop edits with nothing left to do: the snapshot stays as it is
+    if (isEditOp(opCopy) && snapshot.type) {
+      const type = registry.get(snapshot.type);
+      if (type && normalize(type, opCopy)) {
+        return {
+          op: opCopy,
+          snapshot,
+          ops: transformedOps,
+          noop: true,
+        };
+      }
+    }
+
     // Step 4: Apply the op to the snapshot
-    const newSnapshot = cloneSnapshot(snapshot);
-    apply(newSnapshot, opCopy);
+    let newSnapshot = cloneSnapshot(snapshot);
+    apply(newSnapshot, opCopy, registry);
+
+    // Reference: SubmitRequest.prototype.commit in ShareDB
+    const ts = clock();
+    newSnapshot.m = isCreateOp(opCopy)
+      ? { ...newSnapshot.m, ctime: ts, mtime: ts }
+      : { ...newSnapshot.m, mtime: ts };
+
+    // Custom metadata can't overwrite the fields we record ourselves
+    const m: OpMeta = { ...options.metadata, ts };
+    if (options.clientId !== undefined) m.clientId = options.clientId;
+    let committedOp: Op & { m?: OpMeta } = { ...opCopy, m };
+
+    if (options.hook) {
+      const context: SubmitHookContext = { op: committedOp, snapshot: newSnapshot };
+      await options.hook('commit', context);
+      committedOp = context.op;
+      newSnapshot = context.snapshot!;
+    }
 
     // Step 5: Commit to database
-    const committed = await db.commit(collection, id, opCopy, newSnapshot);
+    const committed = await db.commit(collection, id, committedOp, newSnapshot);
 
     if (committed) {
       // Success!
       return {
-        op: opCopy,
+        op: committedOp,
         snapshot: newSnapshot,
         ops: transformedOps,
       };
@@ -22,6 +22,7 @@
  */
 
 import { OTType } from '../core/types';
+import { OTError, ERROR_CODES } from '../core/error';
 
 /** Counter snapshot is just a number */
 export type CounterSnapshot = number;
@@ -122,6 +123,46 @@ export const counterType: OTType<CounterSnapshot, CounterOp> = {
   invert(op: CounterOp): CounterOp {
     return -op;
   },
+
+  /**
+   * Normalize a counter operation.
+   *
+   * A number is already as simple as it gets; this only turns -0 into 0.
+   *
+   * @param op - Operation to normalize
+   * @returns Normalized operation
+   */
+  normalize(op: CounterOp): CounterOp {
+    return op === 0 ? 0 : op;
+  },
+
+  /**
+   * Adding zero does nothing.
+   *
+   * @param op - Operation to check
+   * @returns true if op is 0
+   */
+  isNoop(op: CounterOp): boolean {
+    return op === 0;
+  },
+
+  /**
+   * Check that an op is a finite number.
+   *
+   * Without this, `'abc'` would be string-concatenated onto the counter
+   * and NaN or Infinity would stick to it forever.
+   *
+   * @param op - Operation to check
+   * @throws OTError if op is not a finite number
+   */
+  validate(op: unknown): void {
+    if (typeof op !== 'number' || !Number.isFinite(op)) {
+      throw new OTError(
+        ERROR_CODES.ERR_OT_OP_BADLY_FORMED,
+        `Counter op must be a finite number, got ${JSON.stringify(op)}`
+      );
+    }
+  },
 };
 
 // Register the counter type
@@ -0,0 +1,746 @@
+/**
+ * JSON Type - Path-addressed operations on structured documents
+ *
+ * Reference: ot-json0 (lib/json0.js), the default type in ShareDB
+ *
+ * The counter and text types each drive a single value. Real documents
+ * are usually records: objects containing lists containing strings and
+ * numbers. The JSON type edits such documents with "components" that
+ * each carry a path (`p`) to the element they touch, plus one action:
+ *
+ *   { p: ['tags', 1], li: 'new' }       list insert
+ *   { p: ['tags', 1], ld: 'old' }       list delete
+ *   { p: ['tags', 1], ld: 'a', li: 'b'} list replace
+ *   { p: ['tags', 1], lm: 3 }           list move (index 1 -> index 3)
+ *   { p: ['title'], oi: 'Hi' }          object insert
+ *   { p: ['title'], od: 'Hi' }          object delete
+ *   { p: ['title'], od: 'a', oi: 'b' }  object replace
+ *   { p: ['likes'], na: 1 }             number add
+ *   { p: ['body', 4], si: 'abc' }       string insert (at offset 4)
+ *   { p: ['body', 4], sd: 'abc' }       string delete (at offset 4)
+ *
+ * An operation is a list of components applied in order.
+ *
+ * Deletes carry the removed value (ld/od/sd) so that every op can be
+ * inverted exactly.
+ *
+ * The interesting part is transform: two components only interact if
+ * one path is a prefix of the other. When they do, the shorter one may
+ * shift an index in the longer one (list insert/delete/move), or wipe
+ * it out entirely (deleting a parent).
+ */
+
+import { OTType } from '../core/types';
+import { OTError, ERROR_CODES } from '../core/error';
+
+/** JSON snapshot is any JSON value */
+export type JsonSnapshot = unknown;
+
+/** Path to an element: object keys and list indexes */
+export type JsonPath = Array<string | number>;
+
+/** A single JSON operation component */
+export interface JsonComponent {
+  /** Path to the element being edited */
+  p: JsonPath;
+  /** Number add */
+  na?: number;
+  /** List insert */
+  li?: unknown;
+  /** List delete (the deleted value) */
+  ld?: unknown;
+  /** List move (target index) */
+  lm?: number;
+  /** Object insert */
+  oi?: unknown;
+  /** Object delete (the deleted value) */
+  od?: unknown;
+  /** String insert */
+  si?: string;
+  /** String delete (the deleted text) */
+  sd?: string;
+}
+
+/** JSON operation: a list of components */
+export type JsonOp = JsonComponent[];
+
+/**
+ * Deep clone a JSON value.
+ */
+function clone<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
+
+/**
+ * Compare two JSON values structurally.
+ */
+function deepEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function isStringComponent(c: JsonComponent): boolean {
+  return c.si !== undefined || c.sd !== undefined;
+}
+
+function lastIndex(c: JsonComponent): number {
+  return c.p[c.p.length - 1] as number;
+}
+
+/**
+ * Check that two paths are equal.
+ */
+function pathMatches(p1: JsonPath, p2: JsonPath): boolean {
+  if (p1.length !== p2.length) return false;
+  for (let i = 0; i < p1.length; i++) {
+    if (p1[i] !== p2[i]) return false;
+  }
+  return true;
+}
+
+/**
+ * Validate a component's shape.
+ *
+ * @throws OTError if the component is badly formed
+ */
+function checkComponent(c: JsonComponent): void {
+  if (c == null || typeof c !== 'object' || !Array.isArray(c.p)) {
+    throw new OTError(ERROR_CODES.ERR_OT_OP_BADLY_FORMED, 'Component must have a path array p');
+  }
+  for (const key of c.p) {
+    if (typeof key !== 'string' && typeof key !== 'number') {
+      throw new OTError(ERROR_CODES.ERR_OT_OP_BADLY_FORMED, 'Path keys must be strings or numbers');
+    }
+  }
+  if (c.na !== undefined && typeof c.na !== 'number') {
+    throw new OTError(ERROR_CODES.ERR_OT_OP_BADLY_FORMED, 'na must be a number');
+  }
+  if (c.lm !== undefined && typeof c.lm !== 'number') {
+    throw new OTError(ERROR_CODES.ERR_OT_OP_BADLY_FORMED, 'lm must be a number');
+  }
+  if ((c.si !== undefined || c.sd !== undefined || c.lm !== undefined) &&
+      (c.p.length === 0 || typeof c.p[c.p.length - 1] !== 'number')) {
+    throw new OTError(ERROR_CODES.ERR_OT_OP_BADLY_FORMED, 'String and move ops need a numeric offset');
+  }
+  if (c.si !== undefined && typeof c.si !== 'string') {
+    throw new OTError(ERROR_CODES.ERR_OT_OP_BADLY_FORMED, 'si must be a string');
+  }
+  if (c.sd !== undefined && typeof c.sd !== 'string') {
+    throw new OTError(ERROR_CODES.ERR_OT_OP_BADLY_FORMED, 'sd must be a string');
+  }
+}
+
+/**
+ * Invert a single component.
+ */
+function invertComponent(c: JsonComponent): JsonComponent {
+  const result: JsonComponent = { p: c.p.slice() };
+
+  if (c.si !== undefined) result.sd = c.si;
+  if (c.sd !== undefined) result.si = c.sd;
+  if (c.oi !== undefined) result.od = c.oi;
+  if (c.od !== undefined) result.oi = c.od;
+  if (c.li !== undefined) result.ld = c.li;
+  if (c.ld !== undefined) result.li = c.ld;
+  if (c.na !== undefined) result.na = -c.na;
+  if (c.lm !== undefined) {
+    // Moving back: from the target index to the original index
+    result.lm = lastIndex(c);
+    result.p = c.p.slice(0, c.p.length - 1).concat([c.lm]);
+  }
+
+  return result;
+}
+
+/**
+ * Append a component to an op, merging it with the last component
+ * where possible (e.g. two number adds on the same path).
+ *
+ * Reference: json0.append
+ */
+function append(dest: JsonOp, component: JsonComponent): void {
+  const c = clone(component);
+
+  if (dest.length === 0) {
+    dest.push(c);
+    return;
+  }
+
+  const last = dest[dest.length - 1];
+
+  if (!pathMatches(c.p, last.p)) {
+    dest.push(c);
+    return;
+  }
+
+  if (last.na !== undefined && c.na !== undefined) {
+    dest[dest.length - 1] = { p: last.p, na: last.na + c.na };
+  } else if (last.li !== undefined && c.li === undefined && c.ld !== undefined && deepEqual(c.ld, last.li)) {
+    // Insert immediately followed by delete cancels out
+    if (last.ld !== undefined) {
+      delete last.li;
+    } else {
+      dest.pop();
+    }
+  } else if (last.od !== undefined && last.oi === undefined && c.oi !== undefined && c.od === undefined) {
+    last.oi = c.oi;
+  } else if (last.oi !== undefined && c.od !== undefined) {
+    // The new component deletes (or replaces) what the last one inserted
+    if (c.oi !== undefined) {
+      last.oi = c.oi;
+    } else if (last.od !== undefined) {
+      delete last.oi;
+    } else {
+      dest.pop();
+    }
+  } else if (c.lm !== undefined && lastIndex(c) === c.lm) {
+    // Moving an element onto itself is a no-op
+  } else {
+    dest.push(c);
+  }
+}
+
+/**
+ * Length of the common path prefix that lets `a` affect `b`.
+ *
+ * Returns the index in b.p that a's operand sits at, or null if the
+ * two components touch unrelated parts of the document.
+ *
+ * Reference: json0.commonLengthForOps
+ */
+function commonLengthForOps(a: JsonComponent, b: JsonComponent): number | null {
+  let alen = a.p.length;
+  let blen = b.p.length;
+  if (a.na !== undefined) alen++;
+  if (b.na !== undefined) blen++;
+
+  if (alen === 0) return -1;
+  if (blen === 0) return null;
+
+  alen--;
+  blen--;
+
+  for (let i = 0; i < alen; i++) {
+    if (i >= blen || a.p[i] !== b.p[i]) return null;
+  }
+
+  return alen;
+}
+
+/**
+ * Transform a position in a string against a string component.
+ *
+ * Reference: ot-text transformPosition
+ */
+function transformStringPosition(pos: number, c: JsonComponent, insertAfter: boolean): number {
+  const cPos = lastIndex(c);
+  if (c.si !== undefined) {
+    if (cPos < pos || (cPos === pos && insertAfter)) {
+      return pos + c.si.length;
+    }
+    return pos;
+  }
+
+  const deleted = c.sd!.length;
+  if (pos <= cPos) return pos;
+  if (pos <= cPos + deleted) return cPos;
+  return pos - deleted;
+}
+
+/**
+ * Transform a string component against another string component on
+ * the same string. A delete may be split in two when the other
+ * component inserts into the middle of it.
+ */
+function transformStringComponent(
+  dest: JsonOp,
+  c: JsonComponent,
+  otherC: JsonComponent,
+  side: 'left' | 'right'
+): JsonOp {
+  const base = c.p.slice(0, c.p.length - 1);
+  const pos = lastIndex(c);
+  const otherPos = lastIndex(otherC);
+
+  if (c.si !== undefined) {
+    append(dest, { p: base.concat([transformStringPosition(pos, otherC, side === 'right')]), si: c.si });
+    return dest;
+  }
+
+  let text = c.sd!;
+
+  if (otherC.si !== undefined) {
+    // Delete vs insert: keep the parts before and after the insert
+    if (pos < otherPos) {
+      append(dest, { p: base.concat([pos]), sd: text.slice(0, otherPos - pos) });
+      text = text.slice(otherPos - pos);
+    }
+    if (text !== '') {
+      append(dest, { p: base.concat([pos + otherC.si.length]), sd: text });
+    }
+    return dest;
+  }
+
+  // Delete vs delete
+  const otherText = otherC.sd!;
+  if (pos >= otherPos + otherText.length) {
+    append(dest, { p: base.concat([pos - otherText.length]), sd: text });
+  } else if (pos + text.length <= otherPos) {
+    append(dest, c);
+  } else {
+    // Overlapping: drop the region the other delete already removed
+    let remaining = '';
+    if (pos < otherPos) {
+      remaining = text.slice(0, otherPos - pos);
+    }
+    if (pos + text.length > otherPos + otherText.length) {
+      remaining += text.slice(otherPos + otherText.length - pos);
+    }
+    if (remaining !== '') {
+      append(dest, { p: base.concat([transformStringPosition(pos, otherC, false)]), sd: remaining });
+    }
+  }
+  return dest;
+}
+
+/**
+ * Transform component c against otherC, appending the result to dest.
+ *
+ * Reference: json0.transformComponent
+ *
+ * The result may be zero components (c was wiped out, e.g. its parent
+ * was deleted), one component, or two (a string delete split by an
+ * insert).
+ */
+function transformComponent(
+  dest: JsonOp,
+  component: JsonComponent,
+  otherC: JsonComponent,
+  side: 'left' | 'right'
+): JsonOp {
+  const c = clone(component);
+  const common = commonLengthForOps(otherC, c);
+  const common2 = commonLengthForOps(c, otherC);
+  let cplength = c.p.length;
+  let otherCplength = otherC.p.length;
+  if (c.na !== undefined) cplength++;
+  if (otherC.na !== undefined) otherCplength++;
+
+  // If c deletes something that otherC changed, update the recorded
+  // deleted value so c stays invertible.
+  if (common2 != null && otherCplength > cplength && c.p[common2] === otherC.p[common2]) {
+    if (c.ld !== undefined) {
+      const oc = clone(otherC);
+      oc.p = oc.p.slice(cplength);
+      c.ld = jsonType.apply(clone(c.ld), [oc]);
+    } else if (c.od !== undefined) {
+      const oc = clone(otherC);
+      oc.p = oc.p.slice(cplength);
+      c.od = jsonType.apply(clone(c.od), [oc]);
+    }
+  }
+
+  if (common == null) {
+    append(dest, c);
+    return dest;
+  }
+
+  const commonOperand = cplength === otherCplength;
+
+  if (isStringComponent(c) && isStringComponent(otherC)) {
+    return transformStringComponent(dest, c, otherC, side);
+  }
+
+  if (otherC.na !== undefined) {
+    // Number adds commute with everything
+  } else if (otherC.li !== undefined && otherC.ld !== undefined) {
+    // otherC replaced a list element
+    if (otherC.p[common] === c.p[common]) {
+      if (!commonOperand) {
+        return dest;
+      } else if (c.ld !== undefined) {
+        if (c.li !== undefined && side === 'left') {
+          // Both replaced the same element: left wins
+          c.ld = clone(otherC.li);
+        } else {
+          return dest;
+        }
+      }
+    }
+  } else if (otherC.li !== undefined) {
+    // otherC inserted into a list
+    if (c.li !== undefined && c.ld === undefined && commonOperand && c.p[common] === otherC.p[common]) {
+      // Insert vs insert at the same index: left goes first
+      if (side === 'right') (c.p[common] as number)++;
+    } else if ((otherC.p[common] as number) <= (c.p[common] as number)) {
+      (c.p[common] as number)++;
+    }
+
+    if (c.lm !== undefined && commonOperand) {
+      if ((otherC.p[common] as number) <= c.lm) c.lm++;
+    }
+  } else if (otherC.ld !== undefined) {
+    // otherC deleted from a list
+    if (c.lm !== undefined && commonOperand) {
+      if (otherC.p[common] === c.p[common]) {
+        // They deleted the element we are moving
+        return dest;
+      }
+      const p = otherC.p[common] as number;
+      const from = c.p[common] as number;
+      const to = c.lm;
+      if (p < to || (p === to && from < to)) c.lm--;
+    }
+
+    if ((otherC.p[common] as number) < (c.p[common] as number)) {
+      (c.p[common] as number)--;
+    } else if (otherC.p[common] === c.p[common]) {
+      if (otherCplength < cplength) {
+        // We are editing inside the deleted element
+        return dest;
+      } else if (c.ld !== undefined) {
+        if (c.li !== undefined) {
+          // We replace, they delete: we become an insert
+          delete c.ld;
+        } else {
+          // Both deleted the same element
+          return dest;
+        }
+      }
+    }
+  } else if (otherC.lm !== undefined) {
+    // otherC moved a list element
+    if (c.lm !== undefined && cplength === otherCplength) {
+      const from = c.p[common] as number;
+      const to = c.lm;
+      const otherFrom = otherC.p[common] as number;
+      const otherTo = otherC.lm;
+
+      if (otherFrom !== otherTo) {
+        if (from === otherFrom) {
+          // Both moved the same element: left wins
+          if (side === 'left') {
+            c.p[common] = otherTo;
+            if (from === to) c.lm = otherTo;
+          } else {
+            return dest;
+          }
+        } else {
+          // Where did our element go?
+          if (from > otherFrom) (c.p[common] as number)--;
+          if (from > otherTo) {
+            (c.p[common] as number)++;
+          } else if (from === otherTo && otherFrom > otherTo) {
+            (c.p[common] as number)++;
+            if (from === to) c.lm++;
+          }
+
+          // Where should it end up?
+          if (to > otherFrom) {
+            c.lm--;
+          } else if (to === otherFrom && to > from) {
+            c.lm--;
+          }
+          if (to > otherTo) {
+            c.lm++;
+          } else if (to === otherTo) {
+            if ((otherTo > otherFrom && to > from) || (otherTo < otherFrom && to < from)) {
+              // Moving in the same direction: tie break
+              if (side === 'right') c.lm++;
+            } else {
+              if (to > from) {
+                c.lm++;
+              } else if (to === otherFrom) {
+                c.lm--;
+              }
+            }
+          }
+        }
+      }
+    } else if (c.li !== undefined && c.ld === undefined && commonOperand) {
+      // Insert: shift around the moved element
+      const from = otherC.p[common] as number;
+      const to = otherC.lm;
+      const p = c.p[common] as number;
+      if (p > from) (c.p[common] as number)--;
+      if (p > to) (c.p[common] as number)++;
+    } else {
+      // Anything that cares where its element went after the move
+      const from = otherC.p[common] as number;
+      const to = otherC.lm;
+      const p = c.p[common] as number;
+      if (p === from) {
+        c.p[common] = to;
+      } else {
+        if (p > from) (c.p[common] as number)--;
+        if (p > to) {
+          (c.p[common] as number)++;
+        } else if (p === to && from > to) {
+          (c.p[common] as number)++;
+        }
+      }
+    }
+  } else if (otherC.oi !== undefined && otherC.od !== undefined) {
+    // otherC replaced an object value
+    if (c.p[common] === otherC.p[common]) {
+      if (c.oi !== undefined && commonOperand) {
+        if (side === 'right') {
+          return dest;
+        }
+        // We win: replace what they inserted
+        c.od = otherC.oi;
+      } else {
+        return dest;
+      }
+    }
+  } else if (otherC.oi !== undefined) {
+    // otherC inserted an object value
+    if (c.oi !== undefined && c.p[common] === otherC.p[common]) {
+      if (side === 'left') {
+        append(dest, { p: c.p, od: otherC.oi });
+      } else {
+        return dest;
+      }
+    }
+  } else if (otherC.od !== undefined) {
+    // otherC deleted an object value
+    if (c.p[common] === otherC.p[common]) {
+      if (!commonOperand) {
+        return dest;
+      }
+      if (c.oi !== undefined) {
+        delete c.od;
+      } else {
+        return dest;
+      }
+    }
+  }
+
+  append(dest, c);
+  return dest;
+}
+
+/**
+ * Transform two ops against each other.
+ *
+ * Reference: ot-json0 bootstrapTransform.transformX
+ *
+ * Returns [leftOp', rightOp'] such that applying leftOp then rightOp'
+ * gives the same result as applying rightOp then leftOp'.
+ */
+function transformX(leftOp: JsonOp, rightOp: JsonOp): [JsonOp, JsonOp] {
+  const newRightOp: JsonOp = [];
+
+  for (let i = 0; i < rightOp.length; i++) {
+    let rightComponent: JsonComponent | null = rightOp[i];
+    const newLeftOp: JsonOp = [];
+    let k = 0;
+
+    while (k < leftOp.length) {
+      const nextC: JsonOp = [];
+      transformComponent(newLeftOp, leftOp[k], rightComponent!, 'left');
+      transformComponent(nextC, rightComponent!, leftOp[k], 'right');
+      k++;
+
+      if (nextC.length === 1) {
+        rightComponent = nextC[0];
+      } else if (nextC.length === 0) {
+        for (let j = k; j < leftOp.length; j++) {
+          append(newLeftOp, leftOp[j]);
+        }
+        rightComponent = null;
+        break;
+      } else {
+        // The right component was split: recurse with the pieces
+        const [l, r] = transformX(leftOp.slice(k), nextC);
+        for (const lc of l) append(newLeftOp, lc);
+        for (const rc of r) append(newRightOp, rc);
+        rightComponent = null;
+        break;
+      }
+    }
+
+    if (rightComponent != null) {
+      append(newRightOp, rightComponent);
+    }
+    leftOp = newLeftOp;
+  }
+
+  return [leftOp, newRightOp];
+}
+
+/**
+ * JSON OT Type implementation
+ */
+export const jsonType: OTType<JsonSnapshot, JsonOp> = {
+  name: 'json0',
+  uri: 'http://sharejs.org/types/JSONv0',
+
+  /**
+   * Create initial document.
+   *
+   * @param data - Initial JSON value (defaults to null)
+   * @returns A deep copy of the initial value
+   */
+  create(data?: unknown): JsonSnapshot {
+    return data === undefined ? null : clone(data);
+  },
+
+  /**
+   * Apply an operation to a document.
+   *
+   * @param snapshot - Current document
+   * @param op - Components to apply in order
+   * @returns New document
+   * @throws OTError if a path does not exist or has the wrong shape
+   *
+   * Example:
+   *   apply({ tags: ['a'] }, [{ p: ['tags', 1], li: 'b' }])
+   *   => { tags: ['a', 'b'] }
+   */
+  apply(snapshot: JsonSnapshot, op: JsonOp): JsonSnapshot {
+    // Wrap in a container so the root itself can be replaced
+    const container: Record<string, any> = { data: clone(snapshot) };
+
+    for (const c of op) {
+      checkComponent(c);
+
+      let parent: any = null;
+      let parentKey: string | number | null = null;
+      let elem: any = container;
+      let key: string | number = 'data';
+
+      for (const p of c.p) {
+        parent = elem;
+        parentKey = key;
+        elem = elem[key];
+        key = p;
+
+        if (elem == null) {
+          throw new OTError(ERROR_CODES.ERR_OT_OP_NOT_APPLIED, 'Path invalid: ' + JSON.stringify(c.p));
+        }
+      }
+
+      if (c.na !== undefined) {
+        if (typeof elem[key] !== 'number') {
+          throw new OTError(ERROR_CODES.ERR_OT_OP_NOT_APPLIED, 'Referenced element not a number');
+        }
+        elem[key] += c.na;
+      } else if (c.si !== undefined) {
+        if (typeof elem !== 'string') {
+          throw new OTError(ERROR_CODES.ERR_OT_OP_NOT_APPLIED, 'Referenced element not a string');
+        }
+        const offset = key as number;
+        parent[parentKey!] = elem.slice(0, offset) + c.si + elem.slice(offset);
+      } else if (c.sd !== undefined) {
+        if (typeof elem !== 'string') {
+          throw new OTError(ERROR_CODES.ERR_OT_OP_NOT_APPLIED, 'Referenced element not a string');
+        }
+        const offset = key as number;
+        if (elem.slice(offset, offset + c.sd.length) !== c.sd) {
+          throw new OTError(ERROR_CODES.ERR_OT_OP_NOT_APPLIED, 'Deleted string does not match');
+        }
+        parent[parentKey!] = elem.slice(0, offset) + elem.slice(offset + c.sd.length);
+      } else if (c.li !== undefined || c.ld !== undefined || c.lm !== undefined) {
+        if (!Array.isArray(elem) || typeof key !== 'number') {
+          throw new OTError(ERROR_CODES.ERR_OT_OP_NOT_APPLIED, 'Referenced element not a list');
+        }
+        if (c.li !== undefined && c.ld !== undefined) {
+          elem[key] = clone(c.li);
+        } else if (c.li !== undefined) {
+          elem.splice(key, 0, clone(c.li));
+        } else if (c.ld !== undefined) {
+          elem.splice(key, 1);
+        } else if (c.lm !== key) {
+          const moved = elem[key];
+          elem.splice(key, 1);
+          elem.splice(c.lm!, 0, moved);
+        }
+      } else if (c.oi !== undefined || c.od !== undefined) {
+        if (elem == null || typeof elem !== 'object' || Array.isArray(elem)) {
+          throw new OTError(ERROR_CODES.ERR_OT_OP_NOT_APPLIED, 'Referenced element not an object');
+        }
+        if (c.oi !== undefined) {
+          elem[key] = clone(c.oi);
+        } else {
+          delete elem[key];
+        }
+      } else {
+        throw new OTError(ERROR_CODES.ERR_OT_OP_BADLY_FORMED, 'Invalid or missing instruction in component');
+      }
+    }
+
+    return container.data;
+  },
+
+  /**
+   * Transform op1 against op2.
+   *
+   * Every component of op1 is transformed against every component of
+   * op2, the same way ShareDB's json0 does it.
+   *
+   * @param op1 - Operation to transform
+   * @param op2 - Operation that was already applied
+   * @param side - 'left' or 'right' for tie-breaking
+   * @returns Transformed op1
+   *
+   * Example (two clients editing different fields converge trivially):
+   *   transform([{ p: ['a'], oi: 1 }], [{ p: ['b'], oi: 2 }], 'left')
+   *   => [{ p: ['a'], oi: 1 }]
+   *
+   * Example (list index shifts):
+   *   transform([{ p: ['list', 2], ld: 'x' }], [{ p: ['list', 0], li: 'y' }], 'left')
+   *   => [{ p: ['list', 3], ld: 'x' }]
+   */
+  transform(op1: JsonOp, op2: JsonOp, side: 'left' | 'right'): JsonOp {
+    if (op2.length === 0) return op1;
+
+    if (op1.length === 1 && op2.length === 1) {
+      return transformComponent([], op1[0], op2[0], side);
+    }
+
+    if (side === 'left') {
+      return transformX(op1, op2)[0];
+    }
+    return transformX(op2, op1)[1];
+  },
+
+  /**
+   * Compose two operations into one.
+   *
+   * Components are appended, merging adjacent ones where possible.
+   */
+  compose(op1: JsonOp, op2: JsonOp): JsonOp {
+    const result = clone(op1);
+    for (const c of op2) {
+      append(result, c);
+    }
+    return result;
+  },
+
+  /**
+   * Invert an operation (for undo).
+   *
+   * Components are inverted and reversed, so the last edit is undone first.
+   */
+  invert(op: JsonOp): JsonOp {
+    return op.slice().reverse().map(invertComponent);
+  },
+
+  /**
+   * Normalize an operation: merge adjacent components and drop
+   * components that cancel out.
+   */
+  normalize(op: JsonOp): JsonOp {
+    const result: JsonOp = [];
+    for (const c of op) {
+      append(result, { ...c, p: c.p ?? [] });
+    }
+    return result;
+  },
+};
+
+// Register the JSON type
+import { types } from '../core/types';
+types.register(jsonType);
+
+export default jsonType;
@@ -0,0 +1,448 @@
+/**
+ * List Type - Ordered collections of items
+ *
+ * Reference: the list components (li/ld/lm) of ot-json0
+ *
+ * Playlists, task lists and kanban columns are all ordered lists of
+ * items. The list type edits them with four kinds of components:
+ *
+ *   { type: 'insert', index: 1, value: 'new' }                 insert at 1
+ *   { type: 'remove', index: 1, value: 'old' }                 remove item 1
+ *   { type: 'replace', index: 1, value: 'new', old: 'old' }    replace item 1
+ *   { type: 'move', from: 1, to: 3 }                           move item 1 to 3
+ *
+ * An operation is a list of components applied in order.
+ *
+ * Removes and replaces carry the value they remove, so every op can be
+ * inverted exactly (the same way json0 records ld).
+ *
+ * `to` in a move is the index the item ends up at, counted in the list
+ * after it was taken out. So in ['a', 'b', 'c'], moving 0 to 2 gives
+ * ['b', 'c', 'a'].
+ *
+ * Transform works on two kinds of indexes:
+ * - item indexes (remove, replace, the `from` of a move) follow the item
+ *   they point at, and vanish if the item is removed
+ * - gap indexes (insert, the `to` of a move) sit between two items, and
+ *   use `side` to break ties with other ops inserting into the same gap
+ */
+
+import { OTType } from '../core/types';
+import { OTError, ERROR_CODES } from '../core/error';
+
+/** List snapshot is an array of JSON values */
+export type ListSnapshot = unknown[];
+
+/** Insert a value so it ends up at `index` */
+export interface ListInsert {
+  type: 'insert';
+  index: number;
+  value: unknown;
+}
+
+/** Remove the item at `index`; `value` is the removed item */
+export interface ListRemove {
+  type: 'remove';
+  index: number;
+  value: unknown;
+}
+
+/** Replace the item at `index` (which was `old`) with `value` */
+export interface ListReplace {
+  type: 'replace';
+  index: number;
+  value: unknown;
+  old: unknown;
+}
+
+/** Move the item at `from` so it ends up at `to` */
+export interface ListMove {
+  type: 'move';
+  from: number;
+  to: number;
+}
+
+/** A single list operation component */
+export type ListComponent = ListInsert | ListRemove | ListReplace | ListMove;
+
+/** List operation: a list of components */
+export type ListOp = ListComponent[];
+
+/**
+ * Deep clone a JSON value.
+ */
+function clone<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
+
+/**
+ * Compare two JSON values structurally.
+ */
+function deepEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function isIndex(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0;
+}
+
+/**
+ * Validate a component's shape.
+ *
+ * @throws OTError naming the field that is wrong
+ */
+function checkComponent(c: unknown): asserts c is ListComponent {
+  if (c == null || typeof c !== 'object') {
+    throw new OTError(ERROR_CODES.ERR_OT_OP_BADLY_FORMED, 'List component must be an object');
+  }
+  const component = c as Record<string, unknown>;
+  const bad = (field: string, message: string): never => {
+    throw new OTError(ERROR_CODES.ERR_OT_OP_BADLY_FORMED, `List component field '${field}' ${message}`);
+  };
+
+  switch (component.type) {
+    case 'insert':
+    case 'remove':
+    case 'replace':
+      if (!isIndex(component.index)) bad('index', 'must be a non-negative integer');
+      if (component.value === undefined) bad('value', 'is required');
+      if (component.type === 'replace' && component.old === undefined) bad('old', 'is required');
+      break;
+    case 'move':
+      if (!isIndex(component.from)) bad('from', 'must be a non-negative integer');
+      if (!isIndex(component.to)) bad('to', 'must be a non-negative integer');
+      break;
+    default:
+      bad('type', "must be 'insert', 'remove', 'replace' or 'move'");
+  }
+}
+
+/**
+ * Where an item ends up after `other` is applied.
+ *
+ * @returns The item's new index, or null if `other` removed it
+ */
+function transformItemIndex(index: number, other: ListComponent): number | null {
+  switch (other.type) {
+    case 'insert':
+      return other.index <= index ? index + 1 : index;
+    case 'remove':
+      if (other.index === index) return null;
+      return other.index < index ? index - 1 : index;
+    case 'replace':
+      return index;
+    case 'move': {
+      if (other.from === index) return other.to;
+      const taken = other.from < index ? index - 1 : index;
+      return other.to <= taken ? taken + 1 : taken;
+    }
+  }
+}
+
+/**
+ * Where a gap between items ends up after `other` is applied.
+ *
+ * @param insertAfter - If `other` inserts into this same gap, whether
+ *   the gap ends up after the inserted item
+ */
+function transformGapIndex(index: number, other: ListComponent, insertAfter: boolean): number {
+  switch (other.type) {
+    case 'insert':
+      return other.index < index || (other.index === index && insertAfter) ? index + 1 : index;
+    case 'remove':
+      return other.index < index ? index - 1 : index;
+    case 'replace':
+      return index;
+    case 'move': {
+      const taken = other.from < index ? index - 1 : index;
+      return other.to < taken || (other.to === taken && insertAfter) ? taken + 1 : taken;
+    }
+  }
+}
+
+/**
+ * Rewrite `other` as an edit of the list with item `from` taken out.
+ *
+ * A move's `to` counts gaps in that shorter list, so to transform it
+ * we need the other op in the same terms. `other` must not touch the
+ * item at `from` itself.
+ */
+function withoutItem(other: ListComponent, from: number): ListComponent {
+  const shift = (index: number) => (index > from ? index - 1 : index);
+
+  switch (other.type) {
+    case 'insert':
+    case 'remove':
+    case 'replace':
+      return { ...other, index: shift(other.index) };
+    case 'move': {
+      // other.to counts gaps in the list without other's own item, where
+      // our item sits at shift(from) relative to other.from
+      const ourIndex = from > other.from ? from - 1 : from;
+      return {
+        type: 'move',
+        from: shift(other.from),
+        to: other.to > ourIndex ? other.to - 1 : other.to,
+      };
+    }
+  }
+}
+
+/**
+ * Transform a single component against a component already applied.
+ *
+ * @returns The transformed component, or null if nothing is left of it
+ */
+function transformComponent(
+  component: ListComponent,
+  other: ListComponent,
+  side: 'left' | 'right'
+): ListComponent | null {
+  const c = clone(component);
+
+  switch (c.type) {
+    case 'insert':
+      c.index = transformGapIndex(c.index, other, side === 'right');
+      return c;
+
+    case 'remove': {
+      // A concurrent replace wins over the remove (as in json0)
+      if (other.type === 'replace' && other.index === c.index) return null;
+      const index = transformItemIndex(c.index, other);
+      if (index === null) return null;
+      c.index = index;
+      return c;
+    }
+
+    case 'replace': {
+      if (other.type === 'remove' && other.index === c.index) {
+        // They removed the item we replaced: put our value back
+        return { type: 'insert', index: c.index, value: c.value };
+      }
+      if (other.type === 'replace' && other.index === c.index) {
+        // Both replaced the same item: left wins
+        if (side === 'right') return null;
+        c.old = clone(other.value);
+        return c;
+      }
+      c.index = transformItemIndex(c.index, other)!;
+      return c;
+    }
+
+    case 'move': {
+      if (other.type === 'move' && other.from === c.from) {
+        // Both moved the same item: left wins. The list without the item
+        // is the same before and after their move, so `to` still holds.
+        if (side === 'right') return null;
+        c.from = other.to;
+        return c;
+      }
+
+      const from = transformItemIndex(c.from, other);
+      if (from === null) return null;
+
+      c.to = transformGapIndex(c.to, withoutItem(other, c.from), side === 'right');
+      c.from = from;
+      return c;
+    }
+  }
+}
+
+/**
+ * Transform two ops against each other.
+ *
+ * Reference: ot-json0 bootstrapTransform.transformX
+ *
+ * Returns [leftOp', rightOp'] such that applying leftOp then rightOp'
+ * gives the same result as applying rightOp then leftOp'.
+ */
+function transformX(leftOp: ListOp, rightOp: ListOp): [ListOp, ListOp] {
+  const newRightOp: ListOp = [];
+
+  for (const component of rightOp) {
+    let rightComponent: ListComponent | null = component;
+    const newLeftOp: ListOp = [];
+
+    for (const leftComponent of leftOp) {
+      if (rightComponent === null) {
+        newLeftOp.push(leftComponent);
+        continue;
+      }
+      const left = transformComponent(leftComponent, rightComponent, 'left');
+      rightComponent = transformComponent(rightComponent, leftComponent, 'right');
+      if (left) newLeftOp.push(left);
+    }
+
+    if (rightComponent !== null) {
+      newRightOp.push(rightComponent);
+    }
+    leftOp = newLeftOp;
+  }
+
+  return [leftOp, newRightOp];
+}
+
+/**
+ * Invert a single component.
+ */
+function invertComponent(c: ListComponent): ListComponent {
+  switch (c.type) {
+    case 'insert':
+      return { type: 'remove', index: c.index, value: clone(c.value) };
+    case 'remove':
+      return { type: 'insert', index: c.index, value: clone(c.value) };
+    case 'replace':
+      return { type: 'replace', index: c.index, value: clone(c.old), old: clone(c.value) };
+    case 'move':
+      return { type: 'move', from: c.to, to: c.from };
+  }
+}
+
+/**
+ * List OT Type implementation
+ */
+export const listType: OTType<ListSnapshot, ListOp> = {
+  name: 'list',
+  uri: 'http://sharejs.org/types/list',
+
+  /**
+   * Create initial list.
+   *
+   * @param data - Initial items (defaults to an empty list)
+   * @returns A deep copy of the initial items
+   */
+  create(data?: unknown): ListSnapshot {
+    return Array.isArray(data) ? clone(data) : [];
+  },
+
+  /**
+   * Apply an operation to a list.
+   *
+   * @param snapshot - Current list
+   * @param op - Components to apply in order
+   * @returns New list
+   * @throws OTError if an index is out of range or a recorded value
+   *   does not match the list
+   *
+   * Examples:
+   *   apply(['a', 'b'], [{ type: 'insert', index: 1, value: 'x' }]) => ['a', 'x', 'b']
+   *   apply(['a', 'b', 'c'], [{ type: 'move', from: 0, to: 2 }]) => ['b', 'c', 'a']
+   */
+  apply(snapshot: ListSnapshot, op: ListOp): ListSnapshot {
+    const list = clone(snapshot);
+
+    for (const c of op) {
+      checkComponent(c);
+
+      if (c.type === 'insert') {
+        if (c.index > list.length) {
+          throw new OTError(ERROR_CODES.ERR_OT_OP_NOT_APPLIED, `Insert index ${c.index} is out of range`);
+        }
+        list.splice(c.index, 0, clone(c.value));
+        continue;
+      }
+
+      const index = c.type === 'move' ? c.from : c.index;
+      if (index >= list.length) {
+        throw new OTError(ERROR_CODES.ERR_OT_OP_NOT_APPLIED, `Index ${index} is out of range`);
+      }
+
+      if (c.type === 'remove') {
+        if (!deepEqual(list[index], c.value)) {
+          throw new OTError(ERROR_CODES.ERR_OT_OP_NOT_APPLIED, 'Removed value does not match the list');
+        }
+        list.splice(index, 1);
+      } else if (c.type === 'replace') {
+        if (!deepEqual(list[index], c.old)) {
+          throw new OTError(ERROR_CODES.ERR_OT_OP_NOT_APPLIED, 'Replaced value does not match the list');
+        }
+        list[index] = clone(c.value);
+      } else {
+        if (c.to >= list.length) {
+          throw new OTError(ERROR_CODES.ERR_OT_OP_NOT_APPLIED, `Move target ${c.to} is out of range`);
+        }
+        const [item] = list.splice(index, 1);
+        list.splice(c.to, 0, item);
+      }
+    }
+
+    return list;
+  },
+
+  /**
+   * Transform op1 against op2.
+   *
+   * @param op1 - Operation to transform
+   * @param op2 - Operation that was already applied
+   * @param side - 'left' or 'right' for tie-breaking
+   * @returns Transformed op1
+   *
+   * Example (someone inserted before the item we remove):
+   *   transform([{ type: 'remove', index: 1, value: 'b' }],
+   *             [{ type: 'insert', index: 0, value: 'x' }], 'left')
+   *   => [{ type: 'remove', index: 2, value: 'b' }]
+   *
+   * Example (someone moved the item we remove, we follow it):
+   *   transform([{ type: 'remove', index: 0, value: 'a' }],
+   *             [{ type: 'move', from: 0, to: 2 }], 'left')
+   *   => [{ type: 'remove', index: 2, value: 'a' }]
+   */
+  transform(op1: ListOp, op2: ListOp, side: 'left' | 'right'): ListOp {
+    if (side === 'left') {
+      return transformX(op1, op2)[0];
+    }
+    return transformX(op2, op1)[1];
+  },
+
+  /**
+   * Compose two operations into one.
+   *
+   * Components simply run one after the other.
+   */
+  compose(op1: ListOp, op2: ListOp): ListOp {
+    return clone(op1).concat(clone(op2));
+  },
+
+  /**
+   * Invert an operation (for undo).
+   *
+   * Components are inverted and reversed, so the last edit is undone first.
+   */
+  invert(op: ListOp): ListOp {
+    return op.slice().reverse().map(invertComponent);
+  },
+
+  /**
+   * Normalize an operation: drop moves of an item onto itself.
+   */
+  normalize(op: ListOp): ListOp {
+    return clone(op).filter((c) => !(c.type === 'move' && c.from === c.to));
+  },
+
+  /**
+   * An op with no components does nothing.
+   */
+  isNoop(op: ListOp): boolean {
+    return op.length === 0;
+  },
+
+  /**
+   * Check that an op is a list of well formed components.
+   *
+   * @throws OTError naming the field that is wrong
+   */
+  validate(op: unknown): void {
+    if (!Array.isArray(op)) {
+      throw new OTError(ERROR_CODES.ERR_OT_OP_BADLY_FORMED, 'List op must be an array of components');
+    }
+    for (const c of op) {
+      checkComponent(c);
+    }
+  },
+};
+
+// Register the list type
+import { types } from '../core/types';
+types.register(listType);
+
+export default listType;
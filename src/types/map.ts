@@ -0,0 +1,271 @@
+/**
+ * Map Type - Key-value documents
+ *
+ * Settings documents and per-user tallies are flat maps from string keys
+ * to values. Keeping one counter document per key works, but it means
+ * one subscription per key. The map type puts them all in one document:
+ *
+ *   { type: 'set', key: 'theme', value: 'dark' }      set a key
+ *   { type: 'delete', key: 'theme' }                  delete a key
+ *   { type: 'add', key: 'alice', amount: 1 }          add to a number
+ *
+ * An operation is a list of components applied in order.
+ *
+ * Concurrent edits of different keys never interact. On the same key:
+ * - set/delete vs set/delete: last writer wins, decided by `side`. The
+ *   'left' op is the one that wins, like insert ties in the text type.
+ * - add vs add: adds commute, exactly like counterType.
+ * - add vs set/delete: the write wins, and the add is dropped. Adding to
+ *   a value someone else just replaced (or deleted) is meaningless.
+ *
+ * Adding to a key that doesn't exist yet starts it at 0, so tallies need
+ * no setup.
+ */
+
+import { OTType } from '../core/types';
+import { OTError, ERROR_CODES } from '../core/error';
+
+/** Map snapshot is an object of JSON values */
+export type MapSnapshot = Record<string, unknown>;
+
+/** Set a key to a value */
+export interface MapSet {
+  type: 'set';
+  key: string;
+  value: unknown;
+}
+
+/** Delete a key */
+export interface MapDelete {
+  type: 'delete';
+  key: string;
+}
+
+/** Add to a numeric key */
+export interface MapAdd {
+  type: 'add';
+  key: string;
+  amount: number;
+}
+
+/** A single map operation component */
+export type MapComponent = MapSet | MapDelete | MapAdd;
+
+/** Map operation: a list of components */
+export type MapOp = MapComponent[];
+
+/**
+ * Deep clone a JSON value.
+ */
+function clone<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
+
+/**
+ * Validate a component's shape.
+ *
+ * @throws OTError naming the field that is wrong
+ */
+function checkComponent(c: unknown): asserts c is MapComponent {
+  if (c == null || typeof c !== 'object') {
+    throw new OTError(ERROR_CODES.ERR_OT_OP_BADLY_FORMED, 'Map component must be an object');
+  }
+  const component = c as Record<string, unknown>;
+  const bad = (field: string, message: string): never => {
+    throw new OTError(ERROR_CODES.ERR_OT_OP_BADLY_FORMED, `Map component field '${field}' ${message}`);
+  };
+
+  if (component.type !== 'set' && component.type !== 'delete' && component.type !== 'add') {
+    bad('type', "must be 'set', 'delete' or 'add'");
+  }
+  if (typeof component.key !== 'string') {
+    bad('key', 'must be a string');
+  }
+  if (component.type === 'set' && component.value === undefined) {
+    bad('value', 'is required');
+  }
+  if (component.type === 'add' && (typeof component.amount !== 'number' || !Number.isFinite(component.amount))) {
+    bad('amount', 'must be a finite number');
+  }
+}
+
+/**
+ * Transform a single component against a component already applied.
+ *
+ * @returns The component, or null if `other` wins the key
+ */
+function transformComponent(c: MapComponent, other: MapComponent, side: 'left' | 'right'): MapComponent | null {
+  if (c.key !== other.key) return c;
+
+  if (c.type === 'add') {
+    // Adds commute with adds, and lose to writes
+    return other.type === 'add' ? c : null;
+  }
+
+  // A set or delete: adds don't affect it, writes are decided by side
+  if (other.type === 'add' || side === 'left') return c;
+  return null;
+}
+
+/**
+ * Transform two ops against each other.
+ *
+ * Reference: ot-json0 bootstrapTransform.transformX
+ *
+ * Returns [leftOp', rightOp'] such that applying leftOp then rightOp'
+ * gives the same result as applying rightOp then leftOp'.
+ */
+function transformX(leftOp: MapOp, rightOp: MapOp): [MapOp, MapOp] {
+  const newRightOp: MapOp = [];
+
+  for (const component of rightOp) {
+    let rightComponent: MapComponent | null = component;
+    const newLeftOp: MapOp = [];
+
+    for (const leftComponent of leftOp) {
+      if (rightComponent === null) {
+        newLeftOp.push(leftComponent);
+        continue;
+      }
+      const left = transformComponent(leftComponent, rightComponent, 'left');
+      rightComponent = transformComponent(rightComponent, leftComponent, 'right');
+      if (left) newLeftOp.push(left);
+    }
+
+    if (rightComponent !== null) {
+      newRightOp.push(rightComponent);
+    }
+    leftOp = newLeftOp;
+  }
+
+  return [leftOp, newRightOp];
+}
+
+/**
+ * Map OT Type implementation
+ */
+export const mapType: OTType<MapSnapshot, MapOp> = {
+  name: 'map',
+  uri: 'http://sharejs.org/types/map',
+
+  /**
+   * Create initial map.
+   *
+   * @param data - Initial entries (defaults to an empty map)
+   * @returns A deep copy of the initial entries
+   */
+  create(data?: unknown): MapSnapshot {
+    if (data != null && typeof data === 'object' && !Array.isArray(data)) {
+      return clone(data as MapSnapshot);
+    }
+    return {};
+  },
+
+  /**
+   * Apply an operation to a map.
+   *
+   * @param snapshot - Current map
+   * @param op - Components to apply in order
+   * @returns New map
+   * @throws OTError if an add targets a value that is not a number
+   *
+   * Examples:
+   *   apply({}, [{ type: 'set', key: 'theme', value: 'dark' }]) => { theme: 'dark' }
+   *   apply({ alice: 2 }, [{ type: 'add', key: 'alice', amount: 1 }]) => { alice: 3 }
+   *   apply({}, [{ type: 'add', key: 'bob', amount: 1 }]) => { bob: 1 }
+   */
+  apply(snapshot: MapSnapshot, op: MapOp): MapSnapshot {
+    const map = clone(snapshot);
+
+    for (const c of op) {
+      checkComponent(c);
+
+      if (c.type === 'set') {
+        map[c.key] = clone(c.value);
+      } else if (c.type === 'delete') {
+        delete map[c.key];
+      } else {
+        const current = map[c.key] ?? 0;
+        if (typeof current !== 'number') {
+          throw new OTError(ERROR_CODES.ERR_OT_OP_NOT_APPLIED, `Cannot add to non-number key '${c.key}'`);
+        }
+        map[c.key] = current + c.amount;
+      }
+    }
+
+    return map;
+  },
+
+  /**
+   * Transform op1 against op2.
+   *
+   * @param op1 - Operation to transform
+   * @param op2 - Operation that was already applied
+   * @param side - 'left' or 'right'; 'left' wins concurrent writes
+   * @returns Transformed op1
+   *
+   * Examples:
+   *   transform([{ type: 'set', key: 'a', value: 1 }], [{ type: 'set', key: 'a', value: 2 }], 'left')
+   *   => [{ type: 'set', key: 'a', value: 1 }]   (we win, and overwrite theirs)
+   *   transform([{ type: 'set', key: 'a', value: 1 }], [{ type: 'set', key: 'a', value: 2 }], 'right')
+   *   => []                                       (they win)
+   */
+  transform(op1: MapOp, op2: MapOp, side: 'left' | 'right'): MapOp {
+    if (side === 'left') {
+      return transformX(op1, op2)[0];
+    }
+    return transformX(op2, op1)[1];
+  },
+
+  /**
+   * Compose two operations into one.
+   *
+   * Components run one after the other; adjacent adds are merged.
+   */
+  compose(op1: MapOp, op2: MapOp): MapOp {
+    return mapType.normalize!(op1.concat(op2));
+  },
+
+  /**
+   * Normalize an operation: merge adjacent adds to the same key.
+   */
+  normalize(op: MapOp): MapOp {
+    const result: MapOp = [];
+    for (const c of op) {
+      const last = result[result.length - 1];
+      if (last && last.type === 'add' && c.type === 'add' && last.key === c.key) {
+        result[result.length - 1] = { type: 'add', key: c.key, amount: last.amount + c.amount };
+      } else {
+        result.push(clone(c));
+      }
+    }
+    return result;
+  },
+
+  /**
+   * An op with no components does nothing.
+   */
+  isNoop(op: MapOp): boolean {
+    return op.length === 0;
+  },
+
+  /**
+   * Check that an op is a list of well formed components.
+   *
+   * @throws OTError naming the field that is wrong
+   */
+  validate(op: unknown): void {
+    if (!Array.isArray(op)) {
+      throw new OTError(ERROR_CODES.ERR_OT_OP_BADLY_FORMED, 'Map op must be an array of components');
+    }
+    for (const c of op) {
+      checkComponent(c);
+    }
+  },
+};
+
+// Register the map type
+import { types } from '../core/types';
+types.register(mapType);
+
+export default mapType;
@@ -0,0 +1,438 @@
+/**
+ * Multi-component Text Type - One op can describe a whole edit
+ *
+ * Reference: ot-text (lib/text.js), the "text" type used with ShareDB
+ *
+ * The simple text type only allows one insert or one delete per op, so
+ * a paste-over-selection needs two ops (and two versions). This type
+ * describes an edit as a walk over the document made of components:
+ *
+ *   5            retain: skip over 5 characters
+ *   'abc'        insert: insert 'abc' at the current position
+ *   { d: 3 }     delete: delete the next 3 characters
+ *   { d: 'xyz' } delete: same, but recording the deleted text
+ *
+ * Anything after the last component is implicitly retained.
+ *
+ * Example: replace "world" with "there" in "hello world"
+ *   [6, 'there', { d: 'world' }]
+ *
+ * Recording deleted text makes an op invertible. Use makeInvertible()
+ * to fill it in from the document before calling invert().
+ */
+
+import { OTType } from '../core/types';
+import { OTError, ERROR_CODES } from '../core/error';
+
+/** Multi-component text snapshot is a string */
+export type MultiTextSnapshot = string;
+
+/** Delete component: a count, or the deleted text itself */
+export interface MultiTextDelete {
+  d: number | string;
+}
+
+/** A single component: retain (number), insert (string) or delete */
+export type MultiTextComponent = number | string | MultiTextDelete;
+
+/** Multi-component text operation */
+export type MultiTextOp = MultiTextComponent[];
+
+/** Type guard for delete components */
+export function isMultiTextDelete(c: MultiTextComponent): c is MultiTextDelete {
+  return typeof c === 'object' && c != null;
+}
+
+/**
+ * Number of characters a component covers in the document
+ * (for retain/delete) or adds to it (for insert).
+ */
+function componentLength(c: MultiTextComponent): number {
+  if (typeof c === 'number') return c;
+  if (typeof c === 'string') return c.length;
+  return typeof c.d === 'number' ? c.d : c.d.length;
+}
+
+/**
+ * Validate an op.
+ *
+ * @throws OTError if the op is badly formed
+ */
+function checkOp(op: MultiTextOp): void {
+  if (!Array.isArray(op)) {
+    throw new OTError(ERROR_CODES.ERR_OT_OP_BADLY_FORMED, 'Op must be an array of components');
+  }
+
+  for (const c of op) {
+    if (typeof c === 'number') {
+      if (!(c > 0) || !Number.isInteger(c)) {
+        throw new OTError(ERROR_CODES.ERR_OT_OP_BADLY_FORMED, 'Retain must be a positive integer');
+      }
+    } else if (typeof c === 'string') {
+      if (c.length === 0) {
+        throw new OTError(ERROR_CODES.ERR_OT_OP_BADLY_FORMED, 'Insert must not be empty');
+      }
+    } else if (isMultiTextDelete(c)) {
+      const d = c.d;
+      if (typeof d === 'number' ? !(d > 0) || !Number.isInteger(d) : typeof d !== 'string' || d.length === 0) {
+        throw new OTError(ERROR_CODES.ERR_OT_OP_BADLY_FORMED, 'Delete must be a positive integer or non-empty string');
+      }
+    } else {
+      throw new OTError(ERROR_CODES.ERR_OT_OP_BADLY_FORMED, 'Unknown component: ' + JSON.stringify(c));
+    }
+  }
+}
+
+/**
+ * Create an append function that merges adjacent components of the
+ * same kind and drops empty ones.
+ */
+function makeAppend(op: MultiTextOp): (c: MultiTextComponent) => void {
+  return (c) => {
+    if (componentLength(c) === 0) return;
+
+    if (op.length === 0) {
+      op.push(isMultiTextDelete(c) ? { d: c.d } : c);
+      return;
+    }
+
+    const last = op[op.length - 1];
+    if (typeof c === 'number' && typeof last === 'number') {
+      op[op.length - 1] = last + c;
+    } else if (typeof c === 'string' && typeof last === 'string') {
+      op[op.length - 1] = last + c;
+    } else if (isMultiTextDelete(c) && isMultiTextDelete(last)) {
+      if (typeof last.d === 'string' && typeof c.d === 'string') {
+        op[op.length - 1] = { d: last.d + c.d };
+      } else {
+        // Mixed forms: fall back to a count
+        op[op.length - 1] = { d: componentLength(last) + componentLength(c) };
+      }
+    } else {
+      op.push(isMultiTextDelete(c) ? { d: c.d } : c);
+    }
+  };
+}
+
+/**
+ * Create a "take" function that reads an op component by component,
+ * splitting components where needed.
+ *
+ * take(n) returns up to n characters' worth of the next component.
+ * take(-1) returns the rest of the next component, or null at the end.
+ * The indivisible kind ('i' for inserts, 'd' for deletes) is always
+ * returned whole, whatever n is.
+ *
+ * Past the end of the op, take(n) returns an implicit retain of n.
+ */
+function makeTake(op: MultiTextOp): {
+  take: (n: number, indivisible?: 'i' | 'd') => MultiTextComponent | null;
+  peek: () => MultiTextComponent | undefined;
+} {
+  let idx = 0;
+  let offset = 0;
+
+  const take = (n: number, indivisible?: 'i' | 'd'): MultiTextComponent | null => {
+    if (idx === op.length) {
+      return n === -1 ? null : n;
+    }
+
+    const c = op[idx];
+    const remaining = componentLength(c) - offset;
+    const whole =
+      n === -1 ||
+      remaining <= n ||
+      (indivisible === 'i' && typeof c === 'string') ||
+      (indivisible === 'd' && isMultiTextDelete(c));
+    const size = whole ? remaining : n;
+    const start = offset;
+
+    if (whole) {
+      idx++;
+      offset = 0;
+    } else {
+      offset += n;
+    }
+
+    if (typeof c === 'number') {
+      return size;
+    } else if (typeof c === 'string') {
+      return c.slice(start, start + size);
+    }
+    return { d: typeof c.d === 'number' ? size : c.d.slice(start, start + size) };
+  };
+
+  const peek = (): MultiTextComponent | undefined => op[idx];
+
+  return { take, peek };
+}
+
+/**
+ * Remove a trailing retain (it is implicit).
+ */
+function trim(op: MultiTextOp): MultiTextOp {
+  if (op.length > 0 && typeof op[op.length - 1] === 'number') {
+    op.pop();
+  }
+  return op;
+}
+
+/**
+ * Fill in the deleted text of every delete component, so the op can
+ * be inverted exactly.
+ *
+ * @param op - Operation to make invertible
+ * @param snapshot - The document the op applies to
+ * @returns A copy of op with all deletes recording their text
+ *
+ * Example:
+ *   makeInvertible([1, { d: 2 }], 'hello') => [1, { d: 'el' }]
+ */
+export function makeInvertible(op: MultiTextOp, snapshot: MultiTextSnapshot): MultiTextOp {
+  const result: MultiTextOp = [];
+  let pos = 0;
+
+  for (const c of op) {
+    if (typeof c === 'number') {
+      pos += c;
+      result.push(c);
+    } else if (typeof c === 'string') {
+      result.push(c);
+    } else {
+      const length = componentLength(c);
+      result.push({ d: snapshot.slice(pos, pos + length) });
+      pos += length;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Multi-component Text OT Type implementation
+ */
+export const multiTextType: OTType<MultiTextSnapshot, MultiTextOp> = {
+  name: 'text',
+  uri: 'http://sharejs.org/types/textv1',
+
+  /**
+   * Create initial text value.
+   *
+   * @param data - Initial text (defaults to empty string)
+   * @returns Initial text value
+   */
+  create(data?: unknown): MultiTextSnapshot {
+    if (typeof data === 'string') {
+      return data;
+    }
+    return '';
+  },
+
+  /**
+   * Apply an operation to the text.
+   *
+   * @param snapshot - Current text
+   * @param op - Components to apply
+   * @returns New text
+   * @throws OTError if the op runs past the end of the document, or a
+   *   recorded delete does not match the text being deleted
+   *
+   * Example:
+   *   apply("hello world", [6, 'there', { d: 5 }]) => "hello there"
+   */
+  apply(snapshot: MultiTextSnapshot, op: MultiTextOp): MultiTextSnapshot {
+    checkOp(op);
+
+    const parts: string[] = [];
+    let pos = 0;
+
+    for (const c of op) {
+      if (typeof c === 'string') {
+        parts.push(c);
+        continue;
+      }
+
+      const length = componentLength(c);
+      if (pos + length > snapshot.length) {
+        throw new OTError(ERROR_CODES.ERR_OT_OP_NOT_APPLIED, 'Op is longer than the document');
+      }
+
+      if (typeof c === 'number') {
+        parts.push(snapshot.slice(pos, pos + length));
+      } else if (typeof c.d === 'string' && snapshot.slice(pos, pos + length) !== c.d) {
+        throw new OTError(ERROR_CODES.ERR_OT_OP_NOT_APPLIED, 'Deleted text does not match the document');
+      }
+      pos += length;
+    }
+
+    return parts.join('') + snapshot.slice(pos);
+  },
+
+  /**
+   * Transform op1 against op2.
+   *
+   * Walk through op2. Wherever op2 retains, copy the same span of op1;
+   * wherever op2 inserts, retain over the new text; wherever op2
+   * deletes, drop op1's retains and deletes in that span (the text is
+   * already gone) but keep its inserts.
+   *
+   * @param op1 - Operation to transform
+   * @param op2 - Operation that was already applied
+   * @param side - 'left' or 'right' for tie-breaking concurrent inserts
+   * @returns Transformed op1
+   *
+   * Example:
+   *   transform([3, 'X'], ['ab'], 'left') => [5, 'X']
+   */
+  transform(op1: MultiTextOp, op2: MultiTextOp, side: 'left' | 'right'): MultiTextOp {
+    checkOp(op1);
+    checkOp(op2);
+
+    const result: MultiTextOp = [];
+    const append = makeAppend(result);
+    const { take, peek } = makeTake(op1);
+
+    for (const component of op2) {
+      if (typeof component === 'number') {
+        // Retain: copy the same span of op1 (inserts don't use up the span)
+        let length = component;
+        while (length > 0) {
+          const chunk = take(length, 'i')!;
+          append(chunk);
+          if (typeof chunk !== 'string') {
+            length -= componentLength(chunk);
+          }
+        }
+      } else if (typeof component === 'string') {
+        // Insert: the left side's insert at the same position goes first
+        if (side === 'left' && typeof peek() === 'string') {
+          append(take(-1)!);
+        }
+        append(component.length);
+      } else {
+        // Delete: keep op1's inserts, drop everything else in the span
+        let length = componentLength(component);
+        while (length > 0) {
+          const chunk = take(length, 'i')!;
+          if (typeof chunk === 'string') {
+            append(chunk);
+          } else {
+            length -= componentLength(chunk);
+          }
+        }
+      }
+    }
+
+    // Append whatever is left of op1
+    let component: MultiTextComponent | null;
+    while ((component = take(-1)) !== null) {
+      append(component);
+    }
+
+    return trim(result);
+  },
+
+  /**
+   * Compose two operations into one.
+   *
+   * @param op1 - First operation
+   * @param op2 - Second operation (applied after op1)
+   * @returns Combined operation
+   *
+   * Example:
+   *   compose(['abc'], [1, { d: 1 }]) => ['ac']
+   */
+  compose(op1: MultiTextOp, op2: MultiTextOp): MultiTextOp {
+    checkOp(op1);
+    checkOp(op2);
+
+    const result: MultiTextOp = [];
+    const append = makeAppend(result);
+    const { take } = makeTake(op1);
+
+    for (const component of op2) {
+      if (typeof component === 'number') {
+        // Retain: keep op1's span as-is (op1's deletes don't use it up)
+        let length = component;
+        while (length > 0) {
+          const chunk = take(length, 'd')!;
+          append(chunk);
+          if (!isMultiTextDelete(chunk)) {
+            length -= componentLength(chunk);
+          }
+        }
+      } else if (typeof component === 'string') {
+        append(component);
+      } else {
+        // Delete: removes text op1 retained, cancels text op1 inserted
+        const total = componentLength(component);
+        let length = total;
+        while (length > 0) {
+          const chunk = take(length, 'd')!;
+          if (typeof chunk === 'number') {
+            const start = total - length;
+            append({
+              d: typeof component.d === 'string' ? component.d.slice(start, start + chunk) : chunk,
+            });
+            length -= chunk;
+          } else if (typeof chunk === 'string') {
+            length -= chunk.length;
+          } else {
+            append(chunk);
+          }
+        }
+      }
+    }
+
+    let component: MultiTextComponent | null;
+    while ((component = take(-1)) !== null) {
+      append(component);
+    }
+
+    return trim(result);
+  },
+
+  /**
+   * Invert an operation (for undo).
+   *
+   * Inserts become deletes and deletes become inserts. This needs the
+   * deleted text, so every delete must record it (see makeInvertible).
+   *
+   * @throws OTError if a delete only records a count
+   */
+  invert(op: MultiTextOp): MultiTextOp {
+    return op.map((c) => {
+      if (typeof c === 'number') return c;
+      if (typeof c === 'string') return { d: c };
+      if (typeof c.d !== 'string') {
+        throw new OTError(
+          ERROR_CODES.ERR_OT_OP_BADLY_FORMED,
+          'Cannot invert a delete without its text; use makeInvertible first'
+        );
+      }
+      return c.d;
+    });
+  },
+
+  /**
+   * Normalize an operation: merge adjacent components, drop empty
+   * ones and remove the trailing retain.
+   *
+   * Example:
+   *   normalize([1, 2, 'a', '', 'b', 3]) => [3, 'ab']
+   */
+  normalize(op: MultiTextOp): MultiTextOp {
+    const result: MultiTextOp = [];
+    const append = makeAppend(result);
+    for (const c of op) {
+      append(c);
+    }
+    return trim(result);
+  },
+};
+
+// Register the multi-component text type
+import { types } from '../core/types';
+types.register(multiTextType);
+
+export default multiTextType;
@@ -0,0 +1,677 @@
+/**
+ * Rich Text Type - Text with formatting attributes
+ *
+ * Reference: rich-text (lib/type.js) and quill-delta, as used with ShareDB
+ *
+ * A rich text document is a list of inserts, each carrying optional
+ * attributes (bold, italic, link, ...):
+ *
+ *   [{ insert: 'Hello ' }, { insert: 'world', attributes: { bold: true } }]
+ *
+ * An operation ("delta") walks over the document like the
+ * multi-component text type, but every component is an object:
+ *
+ *   { insert: 'abc', attributes?: {...} }   insert formatted text
+ *   { retain: 5, attributes?: {...} }       skip 5 characters, optionally
+ *                                           changing their attributes
+ *                                           (null removes an attribute)
+ *   { delete: 3 }                           delete 3 characters
+ *
+ * Example: make "world" bold
+ *   [{ retain: 6 }, { retain: 5, attributes: { bold: true } }]
+ *
+ * Like the multi-component text type, invert() needs to know what an op
+ * removed. Deletes can record the deleted text (`deleted`) and attribute
+ * changes can record the previous values (`previous`). makeInvertible()
+ * fills both in from the document.
+ */
+
+import { OTType } from '../core/types';
+import { OTError, ERROR_CODES } from '../core/error';
+
+/** Formatting attributes. A null value removes the attribute. */
+export type RichTextAttributes = Record<string, unknown>;
+
+/** Insert component (also the building block of documents) */
+export interface RichTextInsert {
+  insert: string;
+  attributes?: RichTextAttributes;
+}
+
+/** Retain component, optionally changing attributes */
+export interface RichTextRetain {
+  retain: number;
+  attributes?: RichTextAttributes;
+  /** Previous value of each changed attribute (null if it was unset) */
+  previous?: RichTextAttributes;
+}
+
+/** Delete component */
+export interface RichTextDelete {
+  delete: number;
+  /** The deleted text and its attributes */
+  deleted?: RichTextInsert;
+}
+
+/** A single rich text component */
+export type RichTextComponent = RichTextInsert | RichTextRetain | RichTextDelete;
+
+/** Rich text operation */
+export type RichTextOp = RichTextComponent[];
+
+/** Rich text snapshot: a list of formatted inserts */
+export type RichTextSnapshot = RichTextInsert[];
+
+/** Type guard for insert components */
+export function isRichTextInsert(c: RichTextComponent): c is RichTextInsert {
+  return typeof (c as RichTextInsert).insert === 'string';
+}
+
+/** Type guard for retain components */
+export function isRichTextRetain(c: RichTextComponent): c is RichTextRetain {
+  return typeof (c as RichTextRetain).retain === 'number';
+}
+
+/** Type guard for delete components */
+export function isRichTextDelete(c: RichTextComponent): c is RichTextDelete {
+  return typeof (c as RichTextDelete).delete === 'number';
+}
+
+/**
+ * Number of characters a component covers.
+ */
+function componentLength(c: RichTextComponent): number {
+  if (isRichTextInsert(c)) return c.insert.length;
+  if (isRichTextRetain(c)) return c.retain;
+  return c.delete;
+}
+
+function isEmpty(attributes: RichTextAttributes | undefined): boolean {
+  return attributes == null || Object.keys(attributes).length === 0;
+}
+
+/**
+ * Compare two attribute maps structurally.
+ */
+function attributesEqual(a: RichTextAttributes | undefined, b: RichTextAttributes | undefined): boolean {
+  if (isEmpty(a) && isEmpty(b)) return true;
+  if (isEmpty(a) || isEmpty(b)) return false;
+  const keys = Object.keys(a!);
+  if (keys.length !== Object.keys(b!).length) return false;
+  return keys.every((key) => key in b! && JSON.stringify(a![key]) === JSON.stringify(b![key]));
+}
+
+/**
+ * Apply attribute changes b on top of attributes a.
+ *
+ * Reference: quill-delta AttributeMap.compose
+ *
+ * @param keepNull - Keep null values (removals) in the result. Needed
+ *   when composing two retains, where the removal is still pending.
+ */
+function composeAttributes(
+  a: RichTextAttributes | undefined,
+  b: RichTextAttributes | undefined,
+  keepNull: boolean
+): RichTextAttributes | undefined {
+  const result: RichTextAttributes = {};
+  for (const key of Object.keys(b ?? {})) {
+    if (keepNull || b![key] != null) result[key] = b![key];
+  }
+  for (const key of Object.keys(a ?? {})) {
+    if (a![key] !== undefined && b?.[key] === undefined) result[key] = a![key];
+  }
+  return isEmpty(result) ? undefined : result;
+}
+
+/**
+ * Transform attribute changes b against concurrent changes a.
+ *
+ * Reference: quill-delta AttributeMap.transform
+ *
+ * Without priority, b simply overwrites a. With priority, a's changes
+ * win and b keeps only the keys a did not touch.
+ */
+function transformAttributes(
+  a: RichTextAttributes | undefined,
+  b: RichTextAttributes | undefined,
+  priority: boolean
+): RichTextAttributes | undefined {
+  if (isEmpty(a)) return isEmpty(b) ? undefined : b;
+  if (isEmpty(b)) return undefined;
+  if (!priority) return b;
+
+  const result: RichTextAttributes = {};
+  for (const key of Object.keys(b!)) {
+    if (a![key] === undefined) result[key] = b![key];
+  }
+  return isEmpty(result) ? undefined : result;
+}
+
+/**
+ * Previous values of the attributes `changes` touches, read from `base`.
+ */
+function previousAttributes(
+  base: RichTextAttributes | undefined,
+  changes: RichTextAttributes
+): RichTextAttributes {
+  const result: RichTextAttributes = {};
+  for (const key of Object.keys(changes)) {
+    result[key] = base?.[key] ?? null;
+  }
+  return result;
+}
+
+/**
+ * Build a component, leaving out empty optional fields.
+ */
+function makeRetain(
+  retain: number,
+  attributes?: RichTextAttributes,
+  previous?: RichTextAttributes
+): RichTextRetain {
+  const c: RichTextRetain = { retain };
+  if (!isEmpty(attributes)) {
+    c.attributes = attributes;
+    if (previous) c.previous = previous;
+  }
+  return c;
+}
+
+function makeInsert(insert: string, attributes?: RichTextAttributes): RichTextInsert {
+  return isEmpty(attributes) ? { insert } : { insert, attributes };
+}
+
+function makeDelete(length: number, deleted?: RichTextInsert): RichTextDelete {
+  return deleted ? { delete: length, deleted: makeInsert(deleted.insert, deleted.attributes) } : { delete: length };
+}
+
+/**
+ * Validate an op.
+ *
+ * @throws OTError if the op is badly formed
+ */
+function checkOp(op: RichTextOp): void {
+  if (!Array.isArray(op)) {
+    throw new OTError(ERROR_CODES.ERR_OT_OP_BADLY_FORMED, 'Op must be an array of components');
+  }
+
+  for (const c of op) {
+    if (c == null || typeof c !== 'object') {
+      throw new OTError(ERROR_CODES.ERR_OT_OP_BADLY_FORMED, 'Component must be an object');
+    }
+    const attributes = (c as RichTextRetain).attributes;
+    if (attributes !== undefined && (attributes === null || typeof attributes !== 'object')) {
+      throw new OTError(ERROR_CODES.ERR_OT_OP_BADLY_FORMED, 'attributes must be an object');
+    }
+
+    if (isRichTextInsert(c)) {
+      if (c.insert.length === 0) {
+        throw new OTError(ERROR_CODES.ERR_OT_OP_BADLY_FORMED, 'Insert must not be empty');
+      }
+    } else if (isRichTextRetain(c) || isRichTextDelete(c)) {
+      const length = componentLength(c);
+      if (!(length > 0) || !Number.isInteger(length)) {
+        throw new OTError(ERROR_CODES.ERR_OT_OP_BADLY_FORMED, 'Retain and delete must be positive integers');
+      }
+      if (isRichTextDelete(c) && c.deleted && c.deleted.insert.length !== c.delete) {
+        throw new OTError(ERROR_CODES.ERR_OT_OP_BADLY_FORMED, 'Recorded deleted text does not match delete length');
+      }
+    } else {
+      throw new OTError(ERROR_CODES.ERR_OT_OP_BADLY_FORMED, 'Unknown component: ' + JSON.stringify(c));
+    }
+  }
+}
+
+/**
+ * Create an append function that merges adjacent components with the
+ * same attributes, drops empty ones, and keeps inserts ahead of deletes
+ * at the same position (so equivalent ops look the same).
+ */
+function makeAppend(op: RichTextOp): (c: RichTextComponent) => void {
+  const merge = (last: RichTextComponent, c: RichTextComponent): RichTextComponent | null => {
+    if (isRichTextInsert(last) && isRichTextInsert(c) && attributesEqual(last.attributes, c.attributes)) {
+      return makeInsert(last.insert + c.insert, c.attributes);
+    }
+    if (
+      isRichTextRetain(last) &&
+      isRichTextRetain(c) &&
+      attributesEqual(last.attributes, c.attributes) &&
+      attributesEqual(last.previous, c.previous) &&
+      (last.previous == null) === (c.previous == null)
+    ) {
+      return makeRetain(last.retain + c.retain, c.attributes, c.previous);
+    }
+    if (isRichTextDelete(last) && isRichTextDelete(c)) {
+      if (!last.deleted && !c.deleted) {
+        return makeDelete(last.delete + c.delete);
+      }
+      if (last.deleted && c.deleted && attributesEqual(last.deleted.attributes, c.deleted.attributes)) {
+        return makeDelete(last.delete + c.delete, makeInsert(last.deleted.insert + c.deleted.insert, c.deleted.attributes));
+      }
+    }
+    return null;
+  };
+
+  return (c) => {
+    if (componentLength(c) === 0) return;
+
+    let index = op.length;
+    if (isRichTextInsert(c)) {
+      // Inserts go before deletes at the same position
+      while (index > 0 && isRichTextDelete(op[index - 1])) {
+        index--;
+      }
+    }
+
+    if (index > 0) {
+      const merged = merge(op[index - 1], c);
+      if (merged) {
+        op[index - 1] = merged;
+        return;
+      }
+    }
+
+    op.splice(index, 0, c);
+  };
+}
+
+/**
+ * Remove a trailing plain retain (it is implicit).
+ */
+function chop(op: RichTextOp): RichTextOp {
+  const last = op[op.length - 1];
+  if (last && isRichTextRetain(last) && isEmpty(last.attributes)) {
+    op.pop();
+  }
+  return op;
+}
+
+/**
+ * Create an iterator over an op's components that can split them.
+ *
+ * Reference: quill-delta OpIterator
+ *
+ * Past the end, the op behaves like an infinite plain retain.
+ */
+function makeIterator(op: RichTextOp): {
+  hasNext: () => boolean;
+  peekType: () => 'insert' | 'retain' | 'delete';
+  peekLength: () => number;
+  next: (length?: number) => RichTextComponent;
+} {
+  let idx = 0;
+  let offset = 0;
+
+  const peekLength = (): number => (idx < op.length ? componentLength(op[idx]) - offset : Infinity);
+
+  const peekType = (): 'insert' | 'retain' | 'delete' => {
+    if (idx >= op.length) return 'retain';
+    const c = op[idx];
+    if (isRichTextInsert(c)) return 'insert';
+    if (isRichTextDelete(c)) return 'delete';
+    return 'retain';
+  };
+
+  const next = (length: number = Infinity): RichTextComponent => {
+    if (idx >= op.length) {
+      return { retain: length };
+    }
+
+    const c = op[idx];
+    const start = offset;
+    const remaining = componentLength(c) - offset;
+    const size = Math.min(length, remaining);
+
+    if (size === remaining) {
+      idx++;
+      offset = 0;
+    } else {
+      offset += size;
+    }
+
+    if (isRichTextInsert(c)) {
+      return makeInsert(c.insert.slice(start, start + size), c.attributes);
+    }
+    if (isRichTextRetain(c)) {
+      return makeRetain(size, c.attributes, c.previous);
+    }
+    return makeDelete(
+      size,
+      c.deleted && makeInsert(c.deleted.insert.slice(start, start + size), c.deleted.attributes)
+    );
+  };
+
+  return { hasNext: () => peekLength() < Infinity, peekType, peekLength, next };
+}
+
+/**
+ * Fill in the deleted text of every delete and the previous value of
+ * every attribute change, so the op can be inverted exactly.
+ *
+ * @param op - Operation to make invertible
+ * @param snapshot - The document the op applies to
+ * @returns A copy of op carrying everything invert() needs
+ * @throws OTError if the op is longer than the document
+ *
+ * Example:
+ *   makeInvertible([{ delete: 2 }], [{ insert: 'hi', attributes: { bold: true } }])
+ *   => [{ delete: 2, deleted: { insert: 'hi', attributes: { bold: true } } }]
+ */
+export function makeInvertible(op: RichTextOp, snapshot: RichTextSnapshot): RichTextOp {
+  checkOp(op);
+
+  const result: RichTextOp = [];
+  const append = makeAppend(result);
+  const doc = makeIterator(snapshot);
+
+  for (const c of op) {
+    if (isRichTextInsert(c)) {
+      append(c);
+      continue;
+    }
+
+    let length = componentLength(c);
+    while (length > 0) {
+      if (!doc.hasNext()) {
+        throw new OTError(ERROR_CODES.ERR_OT_OP_NOT_APPLIED, 'Op is longer than the document');
+      }
+      const chunk = doc.next(length) as RichTextInsert;
+      const size = chunk.insert.length;
+      length -= size;
+
+      if (isRichTextDelete(c)) {
+        append(makeDelete(size, chunk));
+      } else if (isEmpty(c.attributes)) {
+        append(makeRetain(size));
+      } else {
+        append(makeRetain(size, c.attributes, previousAttributes(chunk.attributes, c.attributes!)));
+      }
+    }
+  }
+
+  return chop(result);
+}
+
+/**
+ * Rich Text OT Type implementation
+ */
+export const richTextType: OTType<RichTextSnapshot, RichTextOp> = {
+  name: 'rich-text',
+  uri: 'http://sharejs.org/types/rich-text/v1',
+
+  /**
+   * Create initial document.
+   *
+   * @param data - A plain string, or a list of formatted inserts
+   * @returns Initial document (empty by default)
+   *
+   * Examples:
+   *   create('hi') => [{ insert: 'hi' }]
+   *   create() => []
+   */
+  create(data?: unknown): RichTextSnapshot {
+    const result: RichTextSnapshot = [];
+    const append = makeAppend(result);
+
+    if (typeof data === 'string') {
+      append(makeInsert(data));
+    } else if (Array.isArray(data)) {
+      for (const c of data as RichTextOp) {
+        if (c && isRichTextInsert(c)) append(makeInsert(c.insert, c.attributes));
+      }
+    }
+
+    return result as RichTextSnapshot;
+  },
+
+  /**
+   * Apply an operation to a document.
+   *
+   * @param snapshot - Current document
+   * @param op - Operation to apply
+   * @returns New document
+   * @throws OTError if the op runs past the end of the document, or a
+   *   recorded delete does not match the text being deleted
+   *
+   * Example:
+   *   apply([{ insert: 'hi' }], [{ retain: 2, attributes: { bold: true } }])
+   *   => [{ insert: 'hi', attributes: { bold: true } }]
+   */
+  apply(snapshot: RichTextSnapshot, op: RichTextOp): RichTextSnapshot {
+    checkOp(op);
+
+    const result: RichTextOp = [];
+    const append = makeAppend(result);
+    const doc = makeIterator(snapshot);
+
+    for (const c of op) {
+      if (isRichTextInsert(c)) {
+        append(makeInsert(c.insert, c.attributes));
+        continue;
+      }
+
+      const total = componentLength(c);
+      let length = total;
+      while (length > 0) {
+        if (!doc.hasNext()) {
+          throw new OTError(ERROR_CODES.ERR_OT_OP_NOT_APPLIED, 'Op is longer than the document');
+        }
+        const chunk = doc.next(length) as RichTextInsert;
+        const start = total - length;
+        length -= chunk.insert.length;
+
+        if (isRichTextRetain(c)) {
+          append(makeInsert(chunk.insert, composeAttributes(chunk.attributes, c.attributes, false)));
+        } else if (
+          c.deleted &&
+          (c.deleted.insert.slice(start, start + chunk.insert.length) !== chunk.insert ||
+            !attributesEqual(c.deleted.attributes, chunk.attributes))
+        ) {
+          throw new OTError(ERROR_CODES.ERR_OT_OP_NOT_APPLIED, 'Deleted text does not match the document');
+        }
+      }
+    }
+
+    while (doc.hasNext()) {
+      append(doc.next());
+    }
+
+    return result as RichTextSnapshot;
+  },
+
+  /**
+   * Transform op1 against op2.
+   *
+   * Inserts shift positions the same way as in the text types. When
+   * both ops change the same attribute on the same text, the left op
+   * wins. Deletes in op2 remove op1's attribute changes on the deleted
+   * text.
+   *
+   * @param op1 - Operation to transform
+   * @param op2 - Operation that was already applied
+   * @param side - 'left' or 'right' for tie-breaking
+   * @returns Transformed op1
+   *
+   * Example (the concurrent insert is skipped over, not bolded):
+   *   transform([{ retain: 2, attributes: { bold: true } }], [{ insert: 'X' }], 'left')
+   *   => [{ retain: 1 }, { retain: 2, attributes: { bold: true } }]
+   */
+  transform(op1: RichTextOp, op2: RichTextOp, side: 'left' | 'right'): RichTextOp {
+    checkOp(op1);
+    checkOp(op2);
+
+    // op2 wins ties when op1 is on the right
+    const priority = side === 'right';
+    const result: RichTextOp = [];
+    const append = makeAppend(result);
+    const applied = makeIterator(op2);
+    const ours = makeIterator(op1);
+
+    while (applied.hasNext() || ours.hasNext()) {
+      if (applied.peekType() === 'insert' && (priority || ours.peekType() !== 'insert')) {
+        // Skip over text op2 inserted
+        append(makeRetain(componentLength(applied.next())));
+      } else if (ours.peekType() === 'insert') {
+        append(ours.next());
+      } else {
+        const length = Math.min(applied.peekLength(), ours.peekLength());
+        const theirs = applied.next(length);
+        const mine = ours.next(length);
+
+        if (isRichTextDelete(theirs)) {
+          // The text is already gone
+          continue;
+        }
+
+        const theirAttributes = (theirs as RichTextRetain).attributes;
+        if (isRichTextDelete(mine)) {
+          // Keep the recorded text up to date with op2's formatting
+          const deleted = mine.deleted && makeInsert(
+            mine.deleted.insert,
+            composeAttributes(mine.deleted.attributes, theirAttributes, false)
+          );
+          append(makeDelete(length, deleted));
+        } else {
+          const retain = mine as RichTextRetain;
+          const attributes = transformAttributes(theirAttributes, retain.attributes, priority);
+          let previous: RichTextAttributes | undefined;
+          if (attributes && retain.previous) {
+            // Values we now overwrite are the ones op2 set
+            previous = {};
+            for (const key of Object.keys(attributes)) {
+              previous[key] = theirAttributes && key in theirAttributes
+                ? theirAttributes[key]
+                : retain.previous[key];
+            }
+          }
+          append(makeRetain(length, attributes, previous));
+        }
+      }
+    }
+
+    return chop(result);
+  },
+
+  /**
+   * Compose two operations into one.
+   *
+   * Reference: quill-delta Delta.compose
+   *
+   * @param op1 - First operation
+   * @param op2 - Second operation (applied after op1)
+   * @returns Combined operation
+   */
+  compose(op1: RichTextOp, op2: RichTextOp): RichTextOp {
+    checkOp(op1);
+    checkOp(op2);
+
+    const result: RichTextOp = [];
+    const append = makeAppend(result);
+    const first = makeIterator(op1);
+    const second = makeIterator(op2);
+
+    while (first.hasNext() || second.hasNext()) {
+      if (second.peekType() === 'insert') {
+        append(second.next());
+      } else if (first.peekType() === 'delete') {
+        append(first.next());
+      } else {
+        const length = Math.min(first.peekLength(), second.peekLength());
+        const a = first.next(length) as RichTextInsert | RichTextRetain;
+        const b = second.next(length) as RichTextRetain | RichTextDelete;
+
+        if (isRichTextRetain(b)) {
+          if (isRichTextInsert(a)) {
+            append(makeInsert(a.insert, composeAttributes(a.attributes, b.attributes, false)));
+          } else {
+            const attributes = composeAttributes(a.attributes, b.attributes, true);
+            let previous: RichTextAttributes | undefined;
+            const known = (isEmpty(a.attributes) || a.previous) && (isEmpty(b.attributes) || b.previous);
+            if (attributes && known) {
+              // The value before both ops is op1's previous, if op1 touched it
+              previous = {};
+              for (const key of Object.keys(attributes)) {
+                previous[key] = a.attributes && key in a.attributes ? a.previous![key] : b.previous![key];
+              }
+            }
+            append(makeRetain(length, attributes, previous));
+          }
+        } else if (isRichTextRetain(a)) {
+          // Deleting text op1 only reformatted: record the original formatting
+          let deleted = b.deleted;
+          if (deleted && !isEmpty(a.attributes)) {
+            deleted = a.previous
+              ? makeInsert(deleted.insert, composeAttributes(deleted.attributes, a.previous, false))
+              : undefined;
+          }
+          append(makeDelete(length, deleted));
+        }
+        // Deleting text op1 inserted: both cancel out
+      }
+    }
+
+    return chop(result);
+  },
+
+  /**
+   * Invert an operation (for undo).
+   *
+   * Inserts become deletes, deletes become inserts, and attribute
+   * changes are reverted. Deletes and attribute changes must record
+   * what they replaced (see makeInvertible).
+   *
+   * @throws OTError if the op does not record what it replaced
+   */
+  invert(op: RichTextOp): RichTextOp {
+    checkOp(op);
+
+    const result: RichTextOp = [];
+    const append = makeAppend(result);
+
+    for (const c of op) {
+      if (isRichTextInsert(c)) {
+        append(makeDelete(c.insert.length, c));
+      } else if (isRichTextDelete(c)) {
+        if (!c.deleted) {
+          throw new OTError(
+            ERROR_CODES.ERR_OT_OP_BADLY_FORMED,
+            'Cannot invert a delete without its text; use makeInvertible first'
+          );
+        }
+        append(makeInsert(c.deleted.insert, c.deleted.attributes));
+      } else if (isEmpty(c.attributes)) {
+        append(makeRetain(c.retain));
+      } else {
+        if (!c.previous) {
+          throw new OTError(
+            ERROR_CODES.ERR_OT_OP_BADLY_FORMED,
+            'Cannot invert an attribute change without previous values; use makeInvertible first'
+          );
+        }
+        append(makeRetain(c.retain, c.previous, previousAttributes(c.attributes, c.previous)));
+      }
+    }
+
+    return chop(result);
+  },
+
+  /**
+   * Normalize an operation: merge adjacent components, drop empty ones
+   * and remove the trailing plain retain.
+   */
+  normalize(op: RichTextOp): RichTextOp {
+    const result: RichTextOp = [];
+    const append = makeAppend(result);
+    for (const c of op) {
+      append(c);
+    }
+    return chop(result);
+  },
+};
+
+// Register the rich text type
+import { types } from '../core/types';
+types.register(richTextType);
+
+export default richTextType;
@@ -22,9 +22,25 @@
  *
  *   OT figures out that after A's insert at pos 1, B's position 3
  *   should become position 4 (shifted by 1).
+ *
+ * Conflicts between an insert and a delete:
+ * - An insert at either edge of a concurrently deleted range survives.
+ * - An insert strictly inside a concurrently deleted range is deleted
+ *   along with it. A delete covers one contiguous range, so it can't
+ *   step around the inserted text; deleting it too is the only way both
+ *   clients end up with the same document.
+ *
+ * Positions and counts are in Unicode code points, not UTF-16 code
+ * units (which is what String.length and String.slice use). An emoji
+ * like '😀' is one position, so no op can split it in half, and clients
+ * agree on positions whatever their string representation. Combining
+ * marks are code points of their own: 'e\u0301' ("é") is two positions.
+ * In JavaScript, `Array.from(text).length` gives the length in these
+ * units.
  */
 
-import { OTType } from '../core/types';
+import { OTType, CursorRange } from '../core/types';
+import { OTError, ERROR_CODES } from '../core/error';
 
 /** Text snapshot is a string */
 export type TextSnapshot = string;
@@ -36,11 +52,17 @@ export interface InsertOp {
   text: string;
 }
 
-/** Delete operation: delete characters starting at a position */
+/**
+ * Delete operation: delete characters starting at a position
+ *
+ * `text` optionally records the deleted characters. It is what makes
+ * the delete invertible, and when present it must match the document.
+ */
 export interface DeleteOp {
   type: 'delete';
   pos: number;
   count: number;
+  text?: string;
 }
 
 /** Text operation: either insert or delete */
@@ -56,6 +78,48 @@ export function isDeleteOp(op: TextOp): op is DeleteOp {
   return op.type === 'delete';
 }
 
+/** Throw a BADLY_FORMED error about a field of a text op */
+function badField(field: string, message: string): never {
+  throw new OTError(ERROR_CODES.ERR_OT_OP_BADLY_FORMED, `Text op field '${field}' ${message}`);
+}
+
+function isNonNegativeInteger(value: unknown): boolean {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0;
+}
+
+/** Matches half of a surrogate pair without its other half */
+const LONE_SURROGATE = /[\uD800-\uDBFF](?![\uDC00-\uDFFF])|(?<![\uD800-\uDBFF])[\uDC00-\uDFFF]/;
+
+/** Length of a string in code points */
+function textLength(text: string): number {
+  let length = 0;
+  for (const _ of text) length++;
+  return length;
+}
+
+/** Slice a string by code point positions */
+function sliceText(text: string, start: number, end?: number): string {
+  return Array.from(text).slice(start, end).join('');
+}
+
+/**
+ * Fill in the deleted text of a delete op, so it can be inverted exactly.
+ *
+ * @param op - Operation to make invertible
+ * @param snapshot - The text the op applies to
+ * @returns A copy of op; deletes record the text they remove
+ *
+ * Example:
+ *   makeInvertible({type: 'delete', pos: 1, count: 2}, "hello")
+ *   => {type: 'delete', pos: 1, count: 2, text: 'el'}
+ */
+export function makeInvertible(op: TextOp, snapshot: TextSnapshot): TextOp {
+  if (isInsertOp(op)) {
+    return { ...op };
+  }
+  return { ...op, text: sliceText(snapshot, op.pos, op.pos + op.count) };
+}
+
 /**
  * Simple Text OT Type implementation
  */
@@ -86,17 +150,36 @@ export const textType: OTType<TextSnapshot, TextOp> = {
    * Examples:
    *   apply("hello", {type: 'insert', pos: 1, text: 'X'}) => "hXello"
    *   apply("hello", {type: 'delete', pos: 1, count: 2}) => "hlo"
+   *   apply("hello", {type: 'delete', pos: 1, count: 2, text: 'xy'}) => throws
+   *   apply("hello", {type: 'insert', pos: 9, text: 'X'}) => throws
+   *   apply("a😀b", {type: 'delete', pos: 1, count: 1}) => "ab"
    */
   apply(snapshot: TextSnapshot, op: TextOp): TextSnapshot {
+    const chars = Array.from(snapshot);
+
     if (isInsertOp(op)) {
+      if (op.pos > chars.length) {
+        badField('pos', `is past the end of the document (${op.pos} > ${chars.length})`);
+      }
       // Insert text at position
-      const before = snapshot.slice(0, op.pos);
-      const after = snapshot.slice(op.pos);
+      const before = chars.slice(0, op.pos).join('');
+      const after = chars.slice(op.pos).join('');
       return before + op.text + after;
     } else {
       // Delete characters at position
-      const before = snapshot.slice(0, op.pos);
-      const after = snapshot.slice(op.pos + op.count);
+      if (op.pos + op.count > chars.length) {
+        badField('count', `runs past the end of the document (${op.pos + op.count} > ${chars.length})`);
+      }
+      if (op.text !== undefined) {
+        if (textLength(op.text) !== op.count) {
+          throw new OTError(ERROR_CODES.ERR_OT_OP_BADLY_FORMED, 'Delete text length does not match count');
+        }
+        if (chars.slice(op.pos, op.pos + op.count).join('') !== op.text) {
+          throw new OTError(ERROR_CODES.ERR_OT_OP_NOT_APPLIED, 'Deleted text does not match the document');
+        }
+      }
+      const before = chars.slice(0, op.pos).join('');
+      const after = chars.slice(op.pos + op.count).join('');
       return before + after;
     }
   },
@@ -107,7 +190,8 @@ export const textType: OTType<TextSnapshot, TextOp> = {
    * This is where the OT magic happens!
    *
    * The key insight is: if op2 inserted or deleted characters before
-   * op1's position, we need to adjust op1's position.
+   * op1's position, we need to adjust op1's position. An insert inside a
+   * concurrently deleted range is deleted too (see the module comment).
    *
    * @param op1 - Operation to transform
    * @param op2 - Operation that was already applied
@@ -127,12 +211,33 @@ export const textType: OTType<TextSnapshot, TextOp> = {
 
     if (isInsertOp(op2)) {
       // op2 is an insert
-      // If op2 inserts before our position, shift our position right
-      // If op2 inserts at the same position, use 'side' to break the tie
-      const insertedLength = op2.text.length;
+      const insertedLength = textLength(op2.text);
+
+      if (isInsertOp(result)) {
+        // If op2 inserts before our position, shift our position right
+        // If op2 inserts at the same position, use 'side' to break the tie
+        if (op2.pos < result.pos || (op2.pos === result.pos && side === 'right')) {
+          result.pos += insertedLength;
+        }
+      } else {
+        // Our op is a delete
+        // If op2 inserts at or before our start, shift right (side doesn't
+        // matter: the inserted text was never part of what we delete)
+        // If op2 inserts strictly inside our range, we delete it too. A
+        // single delete can't skip over it, so the insert is swallowed
+        // (see the insert vs delete case below, which drops it).
+        const ourStart = result.pos;
+        const ourEnd = result.pos + result.count;
 
-      if (op2.pos < result.pos || (op2.pos === result.pos && side === 'right')) {
-        result.pos += insertedLength;
+        if (op2.pos <= ourStart) {
+          result.pos += insertedLength;
+        } else if (op2.pos < ourEnd) {
+          result.count += insertedLength;
+          if (result.text !== undefined) {
+            const offset = op2.pos - ourStart;
+            result.text = sliceText(result.text, 0, offset) + op2.text + sliceText(result.text, offset);
+          }
+        }
       }
     } else {
       // op2 is a delete
@@ -142,11 +247,14 @@ export const textType: OTType<TextSnapshot, TextOp> = {
       if (isInsertOp(result)) {
         // Our op is an insert
         // If delete is entirely before our position, shift left
-        // If delete overlaps our position, we insert at the delete position
+        // If delete surrounds our position, our text was inserted into a
+        // range that no longer exists: it becomes a no-op at the delete
+        // position (op2, transformed against us, deletes it too). The
+        // no-op is an empty delete, since inserts must have text.
         if (deleteEnd <= result.pos) {
           result.pos -= op2.count;
         } else if (deleteStart < result.pos) {
-          result.pos = deleteStart;
+          return { type: 'delete', pos: deleteStart, count: 0, text: '' };
         }
       } else {
         // Our op is also a delete
@@ -162,7 +270,9 @@ export const textType: OTType<TextSnapshot, TextOp> = {
           // op2's delete is entirely after ours, no change needed
         } else {
           // Overlapping deletes - reduce our count by the overlap
-          // and adjust position if needed
+          // and adjust position if needed. The recorded text (if any)
+          // loses exactly the characters op2 already deleted.
+          const text = result.text;
 
           if (deleteStart <= ourStart) {
             // op2 starts before or at our start
@@ -170,11 +280,13 @@ export const textType: OTType<TextSnapshot, TextOp> = {
               // op2 completely covers our delete, our delete becomes no-op
               result.pos = deleteStart;
               result.count = 0;
+              if (text !== undefined) result.text = '';
             } else {
               // op2 overlaps the beginning of our delete
               const overlap = deleteEnd - ourStart;
               result.pos = deleteStart;
               result.count -= overlap;
+              if (text !== undefined) result.text = sliceText(text, overlap);
             }
           } else {
             // op2 starts inside our delete
@@ -182,9 +294,13 @@ export const textType: OTType<TextSnapshot, TextOp> = {
               // op2 overlaps the end of our delete
               const overlap = ourEnd - deleteStart;
               result.count -= overlap;
+              if (text !== undefined) result.text = sliceText(text, 0, deleteStart - ourStart);
             } else {
               // op2 is entirely inside our delete
               result.count -= op2.count;
+              if (text !== undefined) {
+                result.text = sliceText(text, 0, deleteStart - ourStart) + sliceText(text, deleteEnd - ourStart);
+              }
             }
           }
         }
@@ -197,28 +313,186 @@ export const textType: OTType<TextSnapshot, TextOp> = {
   /**
    * Invert a text operation (for undo).
    *
-   * Note: For delete operations, we would need the original text
-   * to create a proper inverse. This simplified version assumes
-   * we're using a placeholder.
+   * The inverse of a delete re-inserts the deleted text, so the delete
+   * must record it (see makeInvertible).
+   *
+   * @throws OTError if a delete does not record its text
    */
   invert(op: TextOp): TextOp {
     if (isInsertOp(op)) {
-      // Inverse of insert is delete
+      // Inverse of insert is delete (of exactly the inserted text)
       return {
         type: 'delete',
         pos: op.pos,
-        count: op.text.length,
+        count: textLength(op.text),
+        text: op.text,
       };
     } else {
-      // Inverse of delete is insert (but we need the deleted text!)
-      // In a real implementation, the op would include the deleted text
-      // For now, we'll use a placeholder
+      // Inverse of delete is insert of the deleted text
+      if (op.text === undefined) {
+        throw new OTError(
+          ERROR_CODES.ERR_OT_OP_BADLY_FORMED,
+          'Cannot invert a delete without its text; use makeInvertible first'
+        );
+      }
       return {
         type: 'insert',
         pos: op.pos,
-        text: '?'.repeat(op.count), // Placeholder - real impl needs deleted text
+        text: op.text,
+      };
+    }
+  },
+
+  /**
+   * Normalize a text operation.
+   *
+   * There are two ways to write a text op that does nothing: inserting
+   * '' and deleting 0 characters. Both become an empty delete, which is
+   * the form transform produces.
+   *
+   * @param op - Operation to normalize
+   * @returns Normalized copy of op
+   *
+   * Example:
+   *   normalize({type: 'insert', pos: 2, text: ''})
+   *   => {type: 'delete', pos: 2, count: 0, text: ''}
+   */
+  normalize(op: TextOp): TextOp {
+    if (isInsertOp(op) && op.text.length === 0) {
+      return { type: 'delete', pos: op.pos, count: 0, text: '' };
+    }
+    return { ...op };
+  },
+
+  /**
+   * An empty delete (or insert) does nothing.
+   *
+   * @param op - Operation to check
+   * @returns true if op leaves the text unchanged
+   */
+  isNoop(op: TextOp): boolean {
+    return isInsertOp(op) ? op.text.length === 0 : op.count === 0;
+  },
+
+  /**
+   * Check that an op is a well formed insert or delete.
+   *
+   * Positions must be non-negative integers, inserts must insert
+   * something, and deletes must delete a non-negative number of
+   * characters. Text must be valid UTF-16: a lone half of a surrogate
+   * pair is not a code point, and would merge with its neighbours.
+   * Whether positions fit in the document is checked by apply, since
+   * the op may be against an older version.
+   *
+   * @param op - Operation to check
+   * @throws OTError naming the field that is wrong
+   *
+   * Examples:
+   *   validate({type: 'insert', pos: 0, text: 'a'}) // ok
+   *   validate({type: 'insert', pos: -5, text: 'a'}) // throws: 'pos'
+   *   validate({type: 'delete', pos: 0, count: -1}) // throws: 'count'
+   */
+  validate(op: unknown): void {
+    if (op == null || typeof op !== 'object') {
+      throw new OTError(ERROR_CODES.ERR_OT_OP_BADLY_FORMED, 'Text op must be an object');
+    }
+    const { type, pos, text, count } = op as Record<string, unknown>;
+
+    if (type !== 'insert' && type !== 'delete') {
+      badField('type', "must be 'insert' or 'delete'");
+    }
+    if (!isNonNegativeInteger(pos)) {
+      badField('pos', 'must be a non-negative integer');
+    }
+
+    if (type === 'insert') {
+      if (typeof text !== 'string' || text.length === 0) {
+        badField('text', 'must be a non-empty string');
+      }
+    } else {
+      if (!isNonNegativeInteger(count)) {
+        badField('count', 'must be a non-negative integer');
+      }
+      if (text === undefined) return;
+      if (typeof text !== 'string') {
+        badField('text', 'must be a string');
+      }
+      if (textLength(text) !== count) {
+        badField('text', `must be ${count} code points long`);
+      }
+    }
+    if (LONE_SURROGATE.test(text)) {
+      badField('text', 'must not contain unpaired surrogates');
+    }
+  },
+
+  /**
+   * Move a cursor position through an operation.
+   *
+   * Text inserted before the cursor pushes it right, and text deleted
+   * before it pulls it left. A cursor inside a deleted range ends up at
+   * the start of the range.
+   *
+   * An insert exactly at the cursor is the one ambiguous case. If we
+   * typed it, the cursor should end up after the new text. If someone
+   * else typed it, our cursor stays where it was.
+   *
+   * @param cursor - Cursor position before the op
+   * @param op - Operation that was applied
+   * @param isOwnOp - true if the cursor's owner made the op
+   * @returns Cursor position after the op
+   *
+   * Examples:
+   *   transformCursor(3, {type: 'insert', pos: 1, text: 'XY'}, false) => 5
+   *   transformCursor(3, {type: 'insert', pos: 3, text: 'XY'}, true) => 5
+   *   transformCursor(3, {type: 'insert', pos: 3, text: 'XY'}, false) => 3
+   *   transformCursor(3, {type: 'delete', pos: 1, count: 4}, false) => 1
+   */
+  transformCursor(cursor: number, op: TextOp, isOwnOp: boolean): number {
+    if (isInsertOp(op)) {
+      if (op.pos < cursor || (op.pos === cursor && isOwnOp)) {
+        return cursor + textLength(op.text);
+      }
+      return cursor;
+    } else {
+      if (op.pos + op.count <= cursor) {
+        return cursor - op.count;
+      }
+      return Math.min(cursor, op.pos);
+    }
+  },
+
+  /**
+   * Move a selection through an operation.
+   *
+   * A collapsed selection is just a cursor. A non-empty selection
+   * should not grow to swallow text someone else typed right at its
+   * edges, so for remote ops an insert at the lower end pushes that end
+   * right while an insert at the upper end leaves it alone.
+   *
+   * @param selection - Selection before the op
+   * @param op - Operation that was applied
+   * @param isOwnOp - true if the selection's owner made the op
+   * @returns Selection after the op
+   *
+   * Example:
+   *   transformSelection({start: 2, end: 4}, {type: 'insert', pos: 2, text: 'X'}, false)
+   *   => {start: 3, end: 5}
+   */
+  transformSelection(selection: CursorRange, op: TextOp, isOwnOp: boolean): CursorRange {
+    if (isOwnOp || selection.start === selection.end) {
+      return {
+        start: textType.transformCursor!(selection.start, op, isOwnOp),
+        end: textType.transformCursor!(selection.end, op, isOwnOp),
       };
     }
+
+    // The lower end treats a tie like its own insert (moves past it)
+    const startIsLower = selection.start < selection.end;
+    return {
+      start: textType.transformCursor!(selection.start, op, startIsLower),
+      end: textType.transformCursor!(selection.end, op, !startIsLower),
+    };
   },
 };
 
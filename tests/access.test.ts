@@ -0,0 +1,183 @@
+/**
+ * Tests for the access control middleware
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Backend } from '../src/server/backend';
+import { Doc } from '../src/client/doc';
+import { OTError, ERROR_CODES } from '../src/core/error';
+import { useAccessControl } from '../src/server/access';
+import { counterType } from '../src/types/counter';
+import { jsonType } from '../src/types/json';
+import { createClientServerPair, waitFor } from './helpers';
+
+describe('Access Control', () => {
+  let backend: Backend;
+
+  beforeEach(async () => {
+    backend = new Backend();
+    backend.use('connect', (context) => {
+      context.agent!.custom.userId = (context.req as { userId: string }).userId;
+    });
+    useAccessControl(backend, {
+      notes: {
+        read: ({ agent, snapshot }) => !snapshot.type || (snapshot.data as any).owner === agent.custom.userId,
+        create: ({ agent, op }) => (op as any).create.data.owner === agent.custom.userId,
+        edit: ({ agent, snapshot, op }) =>
+          (snapshot.data as any).owner === agent.custom.userId &&
+          (op as any).op.every((c: any) => c.p[0] !== 'owner'),
+      },
+    });
+    // Server code isn't checked
+    await backend.submit('notes', 'alice-note', {
+      create: { type: jsonType.uri, data: { owner: 'alice', text: 'hi' } },
+    });
+    await backend.submit('secrets', 'key', { create: { type: counterType.uri, data: 42 } });
+  });
+
+  it('should let owners read and edit their documents', async () => {
+    const { connection } = createClientServerPair(backend, { userId: 'alice' });
+    const doc = connection.get('notes', 'alice-note');
+    await new Promise<void>((resolve) => doc.subscribe(() => resolve()));
+
+    const error = await new Promise<Error | undefined>((resolve) =>
+      doc.submitOp([{ p: ['text'], od: 'hi', oi: 'hello' }], resolve)
+    );
+    expect(error).toBeUndefined();
+    expect((await backend.getSnapshot('notes', 'alice-note')).data).toEqual({ owner: 'alice', text: 'hello' });
+  });
+
+  it('should deny reads without sending the snapshot', async () => {
+    const agent = backend.createAgent({ userId: 'bob' });
+    const sent: any[] = [];
+    agent.bindSend((message) => sent.push(message));
+
+    await agent.handleMessage({ a: 's', c: 'notes', d: 'alice-note' });
+    await agent.handleMessage({ a: 'f', c: 'notes', d: 'alice-note' });
+    await agent.handleMessage({ a: 'f', c: 'secrets', d: 'key' });
+
+    expect(sent.map((message) => [message.a, message.error?.code, 'data' in message])).toEqual([
+      ['hs', undefined, false],
+      ['s', 'ERR_ACCESS_DENIED', false],
+      ['f', 'ERR_ACCESS_DENIED', false],
+      ['f', 'ERR_ACCESS_DENIED', false],
+    ]);
+    expect(agent.isSubscribed('notes', 'alice-note')).toBe(false);
+  });
+
+  it('should leave documents the client may not read out of query results', async () => {
+    await backend.submit('notes', 'bob-note', { create: { type: jsonType.uri, data: { owner: 'bob', text: 'yo' } } });
+    const { connection } = createClientServerPair(backend, { userId: 'bob' });
+
+    const fetched = await new Promise<Doc[]>((resolve, reject) =>
+      connection.createFetchQuery('notes', {}, (err, results) => (err ? reject(err) : resolve(results!)))
+    );
+    expect(fetched.map((doc) => doc.id)).toEqual(['bob-note']);
+
+    const query = connection.createSubscribeQuery('notes', { sort: { text: 1 } });
+    const errors: unknown[] = [];
+    query.on('error', (error) => errors.push(error));
+    await new Promise((resolve) => query.on('ready', resolve));
+    expect(query.results.map((doc) => doc.id)).toEqual(['bob-note']);
+
+    // Later runs still work, and pick up a note once it can be read
+    await backend.submit('notes', 'alice-note', { v: 1, op: [{ p: ['owner'], od: 'alice', oi: 'bob' }] });
+    await waitFor(() => query.results.length === 2);
+    expect(query.results.map((doc) => doc.id)).toEqual(['alice-note', 'bob-note']);
+    expect(errors).toEqual([]);
+  });
+
+  it('should decide creates and edits on the op content', async () => {
+    const agent = backend.createAgent({ userId: 'alice' });
+    const sent: any[] = [];
+    agent.bindSend((message) => sent.push(message));
+    const submit = (d: string, v: number, seq: number, op: object) =>
+      agent.handleMessage({ a: 'op', c: 'notes', d, v, src: agent.clientId, seq, ...op });
+
+    // Alice can't create a note owned by someone else, or give hers away
+    await submit('n2', 0, 1, { create: { type: jsonType.uri, data: { owner: 'bob' } } });
+    await submit('alice-note', 1, 2, { op: [{ p: ['owner'], od: 'alice', oi: 'bob' }] });
+    // Nobody may delete notes: there is no delete rule
+    await submit('alice-note', 1, 3, { del: true });
+
+    expect(sent.slice(1).map((message) => [message.seq, message.error?.code])).toEqual([
+      [1, 'ERR_ACCESS_DENIED'],
+      [2, 'ERR_ACCESS_DENIED'],
+      [3, 'ERR_ACCESS_DENIED'],
+    ]);
+    expect((await backend.getSnapshot('notes', 'alice-note')).v).toBe(1);
+    expect((await backend.getSnapshot('notes', 'n2')).type).toBeNull();
+  });
+
+  it('should check edit rights on edits that do nothing', async () => {
+    const agent = backend.createAgent({ userId: 'bob' });
+    const sent: any[] = [];
+    agent.bindSend((message) => sent.push(message));
+
+    // Adding 0 leaves the counter as it is, but bob still may not edit it
+    await agent.handleMessage({ a: 'op', c: 'secrets', d: 'key', v: 1, src: agent.clientId, seq: 1, op: 0 });
+
+    expect(sent.slice(1).map((message) => [message.seq, message.error?.code])).toEqual([[1, 'ERR_ACCESS_DENIED']]);
+  });
+
+  it('should stop relaying ops once an edit takes read access away', async () => {
+    await backend.submit('notes', 'bob-note', { create: { type: jsonType.uri, data: { owner: 'bob', text: 'hi' } } });
+    const { agent, connection } = createClientServerPair(backend, { userId: 'bob' });
+    const doc = connection.get('notes', 'bob-note');
+    await new Promise<void>((resolve) => doc.subscribe(() => resolve()));
+    const errors: OTError[] = [];
+    doc.on('error', (error) => errors.push(error));
+
+    // Server code hands the note to alice, then alice edits it
+    await backend.submit('notes', 'bob-note', { v: 1, op: [{ p: ['owner'], od: 'bob', oi: 'alice' }] });
+    await backend.submit('notes', 'bob-note', { v: 2, op: [{ p: ['text'], od: 'hi', oi: 'secret' }] });
+    await waitFor(() => errors.length > 0);
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    expect(errors.map((error) => error.code)).toEqual([ERROR_CODES.ERR_ACCESS_DENIED]);
+    expect(doc.data).toEqual({ owner: 'bob', text: 'hi' });
+    expect(agent.isSubscribed('notes', 'bob-note')).toBe(false);
+  });
+
+  it('should deny a query-watched document once, however many ops follow', async () => {
+    const agent = backend.createAgent({ userId: 'alice' });
+    const sent: any[] = [];
+    agent.bindSend((message) => sent.push(message));
+    await agent.handleMessage({ a: 'qs', id: 1, c: 'notes', q: {} });
+
+    // A slow database: the query still holds the note while both ops are relayed
+    const query = backend.query.bind(backend);
+    vi.spyOn(backend, 'query').mockImplementation(async (collection, expression) => {
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      return query(collection, expression);
+    });
+
+    agent.custom.userId = 'bob';
+    await backend.submit('notes', 'alice-note', { v: 1, op: [{ p: ['text'], od: 'hi', oi: 'one' }] });
+    await backend.submit('notes', 'alice-note', { v: 2, op: [{ p: ['text'], od: 'one', oi: 'two' }] });
+    await waitFor(() => sent.some((message) => message.a === 'q'));
+
+    const ops = sent.filter((message) => message.a === 'op');
+    expect(ops.map((message) => message.error?.code)).toEqual([ERROR_CODES.ERR_ACCESS_DENIED]);
+  });
+
+  it('should not relay presence to a subscriber that lost read access', async () => {
+    const { connection } = createClientServerPair(backend, { userId: 'alice' });
+    const doc = connection.get('notes', 'alice-note');
+    await new Promise<void>((resolve) => doc.subscribe(() => resolve()));
+
+    const reader = backend.createAgent({ userId: 'alice' });
+    const sent: any[] = [];
+    reader.bindSend((message) => sent.push(message));
+    await reader.handleMessage({ a: 's', c: 'notes', d: 'alice-note' });
+
+    doc.submitPresence(1);
+    await waitFor(() => sent.some((message) => message.a === 'p'));
+
+    reader.custom.userId = 'bob';
+    doc.submitPresence(2);
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    expect(sent.filter((message) => message.a === 'p').map((message) => message.p)).toEqual([1]);
+  });
+});
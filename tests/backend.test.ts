@@ -0,0 +1,239 @@
+/**
+ * Tests for the backend: type registries, commit metadata, snapshots
+ * and submits made from server code
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Backend } from '../src/server/backend';
+import { MemoryDb } from '../src/server/memory-db';
+import { Connection, Message } from '../src/client/connection';
+import { TypeRegistry } from '../src/core/types';
+import { counterType } from '../src/types/counter';
+import { textType } from '../src/types/text';
+import { createClientServerPair, waitFor } from './helpers';
+
+describe('Backend', () => {
+  describe('Scoped Type Registries', () => {
+    it('should keep the types of separate backends apart', async () => {
+      const counterOnly = new Backend({ types: new TypeRegistry([counterType]) });
+      const textOnly = new Backend({ types: new TypeRegistry([textType]) });
+
+      await counterOnly.submit('test', 'doc1', { create: { type: 'counter', data: 1 } });
+      await textOnly.submit('test', 'doc1', { create: { type: 'simple-text', data: 'hi' } });
+
+      await expect(
+        counterOnly.submit('test', 'doc2', { create: { type: 'simple-text', data: 'hi' } })
+      ).rejects.toMatchObject({ code: 'ERR_DOC_TYPE_NOT_RECOGNIZED' });
+      await expect(
+        textOnly.submit('test', 'doc2', { create: { type: 'counter', data: 1 } })
+      ).rejects.toMatchObject({ code: 'ERR_DOC_TYPE_NOT_RECOGNIZED' });
+    });
+
+    it('should look up doc types in the connection registry', () => {
+      const connection = new Connection({ types: new TypeRegistry([textType]) });
+      const doc = connection.get('test', 'doc1');
+      let error: Error | undefined;
+      doc.create('counter', 1, (err) => (error = err));
+      expect(error?.message).toBe('Unknown type: counter');
+    });
+  });
+
+  describe('Commit Metadata', () => {
+    it('should keep ctime and mtime on the snapshot', async () => {
+      let now = 1000;
+      const backend = new Backend({ clock: () => now });
+
+      await backend.submit('test', 'doc1', { create: { type: counterType.uri, data: 0 } });
+      now = 2000;
+      await backend.submit('test', 'doc1', { op: 1, v: 1 });
+
+      const snapshot = await backend.getSnapshot('test', 'doc1');
+      expect(snapshot.m).toEqual({ ctime: 1000, mtime: 2000 });
+    });
+
+    it('should record the commit time and custom metadata on the op', async () => {
+      const backend = new Backend({ clock: () => 1000 });
+
+      await backend.submit('test', 'doc1', { create: { type: counterType.uri, data: 0 } }, {
+        metadata: { reason: 'import', ts: 0 },
+      });
+
+      const [op] = await backend.getOps('test', 'doc1', 0);
+      expect(op.m).toEqual({ reason: 'import', ts: 1000 });
+    });
+
+    it('should record the client ID of the submitting agent', async () => {
+      const { backend, agent, connection } = createClientServerPair();
+      const doc = connection.get('test', 'doc1');
+
+      await new Promise<void>((resolve) => doc.subscribe(() => resolve()));
+      doc.create('counter', 0);
+      await waitFor(() => doc.version === 1);
+
+      const [op] = await backend.getOps('test', 'doc1', 0);
+      expect(op.m?.clientId).toBe(agent.clientId);
+      expect(op.m?.ts).toEqual(expect.any(Number));
+    });
+  });
+
+  describe('Historical Snapshots', () => {
+    let now: number;
+    let backend: Backend;
+
+    beforeEach(async () => {
+      now = 1000;
+      backend = new Backend({ clock: () => now });
+      await backend.submit('test', 'doc1', { create: { type: textType.uri, data: 'hi' } });
+      now = 2000;
+      await backend.submit('test', 'doc1', { op: { type: 'insert', pos: 2, text: '!' }, v: 1 });
+      now = 3000;
+      await backend.submit('test', 'doc1', { op: { type: 'insert', pos: 0, text: '>' }, v: 2 });
+    });
+
+    it('should rebuild a document at a version', async () => {
+      expect((await backend.fetchSnapshot('test', 'doc1', 0)).type).toBeNull();
+      expect(await backend.fetchSnapshot('test', 'doc1', 2)).toMatchObject({ v: 2, data: 'hi!' });
+      expect(await backend.fetchSnapshot('test', 'doc1', null)).toMatchObject({ v: 3, data: '>hi!' });
+    });
+
+    it('should reject a version newer than the document', async () => {
+      await expect(backend.fetchSnapshot('test', 'doc1', 4)).rejects.toMatchObject({
+        code: 'ERR_OP_VERSION_NEWER_THAN_CURRENT_SNAPSHOT',
+      });
+    });
+
+    it('should rebuild a document at a timestamp', async () => {
+      expect((await backend.fetchSnapshotByTimestamp('test', 'doc1', 500)).v).toBe(0);
+      expect(await backend.fetchSnapshotByTimestamp('test', 'doc1', 2500)).toMatchObject({ v: 2, data: 'hi!' });
+      expect(await backend.fetchSnapshotByTimestamp('test', 'doc1', 9000)).toMatchObject({ v: 3, data: '>hi!' });
+    });
+
+    it('should fetch historical snapshots over the wire', async () => {
+      const agent = backend.createAgent();
+      const connection = new Connection();
+      connection.bindToTransport({
+        send: (message) => setTimeout(() => agent.handleMessage(message), 0),
+        close: () => agent.close(),
+      });
+      agent.bindSend((message) => setTimeout(() => connection.handleMessage(message as Message), 0));
+
+      const fetch = (version: number) =>
+        new Promise<any>((resolve) => connection.fetchSnapshot('test', 'doc1', version, (err, snapshot) => resolve(err ?? snapshot)));
+
+      expect(await fetch(1)).toMatchObject({ v: 1, data: 'hi' });
+      expect(await fetch(9)).toMatchObject({ code: 'ERR_OP_VERSION_NEWER_THAN_CURRENT_SNAPSHOT' });
+
+      const byTime = await new Promise<any>((resolve) =>
+        connection.fetchSnapshotByTimestamp('test', 'doc1', 2000, (err, snapshot) => resolve(err ?? snapshot))
+      );
+      expect(byTime).toMatchObject({ v: 2, data: 'hi!' });
+    });
+  });
+
+  describe('Milestone Snapshots', () => {
+    /** Submit the same text edits to a backend, one per clock tick */
+    async function writeHistory(backend: Backend, setNow: (now: number) => void): Promise<void> {
+      setNow(0);
+      await backend.submit('test', 'doc1', { create: { type: textType.uri, data: '' } });
+      for (let v = 1; v <= 10; v++) {
+        setNow(v * 1000);
+        await backend.submit('test', 'doc1', { op: { type: 'insert', pos: 0, text: String(v % 10) }, v });
+      }
+    }
+
+    it('should give the same snapshots as a full replay', async () => {
+      let now = 0;
+      const replay = new Backend({ clock: () => now });
+      const milestones = new Backend({ db: new MemoryDb({ milestoneInterval: 3 }), clock: () => now });
+      await writeHistory(replay, (t) => (now = t));
+      await writeHistory(milestones, (t) => (now = t));
+
+      for (let v = 0; v <= 11; v++) {
+        expect(await milestones.fetchSnapshot('test', 'doc1', v)).toEqual(await replay.fetchSnapshot('test', 'doc1', v));
+      }
+      for (const ts of [0, 2500, 6000, 99999]) {
+        expect(await milestones.fetchSnapshotByTimestamp('test', 'doc1', ts)).toEqual(
+          await replay.fetchSnapshotByTimestamp('test', 'doc1', ts)
+        );
+      }
+    });
+
+    it('should start replaying from the nearest milestone below the version', async () => {
+      const db = new MemoryDb({ milestoneInterval: 3 });
+      const backend = new Backend({ db });
+      await writeHistory(backend, () => {});
+
+      const getOps = vi.spyOn(db, 'getOps');
+      expect(await backend.fetchSnapshot('test', 'doc1', 8)).toMatchObject({ v: 8, data: '7654321' });
+      expect(getOps).toHaveBeenCalledWith('test', 'doc1', 6, 8);
+    });
+
+    it('should use per-collection intervals', async () => {
+      const db = new MemoryDb({ milestoneInterval: 2, milestoneIntervals: { logs: 0 } });
+      const create = { create: { type: counterType.uri, data: 0 }, v: 0 };
+
+      await db.commit('test', 'doc1', create, { id: 'doc1', v: 2, type: counterType.uri, data: 0 });
+      await db.commit('logs', 'doc1', create, { id: 'doc1', v: 2, type: counterType.uri, data: 0 });
+
+      expect(await db.getMilestoneSnapshot('test', 'doc1', 5)).toMatchObject({ v: 2 });
+      expect(await db.getMilestoneSnapshot('logs', 'doc1', 5)).toBeNull();
+    });
+
+    it('should only store milestones for snapshots that were committed', async () => {
+      const db = new MemoryDb({ milestoneInterval: 1 });
+      const snapshot = { id: 'doc1', v: 1, type: counterType.uri, data: 0 };
+
+      // Wrong version: the optimistic lock rejects the commit
+      expect(await db.commit('test', 'doc1', { op: 1, v: 3 }, snapshot)).toBe(false);
+      expect(await db.getMilestoneSnapshot('test', 'doc1', 1)).toBeNull();
+
+      expect(await db.commit('test', 'doc1', { create: { type: counterType.uri, data: 0 }, v: 0 }, snapshot)).toBe(true);
+      expect(await db.getMilestoneSnapshot('test', 'doc1', 1)).toEqual(snapshot);
+    });
+  });
+
+  describe('Server-side Submits', () => {
+    it('should broadcast server ops to subscribed clients', async () => {
+      const { backend, connection } = createClientServerPair();
+      const doc = connection.get('counters', 'c1');
+      await new Promise<void>((resolve) => doc.subscribe(() => resolve()));
+
+      await backend.submit('counters', 'c1', { create: { type: counterType.uri, data: 0 } });
+      await backend.submit('counters', 'c1', { v: 1, op: 10 });
+      await backend.submit('counters', 'c1', { v: 1, op: 7 });
+      await waitFor(() => doc.version === 3);
+
+      expect(doc.data).toBe(17);
+    });
+
+    it('should keep client versions in step for later client ops', async () => {
+      const { backend, connection } = createClientServerPair();
+      const doc = connection.get('counters', 'c1');
+      await new Promise<void>((resolve) => doc.subscribe(() => resolve()));
+      doc.create(counterType.uri, 0);
+      await waitFor(() => doc.version === 1);
+
+      await backend.submit('counters', 'c1', { v: 1, op: 10 });
+      await waitFor(() => doc.version === 2);
+      const error = await new Promise((resolve) => doc.submitOp(5, resolve));
+
+      expect(error).toBeFalsy();
+      expect(doc.version).toBe(3);
+      expect((await backend.getSnapshot('counters', 'c1')).data).toBe(15);
+    });
+
+    it('should give server ops an identifiable source', async () => {
+      const backend = new Backend();
+      const { agent } = createClientServerPair(backend);
+
+      const first = await backend.submit('counters', 'c1', { create: { type: counterType.uri, data: 0 } });
+      const second = await backend.submit('counters', 'c1', { v: 1, op: 1 });
+      const own = await backend.submit('counters', 'c1', { v: 2, op: 1, src: 'importer', seq: 1 });
+
+      expect(first.op).toMatchObject({ src: `server:${backend.id}`, seq: 1 });
+      expect(second.op).toMatchObject({ src: `server:${backend.id}`, seq: 2 });
+      expect(own.op).toMatchObject({ src: 'importer', seq: 1 });
+      expect(first.op.src).not.toBe(agent.clientId);
+    });
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * Tests for the OT type conformance checker
+ *
+ * Runs the built-in types through the checker, and makes sure the
+ * checker itself catches a broken type.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { checkConformance, createRandom, ConformanceGenerators, Random } from '../src/core/conformance';
+import { OTType } from '../src/core/types';
+import { counterType, CounterOp, CounterSnapshot } from '../src/types/counter';
+import { textType, TextOp, TextSnapshot } from '../src/types/text';
+import { mapType, MapOp, MapSnapshot } from '../src/types/map';
+
+const counterGenerators: ConformanceGenerators<CounterSnapshot, CounterOp> = {
+  snapshot: (random, size) => random.int(size * 10 + 1) - size * 5,
+  op: (random, _snapshot, size) => random.int(size * 2 + 1) - size,
+};
+
+function randomText(random: Random, length: number): string {
+  let text = '';
+  for (let i = 0; i < length; i++) {
+    // Astral characters and combining marks check code point positions
+    text += random.pick(['a', 'b', 'c', '😀', '\u0301']);
+  }
+  return text;
+}
+
+const textGenerators: ConformanceGenerators<TextSnapshot, TextOp> = {
+  snapshot: (random, size) => randomText(random, random.int(size + 1)),
+  op: (random, snapshot) => {
+    const chars = Array.from(snapshot);
+    if (chars.length === 0 || random.next() < 0.5) {
+      return { type: 'insert', pos: random.int(chars.length + 1), text: randomText(random, random.int(3) + 1) };
+    }
+    const pos = random.int(chars.length);
+    const count = random.int(chars.length - pos) + 1;
+    // Record the deleted text so invert can be checked
+    return { type: 'delete', pos, count, text: chars.slice(pos, pos + count).join('') };
+  },
+};
+
+// Sets on a few keys, so concurrent ops often touch different keys
+const mapGenerators: ConformanceGenerators<MapSnapshot, MapOp> = {
+  snapshot: () => ({}),
+  op: (random) => [{ type: 'set', key: random.pick(['a', 'b', 'c']), value: random.int(10) }],
+};
+
+describe('Conformance Checker', () => {
+  describe('createRandom', () => {
+    it('should be deterministic for a seed', () => {
+      const a = createRandom(42);
+      const b = createRandom(42);
+      expect([a.next(), a.next(), a.int(10)]).toEqual([b.next(), b.next(), b.int(10)]);
+    });
+  });
+
+  describe('built-in types', () => {
+    it('counterType should satisfy all properties', () => {
+      const result = checkConformance(counterType, counterGenerators);
+      expect(result.checked).toEqual(['transform', 'compose', 'invert', 'normalize']);
+      expect(result.failure).toBeUndefined();
+    });
+
+    it('textType should satisfy all properties', () => {
+      const result = checkConformance(textType, textGenerators, { runs: 1000 });
+      expect(result.checked).toContain('invert');
+      expect(result.failure).toBeUndefined();
+    });
+  });
+
+  describe('document equality', () => {
+    it('should ignore the order of object keys', () => {
+      // Concurrent sets of different keys leave them in opposite orders
+      const result = checkConformance(mapType, mapGenerators);
+      expect(result.failure).toBeUndefined();
+    });
+  });
+
+  describe('broken types', () => {
+    // Text type that forgets to shift positions: diverges on concurrent inserts
+    const brokenTextType: OTType<TextSnapshot, TextOp> = {
+      ...textType,
+      transform: (op1) => op1,
+    };
+
+    it('should report a transform failure', () => {
+      const result = checkConformance(brokenTextType, textGenerators);
+      expect(result.failure?.property).toBe('transform');
+      expect(result.failure?.ops).toHaveLength(2);
+    });
+
+    it('should report the smallest failing case it finds', () => {
+      const result = checkConformance(brokenTextType, textGenerators, { maxSize: 20 });
+      // Two inserts into an empty document are enough to diverge
+      expect(result.failure?.snapshot).toBe('');
+    });
+
+    it('should report an op that throws as a failure', () => {
+      const throwingType: OTType<CounterSnapshot, CounterOp> = {
+        ...counterType,
+        compose: () => {
+          throw new Error('boom');
+        },
+      };
+      const result = checkConformance(throwingType, counterGenerators);
+      expect(result.failure?.property).toBe('compose');
+      expect(result.failure?.message).toContain('boom');
+    });
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * Tests for the connection handshake
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { Backend } from '../src/server/backend';
+import { Connection, Message, MessageType } from '../src/client/connection';
+import { Doc } from '../src/client/doc';
+import { TypeRegistry } from '../src/core/types';
+import { OTError, ERROR_CODES } from '../src/core/error';
+import { PROTOCOL_VERSION } from '../src/core/protocol';
+import { counterType } from '../src/types/counter';
+import { textType } from '../src/types/text';
+import { createClientServerPair, waitFor } from './helpers';
+
+describe('Handshake', () => {
+  it('should get the client ID, protocol and types from the server', async () => {
+    const backend = new Backend({ types: new TypeRegistry([counterType, textType]) });
+    const { agent, connection } = createClientServerPair(backend);
+    expect(connection.state).toBe('connecting');
+
+    await waitFor(() => connection.state === 'connected');
+    expect(connection.id).toBe(agent.clientId);
+    expect(connection.canSend).toBe(true);
+    expect(connection.serverTypes).toEqual([counterType.uri, textType.uri]);
+  });
+
+  it('should hold requests until the handshake arrives', async () => {
+    const backend = new Backend();
+    await backend.submit('test', 'doc1', { create: { type: 'counter', data: 3 } });
+    const agent = backend.createAgent();
+    const connection = new Connection();
+    const sent: Message[] = [];
+    connection.bindToTransport({
+      send(message) {
+        sent.push(message);
+        setTimeout(() => agent.handleMessage(message), 0);
+      },
+      close() {},
+    });
+
+    const doc = connection.get('test', 'doc1');
+    const subscribed = new Promise<void>((resolve) => doc.subscribe(() => resolve()));
+    const fetched = new Promise<any>((resolve) => connection.fetchSnapshot('test', 'doc1', null, (err, snapshot) => resolve(snapshot)));
+    const query = new Promise<Doc[] | undefined>((resolve) =>
+      connection.createFetchQuery('test', {}, (err, results) => resolve(results))
+    );
+    expect(sent).toEqual([]);
+
+    agent.bindSend((message) => setTimeout(() => connection.handleMessage(message as Message), 0));
+    await subscribed;
+    expect(doc.data).toBe(3);
+    expect((await fetched).data).toBe(3);
+    expect(sent.map((message) => message.a)).toEqual([
+      MessageType.SUBSCRIBE,
+      MessageType.SNAPSHOT_FETCH,
+      MessageType.QUERY_FETCH,
+    ]);
+    await query;
+  });
+
+  it('should refuse a server that speaks another protocol version', () => {
+    const connection = new Connection();
+    const transport = { send: vi.fn(), close: vi.fn() };
+    connection.bindToTransport(transport);
+    const errors: OTError[] = [];
+    connection.on('error', (error) => errors.push(error));
+
+    connection.handleMessage({ a: MessageType.HANDSHAKE, id: 'x1', protocol: PROTOCOL_VERSION + 1, types: [] });
+    expect(errors.map((error) => error.code)).toEqual([ERROR_CODES.ERR_PROTOCOL_VERSION_NOT_SUPPORTED]);
+    expect(errors[0].message).toContain(`protocol version ${PROTOCOL_VERSION + 1}`);
+    expect(connection.state).toBe('disconnected');
+    expect(connection.canSend).toBe(false);
+    expect(transport.close).toHaveBeenCalled();
+
+    connection.get('test', 'doc1').subscribe();
+    expect(transport.send).not.toHaveBeenCalled();
+  });
+
+  it('should not create docs with types the server does not support', async () => {
+    const { connection } = createClientServerPair(new Backend({ types: new TypeRegistry([textType]) }));
+    await waitFor(() => connection.state === 'connected');
+
+    const doc = connection.get('test', 'doc1');
+    let error: Error | undefined;
+    doc.create('counter', 1, (err) => (error = err));
+    expect(error?.message).toBe('Server does not support type: counter');
+  });
+});
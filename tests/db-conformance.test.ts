@@ -0,0 +1,44 @@
+/**
+ * Tests for the database adapter conformance checker
+ *
+ * Runs MemoryDb through the checker, and makes sure the checker itself
+ * catches a broken adapter.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { checkDbConformance } from '../src/server/db-conformance';
+import { MemoryDb } from '../src/server/memory-db';
+
+/** MemoryDb with the optimistic lock left out */
+class UnlockedDb extends MemoryDb {
+  private committed = new Map<string, number>();
+
+  async commit(...args: Parameters<MemoryDb['commit']>): Promise<boolean> {
+    const [collection, id, op, snapshot] = args;
+    const key = collection + '/' + id;
+    // Pretend the op was at the current version, whatever it says
+    const v = this.committed.get(key) ?? 0;
+    this.committed.set(key, v + 1);
+    return super.commit(collection, id, { ...op, v }, { ...snapshot, v: v + 1 });
+  }
+}
+
+describe('Database Conformance', () => {
+  it('MemoryDb should pass every check', async () => {
+    const result = await checkDbConformance(() => new MemoryDb());
+    expect(result.checked).toEqual(['empty', 'commit', 'snapshot', 'lock', 'concurrent', 'order', 'atomic', 'isolation', 'bulk']);
+    expect(result.failures).toEqual([]);
+  });
+
+  it('MemoryDb with milestones should pass every check', async () => {
+    const result = await checkDbConformance(() => new MemoryDb({ milestoneInterval: 1 }));
+    expect(result.failures).toEqual([]);
+  });
+
+  it('should report an adapter without an optimistic lock', async () => {
+    const result = await checkDbConformance(() => new UnlockedDb());
+    const failed = result.failures.map((failure) => failure.check);
+    expect(failed).toEqual(['lock', 'concurrent', 'atomic']);
+    expect(result.failures[0].message).toContain('succeeded when the document is at v=2');
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * Tests for client documents: no-op ops, tracked selections and
+ * catching up after an ack
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Backend } from '../src/server/backend';
+import { Connection } from '../src/client/connection';
+import { createClientServerPair, waitFor } from './helpers';
+
+describe('Doc', () => {
+  let backend: Backend;
+  let client1: Connection;
+  let client2: Connection;
+
+  beforeEach(() => {
+    backend = new Backend();
+    client1 = createClientServerPair(backend).connection;
+    client2 = createClientServerPair(backend).connection;
+  });
+
+  it('should ack ops that become no-ops without committing or broadcasting them', async () => {
+    const doc1 = client1.get('test', 'noop');
+    const doc2 = client2.get('test', 'noop');
+
+    await Promise.all([
+      new Promise<void>((resolve) => doc1.subscribe(() => resolve())),
+      new Promise<void>((resolve) => doc2.subscribe(() => resolve())),
+    ]);
+
+    doc1.create('simple-text', 'hello');
+    await waitFor(() => doc1.version === 1 && doc2.version === 1);
+
+    let remoteOps = 0;
+    doc1.on('op', (_op, source) => {
+      if (!source) remoteOps++;
+    });
+
+    // Both clients delete the same text; the second delete does nothing
+    const p1 = new Promise<void>((resolve) => doc1.submitOp({ type: 'delete', pos: 1, count: 3 }, () => resolve()));
+    const p2 = new Promise<void>((resolve) => doc2.submitOp({ type: 'delete', pos: 1, count: 3 }, () => resolve()));
+    await Promise.all([p1, p2]);
+
+    await waitFor(() => !doc1.hasWritePending() && !doc2.hasWritePending());
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    expect(doc1.data).toBe('ho');
+    expect(doc2.data).toBe('ho');
+    expect(doc1.version).toBe(2);
+    expect(doc2.version).toBe(2);
+    expect(remoteOps).toBe(0);
+
+    const ops = await backend.db.getOps('test', 'noop', 0, 10);
+    expect(ops).toHaveLength(2);
+  });
+
+  it('should not send ops that are no-ops to begin with', async () => {
+    const doc1 = client1.get('test', 'counter-noop');
+    await new Promise<void>((resolve) => doc1.subscribe(() => resolve()));
+    doc1.create('counter', 1);
+    await waitFor(() => doc1.version === 1);
+
+    await new Promise<void>((resolve) => doc1.submitOp(0, () => resolve()));
+    expect(doc1.hasWritePending()).toBe(false);
+    expect(doc1.version).toBe(1);
+  });
+
+  it('should move a tracked selection through local and remote ops', async () => {
+    const doc1 = client1.get('test', 'notes');
+    const doc2 = client2.get('test', 'notes');
+
+    await Promise.all([
+      new Promise<void>((resolve) => doc1.subscribe(() => resolve())),
+      new Promise<void>((resolve) => doc2.subscribe(() => resolve())),
+    ]);
+
+    doc1.create('simple-text', 'hello world');
+    await waitFor(() => doc1.version === 1 && doc2.version === 1);
+
+    // Client 1 selects "world"
+    const tracked = doc1.trackSelection({ start: 6, end: 11 });
+
+    // Local insert before the selection
+    doc1.submitOp({ type: 'insert', pos: 0, text: '> ' });
+    expect(tracked.selection).toEqual({ start: 8, end: 13 });
+    await waitFor(() => doc2.version === 2);
+
+    // Remote delete of "hello "
+    doc2.submitOp({ type: 'delete', pos: 2, count: 6 });
+    await waitFor(() => doc1.version === 3);
+    expect(doc1.data).toBe('> world');
+    expect(tracked.selection).toEqual({ start: 2, end: 7 });
+
+    tracked.stop();
+    doc1.submitOp({ type: 'insert', pos: 0, text: '!' });
+    expect(tracked.selection).toEqual({ start: 2, end: 7 });
+  });
+
+  it('should catch up an unsubscribed doc whose op was transformed', async () => {
+    const { backend, connection } = createClientServerPair();
+    const doc = connection.get('test', 'doc1');
+    await new Promise((resolve) => doc.create('simple-text', 'abc', resolve));
+    expect(doc.subscribed).toBe(false);
+
+    // The doc never hears of this op
+    await backend.submit('test', 'doc1', { v: 1, op: { type: 'insert', pos: 0, text: 'XY' } });
+    const error = await new Promise((resolve) => doc.submitOp({ type: 'insert', pos: 3, text: '!' }, resolve));
+
+    expect(error).toBeFalsy();
+    expect(doc.version).toBe(3);
+    expect(doc.data).toBe('XYabc!');
+    expect((await backend.getSnapshot('test', 'doc1')).data).toBe('XYabc!');
+  });
+
+  it('should catch up an unsubscribed doc whose op became a no-op', async () => {
+    const { backend, connection } = createClientServerPair();
+    const doc = connection.get('test', 'doc1');
+    await new Promise((resolve) => doc.create('simple-text', 'abc', resolve));
+
+    await backend.submit('test', 'doc1', { v: 1, op: { type: 'insert', pos: 3, text: 'Z' } });
+    await backend.submit('test', 'doc1', { v: 2, op: { type: 'delete', pos: 0, count: 3 } });
+    const error = await new Promise((resolve) => doc.submitOp({ type: 'delete', pos: 1, count: 1 }, resolve));
+
+    expect(error).toBeFalsy();
+    expect(doc.version).toBe(3);
+    expect(doc.data).toBe('Z');
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * Tests for the file-backed database
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FileDb } from '../src/server/file-db';
+import { checkDbConformance } from '../src/server/db-conformance';
+import { Backend } from '../src/server/backend';
+import { textType } from '../src/types/text';
+import '../src/types/counter';
+
+describe('FileDb', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'file-db-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  /** Write a text document with a few edits through a backend */
+  async function writeDoc(db: FileDb): Promise<void> {
+    const backend = new Backend({ db });
+    await backend.submit('notes', 'doc1', { create: { type: textType.uri, data: 'hello' } });
+    await backend.submit('notes', 'doc1', { op: { type: 'insert', pos: 5, text: ' world' }, v: 1 });
+    await backend.submit('notes', 'doc1', { op: { type: 'delete', pos: 0, count: 1, text: 'h' }, v: 2 });
+  }
+
+  it('should pass the database conformance checks', async () => {
+    let n = 0;
+    const result = await checkDbConformance(() => new FileDb({ dir: path.join(dir, String(n++)) }), {
+      reopen: (db) => new FileDb({ dir: (db as FileDb).dir }),
+    });
+    expect(result.failures).toEqual([]);
+  });
+
+  it('should append one JSON line per committed op', async () => {
+    await writeDoc(new FileDb({ dir }));
+
+    const lines = fs.readFileSync(path.join(dir, 'notes.ops.jsonl'), 'utf8').trim().split('\n');
+    expect(lines.map((line) => JSON.parse(line).v)).toEqual([0, 1, 2]);
+    // Every snapshot can be replayed, so there is nothing to checkpoint yet
+    expect(fs.existsSync(path.join(dir, 'notes.checkpoint.json'))).toBe(false);
+  });
+
+  it('should rebuild snapshots and ops after a restart', async () => {
+    const db = new FileDb({ dir });
+    await writeDoc(db);
+    const before = await db.getSnapshot('notes', 'doc1');
+
+    const reopened = new FileDb({ dir });
+    expect(await reopened.getSnapshot('notes', 'doc1')).toEqual(before);
+    expect(before).toMatchObject({ v: 3, data: 'ello world' });
+    expect(await reopened.getOps('notes', 'doc1', 0)).toEqual(await db.getOps('notes', 'doc1', 0));
+  });
+
+  it('should keep snapshots changed by commit middleware after a restart', async () => {
+    const db = new FileDb({ dir });
+    const backend = new Backend({ db });
+    backend.use('commit', (context) => {
+      context.snapshot!.m = { ...context.snapshot!.m, reviewed: true };
+    });
+    await backend.submit('notes', 'doc1', { create: { type: textType.uri, data: 'hello' } });
+    await backend.submit('notes', 'doc1', { op: { type: 'insert', pos: 5, text: '!' }, v: 1 });
+
+    // Only the create left a snapshot a replay can't give; the edit keeps the flag
+    const checkpoint = JSON.parse(fs.readFileSync(path.join(dir, 'notes.checkpoint.json'), 'utf8'));
+    expect(checkpoint.lines).toBe(1);
+
+    const reopened = new FileDb({ dir });
+    expect(await reopened.getSnapshot('notes', 'doc1')).toEqual(await db.getSnapshot('notes', 'doc1'));
+    expect((await reopened.getSnapshot('notes', 'doc1')).m).toMatchObject({ reviewed: true });
+  });
+
+  it('should replay only the ops after the last checkpoint', async () => {
+    const db = new FileDb({ dir, checkpointInterval: 2 });
+    await writeDoc(db);
+
+    const checkpoint = JSON.parse(fs.readFileSync(path.join(dir, 'notes.checkpoint.json'), 'utf8'));
+    expect(checkpoint.lines).toBe(2);
+    expect(checkpoint.snapshots[0]).toMatchObject({ v: 2, data: 'hello world' });
+
+    const reopened = new FileDb({ dir });
+    expect(await reopened.getSnapshot('notes', 'doc1')).toEqual(await db.getSnapshot('notes', 'doc1'));
+  });
+
+  it('should checkpoint on close', async () => {
+    const db = new FileDb({ dir });
+    await writeDoc(db);
+    await db.close();
+
+    const checkpoint = JSON.parse(fs.readFileSync(path.join(dir, 'notes.checkpoint.json'), 'utf8'));
+    expect(checkpoint.lines).toBe(3);
+  });
+
+  it('should drop a torn final line and keep appending after it', async () => {
+    await writeDoc(new FileDb({ dir }));
+    const log = path.join(dir, 'notes.ops.jsonl');
+    fs.appendFileSync(log, '{"op":{"type":"ins');
+
+    const reopened = new FileDb({ dir });
+    expect(await reopened.getSnapshot('notes', 'doc1')).toMatchObject({ v: 3, data: 'ello world' });
+
+    const backend = new Backend({ db: reopened });
+    await backend.submit('notes', 'doc1', { op: { type: 'insert', pos: 0, text: 'H' }, v: 3 });
+    expect(await new FileDb({ dir }).getSnapshot('notes', 'doc1')).toMatchObject({ v: 4, data: 'Hello world' });
+  });
+
+  it('should refuse a log that is corrupt before its last line', async () => {
+    fs.writeFileSync(path.join(dir, 'notes.ops.jsonl'), 'not json\n{}\n');
+    expect(() => new FileDb({ dir })).toThrow(expect.objectContaining({ code: 'ERR_DB_LOG_CORRUPT' }));
+  });
+
+  it('should keep the optimistic lock so concurrent submits retry', async () => {
+    const backend = new Backend({ db: new FileDb({ dir }) });
+    await backend.submit('counters', 'c1', { create: { type: 'counter', data: 0 } });
+
+    await Promise.all([1, 2, 3].map((n) => backend.submit('counters', 'c1', { op: n, v: 1 })));
+
+    const reopened = new FileDb({ dir });
+    expect(await reopened.getSnapshot('counters', 'c1')).toMatchObject({ v: 4, data: 6 });
+  });
+});
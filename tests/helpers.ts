@@ -0,0 +1,65 @@
+/**
+ * Shared fixtures for tests that run clients against a backend
+ */
+
+import { Backend, Agent } from '../src/server/backend';
+import { Connection, ConnectionOptions, Transport, Message } from '../src/client/connection';
+import '../src/types/counter';
+import '../src/types/text';
+import '../src/types/json';
+import '../src/types/list';
+import '../src/types/map';
+
+
+/**
+ * Creates a connected client-server pair using direct message passing
+ */
+export function createClientServerPair(backend = new Backend(), req?: unknown, options?: ConnectionOptions): {
+  backend: Backend;
+  agent: Agent;
+  connection: Connection;
+} {
+  const agent = backend.createAgent(req);
+  const connection = new Connection(options);
+
+  // Create a simple transport that passes messages directly
+  const transport: Transport = {
+    send(message: Message) {
+      // Client -> Server
+      setTimeout(() => agent.handleMessage(message), 0);
+    },
+    close() {
+      agent.close();
+    },
+  };
+
+  // Bind agent send to connection
+  agent.bindSend((message) => {
+    // Server -> Client
+    setTimeout(() => connection.handleMessage(message as Message), 0);
+  });
+
+  // The agent sends the handshake; docs wait for it before sending
+  connection.bindToTransport(transport);
+
+  return { backend, agent, connection };
+}
+
+/**
+ * Wait for a condition to be true
+ */
+export function waitFor(condition: () => boolean, timeout = 1000): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const start = Date.now();
+    const check = () => {
+      if (condition()) {
+        resolve();
+      } else if (Date.now() - start > timeout) {
+        reject(new Error('Timeout waiting for condition'));
+      } else {
+        setTimeout(check, 10);
+      }
+    };
+    check();
+  });
+}
@@ -9,74 +9,21 @@
 
 import { describe, it, expect, beforeEach } from 'vitest';
 import { Backend, Agent } from '../../src/server/backend';
-import { Connection, Transport, Message, MessageType } from '../../src/client/connection';
-import { Doc } from '../../src/client/doc';
+import { Connection, Transport, Message } from '../../src/client/connection';
 import { types } from '../../src/core/types';
 import { counterType } from '../../src/types/counter';
 import { textType } from '../../src/types/text';
+import { jsonType } from '../../src/types/json';
+import { listType } from '../../src/types/list';
+import { mapType } from '../../src/types/map';
+import { createClientServerPair, waitFor } from '../helpers';
 
 // Register types
 types.register(counterType);
 types.register(textType);
-
-/**
- * Creates a connected client-server pair using direct message passing
- */
-function createClientServerPair(): {
-  backend: Backend;
-  agent: Agent;
-  connection: Connection;
-} {
-  const backend = new Backend();
-  const agent = backend.createAgent();
-  const connection = new Connection();
-
-  // Create a simple transport that passes messages directly
-  const transport: Transport = {
-    send(message: Message) {
-      // Client -> Server
-      setTimeout(() => agent.handleMessage(message), 0);
-    },
-    close() {
-      agent.close();
-    },
-  };
-
-  // Bind agent send to connection
-  agent.bindSend((message) => {
-    // Server -> Client
-    setTimeout(() => connection.handleMessage(message as Message), 0);
-  });
-
-  connection.bindToTransport(transport);
-
-  // Simulate handshake
-  connection.handleMessage({
-    a: MessageType.HANDSHAKE,
-    id: agent.clientId,
-  });
-
-  return { backend, agent, connection };
-}
-
-/**
- * Wait for a condition to be true
- */
-function waitFor(condition: () => boolean, timeout = 1000): Promise<void> {
-  return new Promise((resolve, reject) => {
-    const start = Date.now();
-    const check = () => {
-      if (condition()) {
-        resolve();
-      } else if (Date.now() - start > timeout) {
-        reject(new Error('Timeout waiting for condition'));
-      } else {
-        setTimeout(check, 10);
-      }
-    };
-    check();
-  });
-}
+types.register(jsonType);
+types.register(listType);
+types.register(mapType);
 
 describe('Integration Tests', () => {
   describe('Basic Operations', () => {
@@ -170,7 +117,6 @@ describe('Integration Tests', () => {
       });
 
       client1.bindToTransport(transport1);
-      client1.handleMessage({ a: MessageType.HANDSHAKE, id: agent1.clientId });
 
       // Set up client 2
       agent2 = backend.createAgent();
@@ -190,7 +136,6 @@ describe('Integration Tests', () => {
       });
 
       client2.bindToTransport(transport2);
-      client2.handleMessage({ a: MessageType.HANDSHAKE, id: agent2.clientId });
     });
 
     it('should synchronize document creation', async () => {
@@ -266,6 +211,138 @@ describe('Integration Tests', () => {
       expect(doc1.data).toBe(doc2.data);
       expect(doc1.data).toBe(8);
     });
+
+    it('should converge when clients edit different fields of a JSON doc', async () => {
+      const doc1 = client1.get('test', 'record');
+      const doc2 = client2.get('test', 'record');
+
+      await Promise.all([
+        new Promise<void>((resolve) => doc1.subscribe(() => resolve())),
+        new Promise<void>((resolve) => doc2.subscribe(() => resolve())),
+      ]);
+
+      await new Promise<void>((resolve, reject) => {
+        doc1.create('json0', { title: 'Todo', items: ['a'] }, (err) => {
+          if (err) reject(err);
+          else resolve();
+        });
+      });
+
+      await waitFor(() => doc1.version === 1 && doc2.version === 1);
+
+      // Client 1 edits the title, client 2 inserts into the list
+      const p1 = new Promise<void>((resolve, reject) => {
+        doc1.submitOp([{ p: ['title', 4], si: 's' }], (err) => {
+          if (err) reject(err);
+          else resolve();
+        });
+      });
+
+      const p2 = new Promise<void>((resolve, reject) => {
+        doc2.submitOp([{ p: ['items', 0], li: 'b' }], (err) => {
+          if (err) reject(err);
+          else resolve();
+        });
+      });
+
+      await Promise.all([p1, p2]);
+
+      await waitFor(() => doc1.version! >= 3 && doc2.version! >= 3, 2000);
+
+      expect(doc1.data).toEqual(doc2.data);
+      expect(doc1.data).toEqual({ title: 'Todos', items: ['b', 'a'] });
+    });
+
+    it('should converge when one client moves a list item the other removes', async () => {
+      const doc1 = client1.get('test', 'column');
+      const doc2 = client2.get('test', 'column');
+
+      await Promise.all([
+        new Promise<void>((resolve) => doc1.subscribe(() => resolve())),
+        new Promise<void>((resolve) => doc2.subscribe(() => resolve())),
+      ]);
+
+      doc1.create('list', ['a', 'b', 'c']);
+      await waitFor(() => doc1.version === 1 && doc2.version === 1);
+
+      doc1.submitOp([{ type: 'move', from: 0, to: 2 }]);
+      doc1.submitOp([{ type: 'insert', index: 0, value: 'x' }]);
+      doc2.submitOp([{ type: 'remove', index: 0, value: 'a' }]);
+
+      await waitFor(() => doc1.version === 4 && doc2.version === 4, 2000);
+
+      expect(doc1.data).toEqual(doc2.data);
+      expect(doc1.data).toEqual(['x', 'b', 'c']);
+    });
+
+    it('should converge on concurrent writes and tallies in a map', async () => {
+      const doc1 = client1.get('test', 'settings');
+      const doc2 = client2.get('test', 'settings');
+
+      await Promise.all([
+        new Promise<void>((resolve) => doc1.subscribe(() => resolve())),
+        new Promise<void>((resolve) => doc2.subscribe(() => resolve())),
+      ]);
+
+      doc1.create('map', { theme: 'light' });
+      await waitFor(() => doc1.version === 1 && doc2.version === 1);
+
+      doc1.submitOp([{ type: 'set', key: 'theme', value: 'dark' }, { type: 'add', key: 'visits', amount: 1 }]);
+      doc2.submitOp([{ type: 'set', key: 'theme', value: 'blue' }, { type: 'add', key: 'visits', amount: 1 }]);
+
+      await waitFor(() => !doc1.hasWritePending() && !doc2.hasWritePending(), 2000);
+      await waitFor(() => doc1.version === 3 && doc2.version === 3);
+
+      expect(doc1.data).toEqual(doc2.data);
+      expect((doc1.data as Record<string, unknown>).visits).toBe(2);
+    });
+
+    it('should converge with several pending text ops per client', async () => {
+      const doc1 = client1.get('test', 'pending');
+      const doc2 = client2.get('test', 'pending');
+
+      await Promise.all([
+        new Promise<void>((resolve) => doc1.subscribe(() => resolve())),
+        new Promise<void>((resolve) => doc2.subscribe(() => resolve())),
+      ]);
+
+      doc1.create('simple-text', 'abc');
+      await waitFor(() => doc1.version === 1 && doc2.version === 1);
+
+      doc1.submitOp({ type: 'insert', pos: 3, text: 'X' });
+      doc1.submitOp({ type: 'insert', pos: 4, text: 'Y' });
+      doc2.submitOp({ type: 'insert', pos: 0, text: '1' });
+      doc2.submitOp({ type: 'insert', pos: 1, text: '2' });
+
+      await waitFor(() => doc1.version === 5 && doc2.version === 5, 2000);
+
+      expect(doc1.data).toBe(doc2.data);
+      expect(doc1.data).toBe('12abcXY');
+    });
+
+    it('should delete text inserted inside a concurrently deleted range', async () => {
+      const doc1 = client1.get('test', 'swallow');
+      const doc2 = client2.get('test', 'swallow');
+
+      await Promise.all([
+        new Promise<void>((resolve) => doc1.subscribe(() => resolve())),
+        new Promise<void>((resolve) => doc2.subscribe(() => resolve())),
+      ]);
+
+      doc1.create('simple-text', 'abcdef');
+      await waitFor(() => doc1.version === 1 && doc2.version === 1);
+
+      doc1.submitOp({ type: 'delete', pos: 1, count: 3 });
+      doc2.submitOp({ type: 'insert', pos: 2, text: 'X' });
+      doc2.submitOp({ type: 'insert', pos: 6, text: 'Y' });
+
+      // The swallowed insert is a no-op, so it isn't committed
+      await waitFor(() => !doc1.hasWritePending() && !doc2.hasWritePending() && doc1.version === doc2.version, 2000);
+
+      // X landed inside "bcd" and goes with it; Y, at the edge of "ef", survives
+      expect(doc1.data).toBe(doc2.data);
+      expect(doc1.data).toBe('aeYf');
+    });
   });
 
   describe('Server-side Transform', () => {
@@ -294,5 +371,43 @@ describe('Integration Tests', () => {
       expect(result.snapshot.data).toBe(15); // 0 + 10 + 5 = 15
       expect(result.snapshot.v).toBe(3);
     });
+
+    it('should reject a text delete whose recorded text does not match', async () => {
+      const backend = new Backend();
+
+      await backend.submit('test', 'doc1', {
+        create: { type: textType.uri, data: 'hello' },
+        v: 0,
+      });
+
+      await expect(
+        backend.submit('test', 'doc1', {
+          op: { type: 'delete', pos: 0, count: 2, text: 'xx' },
+          v: 1,
+        })
+      ).rejects.toThrow('Deleted text does not match');
+
+      const snapshot = await backend.getSnapshot('test', 'doc1');
+      expect(snapshot.data).toBe('hello');
+      expect(snapshot.v).toBe(1);
+    });
+
+    it('should reject a badly formed payload before transforming it', async () => {
+      const backend = new Backend();
+
+      await backend.submit('test', 'doc1', { create: { type: textType.uri, data: 'hello' } });
+      await backend.submit('test', 'doc1', { op: { type: 'insert', pos: 0, text: '>' }, v: 1 });
+
+      await expect(
+        backend.submit('test', 'doc1', { op: { type: 'insert', pos: -5, text: 'X' }, v: 1 })
+      ).rejects.toMatchObject({ code: 'ERR_OT_OP_BADLY_FORMED', message: expect.stringContaining("'pos'") });
+      await expect(backend.submit('test', 'doc1', { op: 'abc', v: 2 })).rejects.toMatchObject({
+        code: 'ERR_OT_OP_BADLY_FORMED',
+      });
+
+      const snapshot = await backend.getSnapshot('test', 'doc1');
+      expect(snapshot.data).toBe('>hello');
+      expect(snapshot.v).toBe(2);
+    });
   });
 });
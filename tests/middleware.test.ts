@@ -0,0 +1,131 @@
+/**
+ * Tests for backend middleware hooks
+ */
+
+import { describe, it, expect } from 'vitest';
+import { Backend } from '../src/server/backend';
+import { OTError, ERROR_CODES } from '../src/core/error';
+import { counterType } from '../src/types/counter';
+import { createClientServerPair, waitFor } from './helpers';
+
+describe('Middleware', () => {
+  it('should run hooks around a submit in order', async () => {
+    const { backend, agent, connection } = createClientServerPair();
+    const seen: string[] = [];
+    backend.use(['receive', 'submit', 'apply', 'commit', 'reply'], (context) => {
+      if (context.action === 'receive') seen.push('receive ' + context.data.a);
+      else if (context.action === 'reply') seen.push('reply ' + context.reply.a);
+      else seen.push(`${context.action} ${context.agent?.clientId} v${context.snapshot?.v}`);
+    });
+
+    const doc = connection.get('test', 'doc1');
+    await new Promise<void>((resolve) => doc.subscribe(() => resolve()));
+    await new Promise<void>((resolve) => doc.create('counter', 0, () => resolve()));
+
+    const id = agent.clientId;
+    expect(seen).toEqual([
+      'receive s',
+      'reply s',
+      'receive op',
+      `submit ${id} vundefined`,
+      `apply ${id} v0`,
+      `commit ${id} v1`,
+      'reply op',
+    ]);
+  });
+
+  it('should let middleware rewrite the op and enrich the snapshot', async () => {
+    const backend = new Backend();
+    backend.use('submit', (context) => {
+      if ('op' in context.op!) context.op = { ...context.op, op: (context.op.op as number) * 10 };
+    });
+    backend.use('commit', (context) => {
+      context.snapshot!.m = { ...context.snapshot!.m, reviewed: true };
+    });
+
+    await backend.submit('test', 'doc1', { create: { type: counterType.uri, data: 0 } });
+    await backend.submit('test', 'doc1', { op: 2, v: 1 });
+
+    const snapshot = await backend.getSnapshot('test', 'doc1');
+    expect(snapshot.data).toBe(20);
+    expect(snapshot.m?.reviewed).toBe(true);
+  });
+
+  it('should send a middleware error to the client on the op reply', async () => {
+    const { backend, connection } = createClientServerPair();
+    const doc = connection.get('test', 'doc1');
+    await new Promise<void>((resolve) => doc.subscribe(() => resolve()));
+    await new Promise<void>((resolve) => doc.create('counter', 0, () => resolve()));
+
+    backend.use('apply', () => {
+      throw new OTError(ERROR_CODES.ERR_OT_OP_NOT_APPLIED, 'Edits are frozen');
+    });
+    doc.on('error', () => {});
+    const error = await new Promise<any>((resolve) => doc.submitOp(5, resolve));
+
+    expect(error).toMatchObject({ code: 'ERR_OT_OP_NOT_APPLIED', message: 'Edits are frozen' });
+    // The doc rolls back by fetching the server's state again
+    await waitFor(() => doc.subscribed);
+    expect(doc.data).toBe(0);
+    expect((await backend.getSnapshot('test', 'doc1')).v).toBe(1);
+  });
+
+  it('should send a middleware error to the client on the subscribe reply', async () => {
+    const { backend, agent, connection } = createClientServerPair();
+    backend.use('readSnapshots', (context) => {
+      if (context.snapshots!.some((snapshot) => snapshot.id.startsWith('secret'))) {
+        throw Object.assign(new Error('Not allowed'), { code: 'ERR_NOT_ALLOWED' });
+      }
+    });
+
+    const doc = connection.get('test', 'secret1');
+    const error = await new Promise<any>((resolve) => doc.subscribe(resolve));
+
+    expect(error).toMatchObject({ code: 'ERR_NOT_ALLOWED', message: 'Not allowed' });
+    expect(doc.subscribed).toBe(false);
+    expect(agent.isSubscribed('test', 'secret1')).toBe(false);
+  });
+
+  it('should let receive middleware rewrite raw messages', async () => {
+    const { backend, connection } = createClientServerPair();
+    backend.use('receive', (context) => {
+      if (context.data.a === 'op' && typeof context.data.op === 'number') {
+        context.data = { ...context.data, op: Math.min(context.data.op, 10) };
+      }
+    });
+
+    const doc = connection.get('test', 'doc1');
+    await new Promise<void>((resolve) => doc.subscribe(() => resolve()));
+    await new Promise<void>((resolve) => doc.create('counter', 0, () => resolve()));
+    await new Promise<void>((resolve) => doc.submitOp(1000, () => resolve()));
+
+    expect((await backend.getSnapshot('test', 'doc1')).data).toBe(10);
+  });
+
+  it('should attach identity at connect, and close agents it rejects', async () => {
+    const backend = new Backend();
+    backend.use('connect', (context) => {
+      const token = (context.req as { token?: string }).token;
+      if (!token) throw new Error('No token');
+      context.agent!.custom.userId = token;
+    });
+    let submitter: unknown;
+    backend.use('submit', (context) => {
+      submitter = context.agent?.custom.userId;
+    });
+
+    const alice = backend.createAgent({ token: 'alice' });
+    alice.bindSend(() => {});
+    await alice.handleMessage({ a: 'op', c: 'test', d: 'doc1', v: 0, create: { type: 'counter', data: 0 } });
+    expect(submitter).toBe('alice');
+
+    const anonymous = backend.createAgent({});
+    const sent: unknown[] = [];
+    anonymous.bindSend((message) => sent.push(message));
+    let closed = false;
+    anonymous.on('close', () => (closed = true));
+    await anonymous.handleMessage({ a: 's', c: 'test', d: 'doc1' });
+    expect(closed).toBe(true);
+    expect(sent).toEqual([]);
+  });
+});
@@ -5,9 +5,9 @@
  */
 
 import { describe, it, expect, beforeEach } from 'vitest';
-import { checkOp, apply, transform, isCreateOp, isEditOp, isDeleteOp, Op } from '../src/core/ot';
+import { checkOp, apply, transform, normalize, isCreateOp, isEditOp, isDeleteOp, Op, EditOp } from '../src/core/ot';
 import { Snapshot, createEmptySnapshot } from '../src/core/snapshot';
-import { types } from '../src/core/types';
+import { types, TypeRegistry, OTType } from '../src/core/types';
 import { counterType } from '../src/types/counter';
 import { OTError, ERROR_CODES } from '../src/core/error';
 
@@ -184,6 +184,67 @@ describe('OT Core Functions', () => {
     });
   });
 
+  describe('normalize', () => {
+    it('should report edits that do nothing', () => {
+      expect(normalize(counterType, { op: 0 })).toBe(true);
+      expect(normalize(counterType, { op: 2 })).toBe(false);
+    });
+
+    it('should replace the op with its normalized form', () => {
+      const op: EditOp = { op: -0 };
+      normalize(counterType, op);
+      expect(Object.is(op.op, 0)).toBe(true);
+    });
+
+    it('should never report no-ops for types without isNoop', () => {
+      const { isNoop, ...plainCounter } = counterType;
+      expect(normalize(plainCounter, { op: 0 })).toBe(false);
+    });
+  });
+
+  describe('checkOp with a document type', () => {
+    it('should validate edit payloads with the type', () => {
+      expect(() => checkOp({ op: 5 }, types, counterType)).not.toThrow();
+      expect(() => checkOp({ op: 'abc' }, types, 'counter')).toThrow(OTError);
+      expect(() => checkOp({ op: 'abc' }, types, counterType)).toThrow('Counter op must be a finite number');
+    });
+
+    it('should reject an unknown document type', () => {
+      expect(() => checkOp({ op: 5 }, types, 'no-such-type')).toThrow(OTError);
+    });
+  });
+
+  describe('scoped registries', () => {
+    // A type that only exists in one registry
+    const doubleType: OTType<number, number> = {
+      ...counterType,
+      name: 'double',
+      uri: 'http://example.com/types/double',
+      apply: (snapshot, op) => snapshot + op * 2,
+    };
+
+    it('should only know the types of the given registry', () => {
+      const registry = new TypeRegistry([doubleType]);
+      expect(() => checkOp({ create: { type: 'double' } }, registry)).not.toThrow();
+      expect(() => checkOp({ create: { type: 'counter' } }, registry)).toThrow(OTError);
+      expect(() => checkOp({ create: { type: 'double' } })).toThrow(OTError);
+      expect(types.has('double')).toBe(false);
+    });
+
+    it('should apply and transform with types from the given registry', () => {
+      const registry = new TypeRegistry([doubleType]);
+      const snapshot = createEmptySnapshot('doc1');
+      apply(snapshot, { create: { type: 'double', data: 1 } }, registry);
+      apply(snapshot, { op: 3 }, registry);
+      expect(snapshot.data).toBe(7);
+
+      const op: Op = { op: 1, v: 2 };
+      transform('double', op, { op: 2, v: 2 }, registry);
+      expect(op.v).toBe(3);
+      expect(() => transform('double', { op: 1, v: 2 }, { op: 2, v: 2 })).toThrow(OTError);
+    });
+  });
+
   describe('Type Guards', () => {
     it('should correctly identify create ops', () => {
       expect(isCreateOp({ create: { type: 'counter' } })).toBe(true);
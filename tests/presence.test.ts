@@ -0,0 +1,126 @@
+/**
+ * Tests for presence
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Backend } from '../src/server/backend';
+import { Connection } from '../src/client/connection';
+import { Doc } from '../src/client/doc';
+import { textType } from '../src/types/text';
+import { createClientServerPair, waitFor } from './helpers';
+
+describe('Presence', () => {
+  let backend: Backend;
+
+  async function openText(connection: Connection): Promise<Doc> {
+    const doc = connection.get('notes', 'n1');
+    await new Promise<void>((resolve) => doc.subscribe(() => resolve()));
+    return doc;
+  }
+
+  beforeEach(async () => {
+    backend = new Backend();
+    await backend.submit('notes', 'n1', { create: { type: textType.uri, data: 'hello' } });
+  });
+
+  it('should relay presence to other subscribers, keyed by client, without storing it', async () => {
+    const { agent: agent1, connection: conn1 } = createClientServerPair(backend);
+    const { connection: conn2 } = createClientServerPair(backend);
+    const doc1 = await openText(conn1);
+    const doc2 = await openText(conn2);
+    const events: unknown[] = [];
+    doc2.on('presence', (clientId: string, value: unknown) => events.push([clientId, value]));
+
+    await new Promise<void>((resolve) => doc1.submitPresence({ start: 1, end: 3, name: 'Ada' }, () => resolve()));
+    await waitFor(() => events.length === 1);
+
+    expect(doc2.remotePresence).toEqual({ [agent1.clientId]: { start: 1, end: 3, name: 'Ada' } });
+    expect(events).toEqual([[agent1.clientId, { start: 1, end: 3, name: 'Ada' }]]);
+    expect(doc1.remotePresence).toEqual({});
+    expect(await backend.getOps('notes', 'n1', 0)).toHaveLength(1);
+  });
+
+  it('should move remote presence through incoming and local ops', async () => {
+    const { agent: agent1, connection: conn1 } = createClientServerPair(backend);
+    const { connection: conn2 } = createClientServerPair(backend);
+    const doc1 = await openText(conn1);
+    const doc2 = await openText(conn2);
+
+    doc1.submitPresence(3);
+    await waitFor(() => doc2.remotePresence[agent1.clientId] === 3);
+
+    // Local insert before the cursor
+    doc2.submitOp({ type: 'insert', pos: 0, text: 'ab' });
+    expect(doc2.remotePresence[agent1.clientId]).toBe(5);
+    await waitFor(() => doc1.version === 2);
+    expect(doc1.localPresence).toBe(5);
+
+    // Remote insert by the cursor's owner, at the cursor
+    doc1.submitOp({ type: 'insert', pos: 5, text: '!' });
+    await waitFor(() => doc2.version === 3);
+    expect(doc2.remotePresence[agent1.clientId]).toBe(6);
+    expect(doc1.localPresence).toBe(6);
+  });
+
+  it('should move presence sent at an old version to the current one', async () => {
+    const { agent: agent1, connection: conn1 } = createClientServerPair(backend);
+    const { connection: conn2 } = createClientServerPair(backend);
+    await openText(conn1);
+    const doc2 = await openText(conn2);
+    await backend.submit('notes', 'n1', { v: 1, op: { type: 'insert', pos: 0, text: '>> ' } });
+    await waitFor(() => doc2.version === 2);
+
+    // Sent by client 1 before it heard about the insert
+    await agent1.handleMessage({ a: 'p', c: 'notes', d: 'n1', v: 1, p: { start: 0, end: 5 } });
+    await waitFor(() => agent1.clientId in doc2.remotePresence);
+
+    expect(doc2.remotePresence[agent1.clientId]).toEqual({ start: 3, end: 8 });
+  });
+
+  it('should drop presence when the agent closes', async () => {
+    const { agent: agent1, connection: conn1 } = createClientServerPair(backend);
+    const { connection: conn2 } = createClientServerPair(backend);
+    const doc1 = await openText(conn1);
+    const doc2 = await openText(conn2);
+    doc1.submitPresence(1);
+    await waitFor(() => agent1.clientId in doc2.remotePresence);
+
+    const left = new Promise((resolve) => doc2.on('presence', (clientId, value) => value === null && resolve(clientId)));
+    conn1.close();
+
+    expect(await left).toBe(agent1.clientId);
+    expect(doc2.remotePresence).toEqual({});
+  });
+
+  it('should expire presence that is not sent again', async () => {
+    const { agent: agent1, connection: conn1 } = createClientServerPair(backend);
+    const { connection: conn2 } = createClientServerPair(backend, undefined, { presenceTimeout: 50 });
+    const doc1 = await openText(conn1);
+    const doc2 = await openText(conn2);
+    doc1.submitPresence(1);
+    await waitFor(() => agent1.clientId in doc2.remotePresence);
+
+    await waitFor(() => !(agent1.clientId in doc2.remotePresence));
+  });
+
+  it('should keep presence alive while it is re-sent', async () => {
+    const { agent: agent1, connection: conn1 } = createClientServerPair(backend, undefined, { presenceTimeout: 40 });
+    const { connection: conn2 } = createClientServerPair(backend, undefined, { presenceTimeout: 200 });
+    const doc1 = await openText(conn1);
+    const doc2 = await openText(conn2);
+    doc1.submitPresence(1);
+    await waitFor(() => agent1.clientId in doc2.remotePresence);
+
+    await new Promise((resolve) => setTimeout(resolve, 400));
+    expect(doc2.remotePresence[agent1.clientId]).toBe(1);
+    doc1.submitPresence(null);
+    await waitFor(() => !(agent1.clientId in doc2.remotePresence));
+  });
+
+  it('should refuse presence on a doc that is not subscribed', async () => {
+    const { connection } = createClientServerPair(backend);
+    const error = await new Promise((resolve) => connection.get('notes', 'n1').submitPresence(1, resolve));
+
+    expect(error).toBeInstanceOf(Error);
+  });
+});
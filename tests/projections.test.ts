@@ -0,0 +1,68 @@
+/**
+ * Tests for projections
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Backend } from '../src/server/backend';
+import { counterType } from '../src/types/counter';
+import { jsonType } from '../src/types/json';
+import { createClientServerPair, waitFor } from './helpers';
+
+describe('Projections', () => {
+  let backend: Backend;
+
+  beforeEach(async () => {
+    backend = new Backend();
+    backend.addProjection('users_public', 'users', { name: true });
+    await backend.submit('users', 'u1', {
+      create: { type: jsonType.uri, data: { name: 'Ada', email: 'ada@example.com' } },
+    });
+  });
+
+  it('should only show projected fields', async () => {
+    const { connection } = createClientServerPair(backend);
+    const doc = connection.get('users_public', 'u1');
+    await new Promise<void>((resolve) => doc.subscribe(() => resolve()));
+
+    expect(doc.data).toEqual({ name: 'Ada' });
+    expect(await backend.fetchSnapshot('users_public', 'u1', 1)).toMatchObject({ data: { name: 'Ada' } });
+  });
+
+  it('should filter broadcast ops down to projected fields', async () => {
+    const { connection: publicConnection } = createClientServerPair(backend);
+    const { connection: adminConnection } = createClientServerPair(backend);
+    const publicDoc = publicConnection.get('users_public', 'u1');
+    const adminDoc = adminConnection.get('users', 'u1');
+    await new Promise<void>((resolve) => publicDoc.subscribe(() => resolve()));
+    await new Promise<void>((resolve) => adminDoc.subscribe(() => resolve()));
+
+    adminDoc.submitOp([
+      { p: ['email'], od: 'ada@example.com', oi: 'ada@lovelace.dev' },
+      { p: ['name'], od: 'Ada', oi: 'Ada L.' },
+    ]);
+    adminDoc.submitOp([{ p: ['email'], od: 'ada@lovelace.dev', oi: 'countess@example.com' }]);
+    await waitFor(() => publicDoc.version === 3);
+
+    expect(publicDoc.data).toEqual({ name: 'Ada L.' });
+  });
+
+  it('should accept submits to projected fields and reject the rest', async () => {
+    const { connection } = createClientServerPair(backend);
+    const doc = connection.get('users_public', 'u1');
+    await new Promise<void>((resolve) => doc.subscribe(() => resolve()));
+    doc.on('error', () => {});
+
+    await new Promise<void>((resolve) => doc.submitOp([{ p: ['name'], od: 'Ada', oi: 'Ada L.' }], () => resolve()));
+    const error = await new Promise<any>((resolve) => doc.submitOp([{ p: ['email'], oi: 'x@example.com' }], resolve));
+
+    expect(error).toMatchObject({ code: 'ERR_OP_NOT_ALLOWED_IN_PROJECTION' });
+    expect((await backend.getSnapshot('users', 'u1')).data).toEqual({ name: 'Ada L.', email: 'ada@example.com' });
+  });
+
+  it('should refuse to project documents that are not JSON', async () => {
+    await backend.submit('users', 'count', { create: { type: counterType.uri, data: 1 } });
+    await expect(backend.getSnapshot('users_public', 'count')).rejects.toMatchObject({
+      code: 'ERR_TYPE_CANNOT_BE_PROJECTED',
+    });
+  });
+});
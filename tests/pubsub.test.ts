@@ -0,0 +1,100 @@
+/**
+ * Tests for backends that share a pub/sub
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Backend } from '../src/server/backend';
+import { MemoryDb } from '../src/server/memory-db';
+import { MemoryPubSub } from '../src/server/pubsub';
+import { counterType } from '../src/types/counter';
+import { textType } from '../src/types/text';
+import { jsonType } from '../src/types/json';
+import { createClientServerPair, waitFor } from './helpers';
+
+describe('Multiple Backends', () => {
+  let db: MemoryDb;
+  let pubsub: MemoryPubSub;
+  let backend1: Backend;
+  let backend2: Backend;
+
+  beforeEach(() => {
+    db = new MemoryDb();
+    pubsub = new MemoryPubSub();
+    backend1 = new Backend({ db, pubsub });
+    backend2 = new Backend({ db, pubsub });
+  });
+
+  it('should converge with clients on different backends', async () => {
+    const { connection: conn1 } = createClientServerPair(backend1);
+    const { connection: conn2 } = createClientServerPair(backend2);
+    const doc1 = conn1.get('docs', 'shared');
+    const doc2 = conn2.get('docs', 'shared');
+
+    await new Promise<void>((resolve) => doc1.subscribe(() => resolve()));
+    await new Promise<void>((resolve) => doc2.subscribe(() => resolve()));
+    doc1.create(textType.uri, '');
+    await waitFor(() => doc1.version === 1 && doc2.version === 1);
+
+    doc1.submitOp({ type: 'insert', pos: 0, text: 'one ' });
+    doc2.submitOp({ type: 'insert', pos: 0, text: 'two ' });
+    doc1.submitOp({ type: 'insert', pos: 4, text: 'three ' });
+    await waitFor(() => doc1.version === 4 && doc2.version === 4, 2000);
+
+    expect(doc1.data).toBe(doc2.data);
+    expect((await db.getSnapshot('docs', 'shared')).data).toBe(doc1.data);
+  });
+
+  it('should give clients unique IDs across backends', () => {
+    const { agent: agent1 } = createClientServerPair(backend1);
+    const { agent: agent2 } = createClientServerPair(backend2);
+
+    expect(agent1.clientId).not.toBe(agent2.clientId);
+  });
+
+  it('should send projected ops to projection subscribers on other backends', async () => {
+    backend2.addProjection('users_public', 'users', { name: true });
+    await backend1.submit('users', 'u1', {
+      create: { type: jsonType.uri, data: { name: 'Ada', email: 'ada@example.com' } },
+    });
+    const { connection } = createClientServerPair(backend2);
+    const doc = connection.get('users_public', 'u1');
+    await new Promise<void>((resolve) => doc.subscribe(() => resolve()));
+
+    await backend1.submit('users', 'u1', {
+      v: 1,
+      op: [{ p: ['name'], od: 'Ada', oi: 'Ada L.' }, { p: ['email'], od: 'ada@example.com', oi: 'x@example.com' }],
+    });
+    await waitFor(() => doc.version === 2);
+
+    expect(doc.data).toEqual({ name: 'Ada L.' });
+  });
+
+  it('should relay presence between backends', async () => {
+    await backend1.submit('notes', 'n1', { create: { type: textType.uri, data: 'hello' } });
+    const { agent: agent1, connection: conn1 } = createClientServerPair(backend1);
+    const { connection: conn2 } = createClientServerPair(backend2);
+    const doc1 = conn1.get('notes', 'n1');
+    const doc2 = conn2.get('notes', 'n1');
+    await new Promise<void>((resolve) => doc1.subscribe(() => resolve()));
+    await new Promise<void>((resolve) => doc2.subscribe(() => resolve()));
+
+    doc1.submitPresence({ start: 0, end: 2 });
+    await waitFor(() => agent1.clientId in doc2.remotePresence);
+
+    expect(doc2.remotePresence[agent1.clientId]).toEqual({ start: 0, end: 2 });
+  });
+
+  it('should stop hearing about ops once closed', async () => {
+    const { connection } = createClientServerPair(backend2);
+    const doc = connection.get('counters', 'c1');
+    await new Promise<void>((resolve) => doc.subscribe(() => resolve()));
+    doc.create(counterType.uri, 0);
+    await waitFor(() => doc.version === 1);
+    const broadcast = vi.spyOn(backend2, '_broadcastOp');
+
+    await backend2.close();
+    await backend1.submit('counters', 'c1', { v: 1, op: 1 });
+
+    expect(broadcast).not.toHaveBeenCalled();
+  });
+});
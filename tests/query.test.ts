@@ -0,0 +1,240 @@
+/**
+ * Tests for the query language (checkQuery, executeQuery, diffResults)
+ * and for queries run by clients against a backend
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { checkQuery, executeQuery, matchesQuery, diffResults, Query, QueryDiff } from '../src/core/query';
+import { Snapshot, createEmptySnapshot } from '../src/core/snapshot';
+import { ERROR_CODES } from '../src/core/error';
+import { Backend } from '../src/server/backend';
+import { Connection } from '../src/client/connection';
+import { Doc } from '../src/client/doc';
+import { jsonType } from '../src/types/json';
+import { createClientServerPair, waitFor } from './helpers';
+
+function task(id: string, data: Record<string, unknown>): Snapshot {
+  return { id, v: 1, type: 'json0', data };
+}
+
+const tasks = [
+  task('a', { title: 'Write docs', status: 'open', priority: 2, owner: { name: 'ada' } }),
+  task('b', { title: 'Fix bug', status: 'done', priority: 3, owner: { name: 'bob' } }),
+  task('c', { title: 'Review', status: 'open', priority: 3 }),
+  task('d', { title: 'Deploy', status: 'open', priority: 1, owner: { name: 'bob' } }),
+];
+
+function ids(query: Query, snapshots = tasks): string[] {
+  return executeQuery(query, snapshots).map((snapshot) => snapshot.id);
+}
+
+/**
+ * Apply a diff to a list of IDs, the way a client applies it to its results.
+ */
+function applyDiff(before: string[], diff: QueryDiff[]): string[] {
+  const result = before.slice();
+  for (const change of diff) {
+    if (change.type === 'insert') result.splice(change.index, 0, ...change.values.map((s) => s.id));
+    if (change.type === 'remove') result.splice(change.index, change.howMany);
+    if (change.type === 'move') result.splice(change.to, 0, ...result.splice(change.from, change.howMany));
+  }
+  return result;
+}
+
+describe('Query', () => {
+  describe('checkQuery', () => {
+    it('should accept well-formed queries', () => {
+      expect(() => checkQuery({})).not.toThrow();
+      expect(() =>
+        checkQuery({ filter: { status: 'open', priority: { $gte: 2 } }, sort: { priority: -1 }, skip: 1, limit: 5 })
+      ).not.toThrow();
+    });
+
+    it('should reject badly formed queries', () => {
+      const bad: unknown[] = [
+        null,
+        { where: {} },
+        { filter: [] },
+        { filter: { priority: { $near: 1 } } },
+        { filter: { status: { $in: 'open' } } },
+        { filter: { priority: { $gt: true } } },
+        { sort: { priority: 'desc' } },
+        { limit: -1 },
+        { skip: 1.5 },
+      ];
+      for (const query of bad) {
+        expect(() => checkQuery(query)).toThrow(expect.objectContaining({ code: ERROR_CODES.ERR_QUERY_BADLY_FORMED }));
+      }
+    });
+  });
+
+  describe('executeQuery', () => {
+    it('should filter on equality, conditions and nested paths', () => {
+      expect(ids({ filter: { status: 'open' } })).toEqual(['a', 'c', 'd']);
+      expect(ids({ filter: { priority: { $gte: 2, $lt: 3 } } })).toEqual(['a']);
+      expect(ids({ filter: { 'owner.name': 'bob' } })).toEqual(['b', 'd']);
+      expect(ids({ filter: { 'owner.name': { $in: ['ada', 'bob'] }, status: { $ne: 'done' } } })).toEqual(['a', 'd']);
+      expect(ids({ filter: { owner: { $exists: false } } })).toEqual(['c']);
+    });
+
+    it('should sort by several fields, then by ID', () => {
+      expect(ids({ sort: { priority: -1 } })).toEqual(['b', 'c', 'a', 'd']);
+      expect(ids({ sort: { priority: -1, title: 1 } })).toEqual(['b', 'c', 'a', 'd']);
+      expect(ids({ sort: { status: 1, priority: 1 } })).toEqual(['b', 'd', 'a', 'c']);
+      // Missing values sort first
+      expect(ids({ sort: { 'owner.name': 1 } })).toEqual(['c', 'a', 'b', 'd']);
+    });
+
+    it('should apply skip and limit after sorting', () => {
+      expect(ids({ sort: { priority: 1 }, skip: 1, limit: 2 })).toEqual(['a', 'b']);
+      expect(ids({ limit: 0 })).toEqual([]);
+    });
+
+    it('should never match documents that do not exist or are not objects', () => {
+      const snapshots = [createEmptySnapshot('gone'), { id: 'n', v: 1, type: 'counter', data: 5 }, ...tasks];
+      expect(matchesQuery({}, snapshots[0])).toBe(false);
+      expect(ids({}, snapshots)).toEqual(['a', 'b', 'c', 'd']);
+    });
+  });
+
+  describe('diffResults', () => {
+    const cases: Array<[string[], string[]]> = [
+      [[], ['a', 'b']],
+      [['a', 'b', 'c'], []],
+      [['a', 'b', 'c'], ['a', 'c']],
+      [['a', 'b', 'c'], ['c', 'a', 'b']],
+      [['a', 'b', 'c', 'd'], ['d', 'x', 'b', 'y', 'z']],
+      [['a', 'b'], ['a', 'b']],
+    ];
+
+    it('should turn the old results into the new ones', () => {
+      for (const [before, after] of cases) {
+        const diff = diffResults(before, after.map((id) => task(id, {})));
+        expect(applyDiff(before, diff)).toEqual(after);
+      }
+    });
+
+    it('should group runs of inserts and removes', () => {
+      expect(diffResults(['a', 'b', 'c', 'd'], [task('a', {}), task('x', {}), task('y', {})])).toEqual([
+        { type: 'remove', index: 1, howMany: 3 },
+        { type: 'insert', index: 1, values: [task('x', {}), task('y', {})] },
+      ]);
+      expect(diffResults(['a', 'b'], [task('a', {}), task('b', {})])).toEqual([]);
+    });
+  });
+});
+
+describe('Queries', () => {
+  let backend: Backend;
+  let connection: Connection;
+  const openByPriority: Query = { filter: { status: 'open' }, sort: { priority: -1 } };
+
+  function createTask(id: string, data: Record<string, unknown>) {
+    return backend.submit('tasks', id, { create: { type: jsonType.uri, data } });
+  }
+
+  beforeEach(async () => {
+    ({ backend, connection } = createClientServerPair());
+    await createTask('t1', { title: 'Write docs', status: 'open', priority: 1 });
+    await createTask('t2', { title: 'Fix bug', status: 'open', priority: 3 });
+    await createTask('t3', { title: 'Release', status: 'done', priority: 2 });
+  });
+
+  it('should fetch matching docs in order', async () => {
+    const docs = await new Promise<Doc[]>((resolve, reject) =>
+      connection.createFetchQuery('tasks', openByPriority, (err, results) => (err ? reject(err) : resolve(results!)))
+    );
+
+    expect(docs.map((doc) => doc.id)).toEqual(['t2', 't1']);
+    expect(docs[0]).toBe(connection.get('tasks', 't2'));
+    expect(docs[0].data).toEqual({ title: 'Fix bug', status: 'open', priority: 3 });
+  });
+
+  it('should insert, remove and move live results as commits change them', async () => {
+    const query = connection.createSubscribeQuery('tasks', openByPriority);
+    await new Promise((resolve) => query.on('ready', resolve));
+    const events: unknown[] = [];
+    query.on('insert', (docs: Doc[], index: number) => events.push(['insert', docs.map((d) => d.id), index]));
+    query.on('remove', (docs: Doc[], index: number) => events.push(['remove', docs.map((d) => d.id), index]));
+    query.on('move', (docs: Doc[], from: number, to: number) => events.push(['move', docs.map((d) => d.id), from, to]));
+
+    await backend.submit('tasks', 't3', { v: 1, op: [{ p: ['status'], od: 'done', oi: 'open' }] });
+    await waitFor(() => query.results.length === 3);
+    await backend.submit('tasks', 't2', { v: 1, op: [{ p: ['status'], od: 'open', oi: 'done' }] });
+    await waitFor(() => query.results.length === 2);
+    await backend.submit('tasks', 't1', { v: 1, op: [{ p: ['priority'], od: 1, oi: 5 }] });
+    await waitFor(() => query.results[0].id === 't1');
+
+    expect(events).toEqual([
+      ['insert', ['t3'], 1],
+      ['remove', ['t2'], 0],
+      ['move', ['t1'], 1, 0],
+    ]);
+    expect(query.results.map((doc) => doc.id)).toEqual(['t1', 't3']);
+    // The docs in the results got the ops too
+    expect(query.results[0].data).toMatchObject({ priority: 5 });
+    expect(query.results[1].version).toBe(2);
+  });
+
+  it('should keep docs in the results up to date with edits that keep them there', async () => {
+    const query = connection.createSubscribeQuery('tasks', openByPriority);
+    await new Promise((resolve) => query.on('ready', resolve));
+
+    await backend.submit('tasks', 't1', { v: 1, op: [{ p: ['title'], od: 'Write docs', oi: 'Write more docs' }] });
+    await waitFor(() => connection.get('tasks', 't1').version === 2);
+
+    expect(connection.get('tasks', 't1').data).toMatchObject({ title: 'Write more docs' });
+  });
+
+  it('should stop changing once destroyed', async () => {
+    const query = connection.createSubscribeQuery('tasks', openByPriority);
+    await new Promise((resolve) => query.on('ready', resolve));
+    const changed = vi.fn();
+    query.on('changed', changed);
+
+    await new Promise<void>((resolve) => query.destroy(resolve));
+    await createTask('t4', { title: 'Celebrate', status: 'open', priority: 9 });
+    await backend.submit('tasks', 't1', { v: 1, op: [{ p: ['priority'], od: 1, oi: 2 }] });
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    expect(changed).not.toHaveBeenCalled();
+    expect(connection.get('tasks', 't1').version).toBe(1);
+  });
+
+  it('should keep handling messages after query errors nobody listens for', async () => {
+    const query = connection.createSubscribeQuery('tasks', openByPriority, () => {});
+    await waitFor(() => query.ready);
+
+    // Every run fails until the database comes back
+    const failing = vi.spyOn(backend, 'query').mockRejectedValue(new Error('Database down'));
+    await backend.submit('tasks', 't3', { v: 1, op: [{ p: ['status'], od: 'done', oi: 'open' }] });
+    await backend.submit('tasks', 't3', { v: 2, op: [{ p: ['priority'], od: 2, oi: 4 }] });
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    failing.mockRestore();
+
+    await backend.submit('tasks', 't1', { v: 1, op: [{ p: ['priority'], od: 1, oi: 5 }] });
+    await waitFor(() => query.results.length === 3);
+    expect(query.results.map((doc) => doc.id)).toEqual(['t1', 't3', 't2']);
+  });
+
+  it('should report badly formed queries', async () => {
+    const error = await new Promise<Error | undefined>((resolve) =>
+      connection.createFetchQuery('tasks', { sort: { priority: 'desc' } } as any, resolve)
+    );
+
+    expect(error).toMatchObject({ code: ERROR_CODES.ERR_QUERY_BADLY_FORMED });
+  });
+
+  it('should only let projection queries use projected fields', async () => {
+    backend.addProjection('tasks_public', 'tasks', { title: true, status: true });
+
+    const results = await backend.query('tasks_public', { filter: { status: 'open' }, sort: { title: 1 } });
+    expect(results.map((snapshot) => snapshot.data)).toEqual([
+      { title: 'Fix bug', status: 'open' },
+      { title: 'Write docs', status: 'open' },
+    ]);
+    await expect(backend.query('tasks_public', openByPriority)).rejects.toMatchObject({
+      code: ERROR_CODES.ERR_QUERY_NOT_ALLOWED_IN_PROJECTION,
+    });
+  });
+});
@@ -4,6 +4,7 @@
 
 import { describe, it, expect } from "vitest";
 import { counterType } from "../../src/types/counter";
+import { OTError } from "../../src/core/error";
 
 describe("Counter Type", () => {
   describe("create", () => {
@@ -80,6 +81,28 @@ describe("Counter Type", () => {
     });
   });
 
+  describe("normalize", () => {
+    it("should treat adding zero as a no-op", () => {
+      expect(counterType.normalize!(-0)).toBe(0);
+      expect(counterType.isNoop!(counterType.normalize!(-0))).toBe(true);
+      expect(counterType.isNoop!(3)).toBe(false);
+    });
+  });
+
+  describe("validate", () => {
+    it("should accept finite numbers", () => {
+      expect(() => counterType.validate!(5)).not.toThrow();
+      expect(() => counterType.validate!(-2.5)).not.toThrow();
+    });
+
+    it("should reject anything else", () => {
+      expect(() => counterType.validate!("abc")).toThrow(OTError);
+      expect(() => counterType.validate!(NaN)).toThrow(OTError);
+      expect(() => counterType.validate!(Infinity)).toThrow(OTError);
+      expect(() => counterType.validate!(null)).toThrow(OTError);
+    });
+  });
+
   describe("OT Property: Convergence", () => {
     it("should converge when applying concurrent ops in either order", () => {
       const initial = 0;
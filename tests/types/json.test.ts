@@ -0,0 +1,207 @@
+/**
+ * Tests for JSON OT type
+ */
+
+import { describe, it, expect } from 'vitest';
+import { jsonType, JsonOp } from '../../src/types/json';
+import { OTError } from '../../src/core/error';
+
+/**
+ * Apply a and b concurrently in both orders and return both results.
+ */
+function converge(doc: unknown, a: JsonOp, b: JsonOp): [unknown, unknown] {
+  const result1 = jsonType.apply(jsonType.apply(doc, a), jsonType.transform(b, a, 'right'));
+  const result2 = jsonType.apply(jsonType.apply(doc, b), jsonType.transform(a, b, 'left'));
+  return [result1, result2];
+}
+
+describe('JSON Type', () => {
+  describe('create', () => {
+    it('should create null by default', () => {
+      expect(jsonType.create()).toBeNull();
+    });
+
+    it('should deep copy provided data', () => {
+      const data = { a: [1, 2] };
+      const doc = jsonType.create(data) as { a: number[] };
+      doc.a.push(3);
+      expect(data.a).toEqual([1, 2]);
+    });
+  });
+
+  describe('apply', () => {
+    it('should insert, replace and delete object keys', () => {
+      let doc = jsonType.apply({}, [{ p: ['title'], oi: 'Hi' }]);
+      expect(doc).toEqual({ title: 'Hi' });
+
+      doc = jsonType.apply(doc, [{ p: ['title'], od: 'Hi', oi: 'Hello' }]);
+      expect(doc).toEqual({ title: 'Hello' });
+
+      doc = jsonType.apply(doc, [{ p: ['title'], od: 'Hello' }]);
+      expect(doc).toEqual({});
+    });
+
+    it('should insert, delete, replace and move list items', () => {
+      let doc = jsonType.apply({ l: ['a', 'b'] }, [{ p: ['l', 1], li: 'x' }]);
+      expect(doc).toEqual({ l: ['a', 'x', 'b'] });
+
+      doc = jsonType.apply(doc, [{ p: ['l', 0], ld: 'a' }]);
+      expect(doc).toEqual({ l: ['x', 'b'] });
+
+      doc = jsonType.apply(doc, [{ p: ['l', 0], ld: 'x', li: 'y' }]);
+      expect(doc).toEqual({ l: ['y', 'b'] });
+
+      doc = jsonType.apply(doc, [{ p: ['l', 0], lm: 1 }]);
+      expect(doc).toEqual({ l: ['b', 'y'] });
+    });
+
+    it('should add to numbers', () => {
+      expect(jsonType.apply({ n: 5 }, [{ p: ['n'], na: 3 }])).toEqual({ n: 8 });
+    });
+
+    it('should insert and delete inside embedded strings', () => {
+      let doc = jsonType.apply({ s: 'hello' }, [{ p: ['s', 5], si: ' world' }]);
+      expect(doc).toEqual({ s: 'hello world' });
+
+      doc = jsonType.apply(doc, [{ p: ['s', 0], sd: 'hello ' }]);
+      expect(doc).toEqual({ s: 'world' });
+    });
+
+    it('should not mutate the original snapshot', () => {
+      const doc = { l: [1] };
+      jsonType.apply(doc, [{ p: ['l', 0], li: 0 }]);
+      expect(doc).toEqual({ l: [1] });
+    });
+
+    it('should reject invalid paths', () => {
+      expect(() => jsonType.apply({}, [{ p: ['missing', 0], li: 1 }])).toThrow(OTError);
+    });
+
+    it('should reject a string delete that does not match', () => {
+      expect(() => jsonType.apply({ s: 'abc' }, [{ p: ['s', 0], sd: 'xyz' }])).toThrow(OTError);
+    });
+  });
+
+  describe('transform', () => {
+    it('should leave ops on different fields unchanged', () => {
+      const op: JsonOp = [{ p: ['a'], oi: 1 }];
+      expect(jsonType.transform(op, [{ p: ['b'], oi: 2 }], 'left')).toEqual(op);
+    });
+
+    it('should shift list indexes after an earlier insert', () => {
+      const result = jsonType.transform([{ p: ['l', 2], ld: 'x' }], [{ p: ['l', 0], li: 'y' }], 'left');
+      expect(result).toEqual([{ p: ['l', 3], ld: 'x' }]);
+    });
+
+    it('should drop edits inside a deleted element', () => {
+      const result = jsonType.transform([{ p: ['l', 1, 'n'], na: 1 }], [{ p: ['l', 1], ld: { n: 0 } }], 'left');
+      expect(result).toEqual([]);
+    });
+
+    it('should update the recorded value when deleting something that was edited', () => {
+      const result = jsonType.transform([{ p: ['o'], od: { n: 0 } }], [{ p: ['o', 'n'], na: 5 }], 'left');
+      expect(result).toEqual([{ p: ['o'], od: { n: 5 } }]);
+    });
+
+    it('should use side for tie-breaking list inserts', () => {
+      const op: JsonOp = [{ p: ['l', 1], li: 'a' }];
+      const other: JsonOp = [{ p: ['l', 1], li: 'b' }];
+      expect(jsonType.transform(op, other, 'left')).toEqual([{ p: ['l', 1], li: 'a' }]);
+      expect(jsonType.transform(op, other, 'right')).toEqual([{ p: ['l', 2], li: 'a' }]);
+    });
+
+    it('should split a string delete around a concurrent insert', () => {
+      const result = jsonType.transform([{ p: ['s', 1], sd: 'bcd' }], [{ p: ['s', 2], si: 'X' }], 'left');
+      expect(result).toEqual([
+        { p: ['s', 1], sd: 'b' },
+        { p: ['s', 2], sd: 'cd' },
+      ]);
+    });
+  });
+
+  describe('compose', () => {
+    it('should merge number adds on the same path', () => {
+      expect(jsonType.compose!([{ p: ['n'], na: 2 }], [{ p: ['n'], na: 3 }])).toEqual([{ p: ['n'], na: 5 }]);
+    });
+
+    it('should satisfy apply(apply(x, a), b) === apply(x, compose(a, b))', () => {
+      const doc = { l: [1, 2, 3], o: {} };
+      const a: JsonOp = [{ p: ['l', 0], lm: 2 }, { p: ['o', 'k'], oi: 'v' }];
+      const b: JsonOp = [{ p: ['o', 'k'], od: 'v', oi: 'w' }, { p: ['l', 1], ld: 3 }];
+      expect(jsonType.apply(doc, jsonType.compose!(a, b))).toEqual(jsonType.apply(jsonType.apply(doc, a), b));
+    });
+  });
+
+  describe('invert', () => {
+    it('should satisfy apply(apply(x, op), invert(op)) === x', () => {
+      const doc = { s: 'hello', l: ['a', 'b', 'c'], n: 1, o: { k: 'v' } };
+      const op: JsonOp = [
+        { p: ['s', 0], sd: 'he' },
+        { p: ['l', 0], lm: 2 },
+        { p: ['n'], na: 10 },
+        { p: ['o', 'k'], od: 'v', oi: 'w' },
+        { p: ['l', 1], li: 'x' },
+      ];
+      const after = jsonType.apply(doc, op);
+      expect(jsonType.apply(after, jsonType.invert!(op))).toEqual(doc);
+    });
+  });
+
+  describe('normalize', () => {
+    it('should drop an insert followed by a delete of the same item', () => {
+      expect(jsonType.normalize!([{ p: ['l', 0], li: 'x' }, { p: ['l', 0], ld: 'x' }])).toEqual([]);
+    });
+  });
+
+  describe('OT Property: Convergence', () => {
+    it('should converge when two clients edit different fields', () => {
+      const doc = { title: 'Doc', likes: 0 };
+      const [r1, r2] = converge(doc, [{ p: ['title', 3], si: '!' }], [{ p: ['likes'], na: 1 }]);
+      expect(r1).toEqual(r2);
+      expect(r1).toEqual({ title: 'Doc!', likes: 1 });
+    });
+
+    it('should converge when two clients insert into the same list', () => {
+      const [r1, r2] = converge({ l: ['a'] }, [{ p: ['l', 0], li: 'x' }], [{ p: ['l', 0], li: 'y' }]);
+      expect(r1).toEqual(r2);
+      expect(r1).toEqual({ l: ['x', 'y', 'a'] });
+    });
+
+    it('should converge when two clients move the same item', () => {
+      const doc = { l: ['a', 'b', 'c', 'd'] };
+      const [r1, r2] = converge(doc, [{ p: ['l', 0], lm: 3 }], [{ p: ['l', 0], lm: 1 }]);
+      expect(r1).toEqual(r2);
+      expect(r1).toEqual({ l: ['b', 'c', 'd', 'a'] });
+    });
+
+    it('should converge on a move against a delete', () => {
+      const doc = { l: ['a', 'b', 'c', 'd'] };
+      const [r1, r2] = converge(doc, [{ p: ['l', 3], lm: 0 }], [{ p: ['l', 1], ld: 'b' }]);
+      expect(r1).toEqual(r2);
+      expect(r1).toEqual({ l: ['d', 'a', 'c'] });
+    });
+
+    it('should converge when both replace the same key', () => {
+      const doc = { k: 1 };
+      const [r1, r2] = converge(doc, [{ p: ['k'], od: 1, oi: 'left' }], [{ p: ['k'], od: 1, oi: 'right' }]);
+      expect(r1).toEqual(r2);
+      expect(r1).toEqual({ k: 'left' });
+    });
+
+    it('should converge with overlapping string deletes', () => {
+      const doc = { s: 'abcdef' };
+      const [r1, r2] = converge(doc, [{ p: ['s', 1], sd: 'bcd' }], [{ p: ['s', 2], sd: 'cde' }]);
+      expect(r1).toEqual(r2);
+      expect(r1).toEqual({ s: 'af' });
+    });
+
+    it('should converge with multi-component ops', () => {
+      const doc = { l: [1, 2, 3], s: 'xy' };
+      const a: JsonOp = [{ p: ['l', 0], li: 0 }, { p: ['s', 1], si: 'A' }];
+      const b: JsonOp = [{ p: ['l', 2], ld: 3 }, { p: ['s', 1], si: 'B' }];
+      const [r1, r2] = converge(doc, a, b);
+      expect(r1).toEqual(r2);
+      expect(r1).toEqual({ l: [0, 1, 2], s: 'xABy' });
+    });
+  });
+});
@@ -0,0 +1,190 @@
+/**
+ * Tests for list OT type
+ */
+
+import { describe, it, expect } from 'vitest';
+import { listType, ListOp, ListComponent, ListSnapshot } from '../../src/types/list';
+import { checkConformance, Random } from '../../src/core/conformance';
+import { OTError } from '../../src/core/error';
+
+/**
+ * Apply a and b concurrently in both orders and return both results.
+ */
+function converge(doc: ListSnapshot, a: ListOp, b: ListOp): [ListSnapshot, ListSnapshot] {
+  const result1 = listType.apply(listType.apply(doc, a), listType.transform(b, a, 'right'));
+  const result2 = listType.apply(listType.apply(doc, b), listType.transform(a, b, 'left'));
+  return [result1, result2];
+}
+
+describe('List Type', () => {
+  describe('create', () => {
+    it('should create an empty list by default', () => {
+      expect(listType.create()).toEqual([]);
+    });
+
+    it('should deep copy provided items', () => {
+      const data = [{ title: 'a' }];
+      const list = listType.create(data) as Array<{ title: string }>;
+      list[0].title = 'b';
+      expect(data[0].title).toBe('a');
+    });
+  });
+
+  describe('apply', () => {
+    it('should insert, remove and replace items', () => {
+      const op: ListOp = [
+        { type: 'insert', index: 1, value: 'x' },
+        { type: 'remove', index: 0, value: 'a' },
+        { type: 'replace', index: 1, value: 'B', old: 'b' },
+      ];
+      expect(listType.apply(['a', 'b'], op)).toEqual(['x', 'B']);
+    });
+
+    it('should move an item to its final index', () => {
+      expect(listType.apply(['a', 'b', 'c'], [{ type: 'move', from: 0, to: 2 }])).toEqual(['b', 'c', 'a']);
+      expect(listType.apply(['a', 'b', 'c'], [{ type: 'move', from: 2, to: 0 }])).toEqual(['c', 'a', 'b']);
+    });
+
+    it('should not mutate the snapshot', () => {
+      const list = ['a'];
+      listType.apply(list, [{ type: 'insert', index: 0, value: 'x' }]);
+      expect(list).toEqual(['a']);
+    });
+
+    it('should reject out of range indexes', () => {
+      expect(() => listType.apply(['a'], [{ type: 'insert', index: 2, value: 'x' }])).toThrow(OTError);
+      expect(() => listType.apply(['a'], [{ type: 'move', from: 0, to: 1 }])).toThrow(OTError);
+    });
+
+    it('should reject a remove whose recorded value does not match', () => {
+      expect(() => listType.apply(['a'], [{ type: 'remove', index: 0, value: 'b' }])).toThrow(
+        'Removed value does not match'
+      );
+    });
+  });
+
+  describe('transform', () => {
+    it('should shift indexes around a concurrent insert', () => {
+      const op: ListOp = [{ type: 'remove', index: 1, value: 'b' }];
+      expect(listType.transform(op, [{ type: 'insert', index: 0, value: 'x' }], 'left')).toEqual([
+        { type: 'remove', index: 2, value: 'b' },
+      ]);
+    });
+
+    it('should follow an item that was moved', () => {
+      const op: ListOp = [{ type: 'remove', index: 0, value: 'a' }];
+      expect(listType.transform(op, [{ type: 'move', from: 0, to: 2 }], 'left')).toEqual([
+        { type: 'remove', index: 2, value: 'a' },
+      ]);
+    });
+
+    it('should drop a move of an item that was removed', () => {
+      const op: ListOp = [{ type: 'move', from: 1, to: 0 }];
+      expect(listType.transform(op, [{ type: 'remove', index: 1, value: 'b' }], 'left')).toEqual([]);
+    });
+
+    it('should let the left side win when both move the same item', () => {
+      const op1: ListOp = [{ type: 'move', from: 0, to: 2 }];
+      const op2: ListOp = [{ type: 'move', from: 0, to: 1 }];
+      expect(listType.transform(op1, op2, 'left')).toEqual([{ type: 'move', from: 1, to: 2 }]);
+      expect(listType.transform(op1, op2, 'right')).toEqual([]);
+    });
+
+    it('should turn a replace of a removed item into an insert', () => {
+      const op: ListOp = [{ type: 'replace', index: 1, value: 'B', old: 'b' }];
+      expect(listType.transform(op, [{ type: 'remove', index: 1, value: 'b' }], 'left')).toEqual([
+        { type: 'insert', index: 1, value: 'B' },
+      ]);
+    });
+  });
+
+  describe('compose', () => {
+    it('should satisfy apply(apply(x, a), b) === apply(x, compose(a, b))', () => {
+      const a: ListOp = [{ type: 'insert', index: 0, value: 'x' }];
+      const b: ListOp = [{ type: 'move', from: 0, to: 2 }];
+      expect(listType.apply(['a', 'b'], listType.compose!(a, b))).toEqual(
+        listType.apply(listType.apply(['a', 'b'], a), b)
+      );
+    });
+  });
+
+  describe('invert', () => {
+    it('should satisfy apply(apply(x, op), invert(op)) === x', () => {
+      const list = ['a', 'b', 'c'];
+      const op: ListOp = [
+        { type: 'move', from: 0, to: 2 },
+        { type: 'remove', index: 0, value: 'b' },
+        { type: 'replace', index: 0, value: 'C', old: 'c' },
+        { type: 'insert', index: 2, value: 'x' },
+      ];
+      expect(listType.apply(listType.apply(list, op), listType.invert!(op))).toEqual(list);
+    });
+  });
+
+  describe('normalize', () => {
+    it('should drop moves of an item onto itself', () => {
+      expect(listType.normalize!([{ type: 'move', from: 1, to: 1 }])).toEqual([]);
+      expect(listType.isNoop!(listType.normalize!([{ type: 'move', from: 1, to: 1 }]))).toBe(true);
+    });
+  });
+
+  describe('validate', () => {
+    it('should name the field that is wrong', () => {
+      expect(() => listType.validate!({ type: 'insert' })).toThrow(OTError);
+      expect(() => listType.validate!([{ type: 'insert', index: -1, value: 'x' }])).toThrow("field 'index'");
+      expect(() => listType.validate!([{ type: 'insert', index: 0 }])).toThrow("field 'value'");
+      expect(() => listType.validate!([{ type: 'replace', index: 0, value: 'x' }])).toThrow("field 'old'");
+      expect(() => listType.validate!([{ type: 'move', from: 0, to: 'end' }])).toThrow("field 'to'");
+      expect(() => listType.validate!([{ type: 'swap' }])).toThrow("field 'type'");
+    });
+  });
+
+  describe('OT Property: Convergence', () => {
+    it('should converge when two clients move items in a kanban column', () => {
+      const column = ['todo-1', 'todo-2', 'todo-3', 'todo-4'];
+      const [result1, result2] = converge(column, [{ type: 'move', from: 3, to: 0 }], [{ type: 'move', from: 0, to: 3 }]);
+      expect(result1).toEqual(result2);
+      expect(result1).toEqual(['todo-4', 'todo-2', 'todo-3', 'todo-1']);
+    });
+
+    it('should converge when one client moves an item the other removes', () => {
+      const [result1, result2] = converge(
+        ['a', 'b', 'c'],
+        [{ type: 'move', from: 0, to: 2 }],
+        [{ type: 'remove', index: 0, value: 'a' }, { type: 'insert', index: 0, value: 'x' }]
+      );
+      expect(result1).toEqual(result2);
+      expect(result1).toEqual(['x', 'b', 'c']);
+    });
+
+    it('should satisfy the OT properties on random ops', () => {
+      let next = 0;
+      const component = (random: Random, list: ListSnapshot): ListComponent => {
+        const kind = random.int(4);
+        if (list.length === 0 || kind === 0) {
+          return { type: 'insert', index: random.int(list.length + 1), value: 'new-' + next++ };
+        }
+        const index = random.int(list.length);
+        if (kind === 1) return { type: 'remove', index, value: list[index] };
+        if (kind === 2) return { type: 'replace', index, value: 'new-' + next++, old: list[index] };
+        return { type: 'move', from: index, to: random.int(list.length) };
+      };
+
+      const result = checkConformance(listType, {
+        snapshot: (random, size) => Array.from({ length: random.int(size + 1) }, (_, i) => 'item-' + i),
+        op: (random, snapshot) => {
+          const op: ListOp = [];
+          let list = snapshot;
+          for (let i = random.int(3); i >= 0; i--) {
+            const c = component(random, list);
+            op.push(c);
+            list = listType.apply(list, [c]);
+          }
+          return op;
+        },
+      });
+
+      expect(result.failure).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * Tests for map OT type
+ */
+
+import { describe, it, expect } from 'vitest';
+import { mapType, MapOp, MapComponent, MapSnapshot } from '../../src/types/map';
+import { checkConformance } from '../../src/core/conformance';
+import { OTError } from '../../src/core/error';
+
+/**
+ * Apply a and b concurrently in both orders and return both results.
+ */
+function converge(doc: MapSnapshot, a: MapOp, b: MapOp): [MapSnapshot, MapSnapshot] {
+  const result1 = mapType.apply(mapType.apply(doc, a), mapType.transform(b, a, 'right'));
+  const result2 = mapType.apply(mapType.apply(doc, b), mapType.transform(a, b, 'left'));
+  return [result1, result2];
+}
+
+describe('Map Type', () => {
+  describe('create', () => {
+    it('should create an empty map by default', () => {
+      expect(mapType.create()).toEqual({});
+      expect(mapType.create([1, 2])).toEqual({});
+    });
+
+    it('should deep copy provided entries', () => {
+      const data = { theme: { name: 'dark' } };
+      const map = mapType.create(data) as typeof data;
+      map.theme.name = 'light';
+      expect(data.theme.name).toBe('dark');
+    });
+  });
+
+  describe('apply', () => {
+    it('should set and delete keys', () => {
+      const op: MapOp = [
+        { type: 'set', key: 'theme', value: 'dark' },
+        { type: 'delete', key: 'font' },
+      ];
+      expect(mapType.apply({ font: 'serif' }, op)).toEqual({ theme: 'dark' });
+    });
+
+    it('should add to numbers, starting missing keys at 0', () => {
+      const op: MapOp = [
+        { type: 'add', key: 'alice', amount: 1 },
+        { type: 'add', key: 'bob', amount: 2 },
+      ];
+      expect(mapType.apply({ alice: 4 }, op)).toEqual({ alice: 5, bob: 2 });
+    });
+
+    it('should reject adds to a value that is not a number', () => {
+      expect(() => mapType.apply({ theme: 'dark' }, [{ type: 'add', key: 'theme', amount: 1 }])).toThrow(OTError);
+    });
+
+    it('should not mutate the snapshot', () => {
+      const map = { a: 1 };
+      mapType.apply(map, [{ type: 'set', key: 'a', value: 2 }]);
+      expect(map).toEqual({ a: 1 });
+    });
+  });
+
+  describe('transform', () => {
+    it('should leave edits of different keys alone', () => {
+      const op: MapOp = [{ type: 'set', key: 'a', value: 1 }];
+      expect(mapType.transform(op, [{ type: 'delete', key: 'b' }], 'right')).toEqual(op);
+    });
+
+    it('should let the left side win concurrent writes to a key', () => {
+      const op1: MapOp = [{ type: 'set', key: 'a', value: 1 }];
+      const op2: MapOp = [{ type: 'delete', key: 'a' }];
+      expect(mapType.transform(op1, op2, 'left')).toEqual(op1);
+      expect(mapType.transform(op1, op2, 'right')).toEqual([]);
+    });
+
+    it('should drop an add to a key that was written concurrently', () => {
+      const op: MapOp = [{ type: 'add', key: 'a', amount: 1 }];
+      expect(mapType.transform(op, [{ type: 'set', key: 'a', value: 0 }], 'left')).toEqual([]);
+    });
+  });
+
+  describe('compose', () => {
+    it('should merge adjacent adds to the same key', () => {
+      expect(mapType.compose!([{ type: 'add', key: 'a', amount: 1 }], [{ type: 'add', key: 'a', amount: 2 }])).toEqual([
+        { type: 'add', key: 'a', amount: 3 },
+      ]);
+    });
+  });
+
+  describe('validate', () => {
+    it('should name the field that is wrong', () => {
+      expect(() => mapType.validate!({ type: 'set' })).toThrow(OTError);
+      expect(() => mapType.validate!([{ type: 'set', key: 1, value: 'x' }])).toThrow("field 'key'");
+      expect(() => mapType.validate!([{ type: 'set', key: 'a' }])).toThrow("field 'value'");
+      expect(() => mapType.validate!([{ type: 'add', key: 'a', amount: '1' }])).toThrow("field 'amount'");
+      expect(() => mapType.validate!([{ type: 'merge', key: 'a' }])).toThrow("field 'type'");
+    });
+  });
+
+  describe('OT Property: Convergence', () => {
+    it('should converge when both clients set the same key', () => {
+      const [result1, result2] = converge(
+        { theme: 'light' },
+        [{ type: 'set', key: 'theme', value: 'dark' }],
+        [{ type: 'set', key: 'theme', value: 'blue' }]
+      );
+      expect(result1).toEqual(result2);
+      expect(result1).toEqual({ theme: 'dark' });
+    });
+
+    it('should converge when both clients add to the same tally', () => {
+      const [result1, result2] = converge(
+        { alice: 1 },
+        [{ type: 'add', key: 'alice', amount: 5 }],
+        [{ type: 'add', key: 'alice', amount: 3 }, { type: 'add', key: 'bob', amount: 1 }]
+      );
+      expect(result1).toEqual(result2);
+      expect(result1).toEqual({ alice: 9, bob: 1 });
+    });
+
+    it('should satisfy the OT properties on random ops', () => {
+      const keys = ['a', 'b', 'c'];
+      const result = checkConformance(mapType, {
+        snapshot: (random, size) => {
+          const map: MapSnapshot = {};
+          for (const key of keys) {
+            if (random.int(2)) map[key] = random.int(size + 1);
+          }
+          return map;
+        },
+        op: (random) => {
+          const op: MapOp = [];
+          for (let i = random.int(3); i >= 0; i--) {
+            const key = random.pick(keys);
+            const component: MapComponent = random.pick<MapComponent>([
+              { type: 'set', key, value: random.int(10) },
+              { type: 'delete', key },
+              { type: 'add', key, amount: random.int(5) + 1 },
+            ]);
+            op.push(component);
+          }
+          return op;
+        },
+      }, {
+        // Key order doesn't matter in a map
+        equal: (a, b) => JSON.stringify(a, Object.keys(a).sort()) === JSON.stringify(b, Object.keys(b).sort()),
+      });
+
+      expect(result.failure).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * Tests for multi-component text OT type
+ */
+
+import { describe, it, expect } from 'vitest';
+import { multiTextType, makeInvertible, MultiTextOp } from '../../src/types/multi-text';
+import { OTError } from '../../src/core/error';
+
+describe('Multi-component Text Type', () => {
+  describe('create', () => {
+    it('should create empty string by default', () => {
+      expect(multiTextType.create()).toBe('');
+    });
+
+    it('should create with provided string', () => {
+      expect(multiTextType.create('hello')).toBe('hello');
+    });
+  });
+
+  describe('apply', () => {
+    it('should insert at the start', () => {
+      expect(multiTextType.apply('hello', ['X'])).toBe('Xhello');
+    });
+
+    it('should retain, insert and delete in one op', () => {
+      expect(multiTextType.apply('hello world', [6, 'there', { d: 5 }])).toBe('hello there');
+    });
+
+    it('should accept deletes that record their text', () => {
+      expect(multiTextType.apply('hello', [1, { d: 'ell' }])).toBe('ho');
+    });
+
+    it('should reject a recorded delete that does not match', () => {
+      expect(() => multiTextType.apply('hello', [{ d: 'xyz' }])).toThrow(OTError);
+    });
+
+    it('should reject ops longer than the document', () => {
+      expect(() => multiTextType.apply('hi', [5, 'X'])).toThrow(OTError);
+    });
+
+    it('should reject badly formed components', () => {
+      expect(() => multiTextType.apply('hi', [0])).toThrow(OTError);
+      expect(() => multiTextType.apply('hi', [{ d: -1 }])).toThrow(OTError);
+    });
+  });
+
+  describe('transform', () => {
+    it('should shift an insert after an earlier insert', () => {
+      expect(multiTextType.transform([3, 'X'], ['ab'], 'left')).toEqual([5, 'X']);
+    });
+
+    it('should use side for tie-breaking at the same position', () => {
+      expect(multiTextType.transform([2, 'A'], [2, 'B'], 'left')).toEqual([2, 'A']);
+      expect(multiTextType.transform([2, 'A'], [2, 'B'], 'right')).toEqual([3, 'A']);
+    });
+
+    it('should drop the part of a delete that was already deleted', () => {
+      // op1 deletes 3..6, op2 deletes 5..7
+      expect(multiTextType.transform([3, { d: 4 }], [5, { d: 3 }], 'left')).toEqual([3, { d: 2 }]);
+    });
+
+    it('should keep recorded delete text consistent', () => {
+      expect(multiTextType.transform([1, { d: 'bcd' }], [2, { d: 'cde' }], 'left')).toEqual([1, { d: 'b' }]);
+    });
+
+    it('should split a delete around a concurrent insert', () => {
+      expect(multiTextType.transform([1, { d: 'bcd' }], [2, 'X'], 'left')).toEqual([
+        1,
+        { d: 'b' },
+        1,
+        { d: 'cd' },
+      ]);
+    });
+  });
+
+  describe('compose', () => {
+    it('should cancel an insert followed by its deletion', () => {
+      expect(multiTextType.compose!(['abc'], [1, { d: 1 }])).toEqual(['ac']);
+    });
+
+    it('should satisfy apply(apply(x, a), b) === apply(x, compose(a, b))', () => {
+      const doc = 'hello world';
+      const a: MultiTextOp = [6, { d: 'world' }, 'there'];
+      const b: MultiTextOp = ['Oh, ', 5, { d: ' ' }, 'X'];
+      expect(multiTextType.apply(doc, multiTextType.compose!(a, b))).toBe(
+        multiTextType.apply(multiTextType.apply(doc, a), b)
+      );
+    });
+  });
+
+  describe('invert', () => {
+    it('should satisfy apply(apply(x, op), invert(op)) === x', () => {
+      const doc = 'hello world';
+      const op: MultiTextOp = [6, 'there', { d: 'world' }];
+      const after = multiTextType.apply(doc, op);
+      expect(multiTextType.apply(after, multiTextType.invert!(op))).toBe(doc);
+    });
+
+    it('should reject deletes without recorded text', () => {
+      expect(() => multiTextType.invert!([{ d: 3 }])).toThrow(OTError);
+    });
+
+    it('should fill in deleted text with makeInvertible', () => {
+      expect(makeInvertible([1, { d: 2 }], 'hello')).toEqual([1, { d: 'el' }]);
+    });
+  });
+
+  describe('normalize', () => {
+    it('should merge components and drop the trailing retain', () => {
+      expect(multiTextType.normalize!([1, 2, 'a', '', 'b', 3])).toEqual([3, 'ab']);
+    });
+
+    it('should normalize a no-op to an empty op', () => {
+      expect(multiTextType.normalize!([5, { d: 0 }])).toEqual([]);
+    });
+  });
+
+  describe('OT Property: Convergence', () => {
+    function converge(doc: string, a: MultiTextOp, b: MultiTextOp): [string, string] {
+      const result1 = multiTextType.apply(multiTextType.apply(doc, a), multiTextType.transform(b, a, 'right'));
+      const result2 = multiTextType.apply(multiTextType.apply(doc, b), multiTextType.transform(a, b, 'left'));
+      return [result1, result2];
+    }
+
+    it('should converge when two clients replace overlapping selections', () => {
+      const [result1, result2] = converge('hello world', [{ d: 5 }, 'HEY'], [4, { d: 3 }, '_']);
+      expect(result1).toBe(result2);
+      expect(result1).toBe('HEY_orld');
+    });
+
+    it('should converge when two clients insert at the same position', () => {
+      const [result1, result2] = converge('hello', [2, 'A'], [2, 'B']);
+      expect(result1).toBe(result2);
+      expect(result1).toBe('heABllo');
+    });
+  });
+});
@@ -0,0 +1,177 @@
+/**
+ * Tests for rich text OT type
+ */
+
+import { describe, it, expect } from 'vitest';
+import { richTextType, makeInvertible, RichTextOp, RichTextSnapshot } from '../../src/types/rich-text';
+import { OTError } from '../../src/core/error';
+
+describe('Rich Text Type', () => {
+  describe('create', () => {
+    it('should create an empty document by default', () => {
+      expect(richTextType.create()).toEqual([]);
+    });
+
+    it('should create from a plain string', () => {
+      expect(richTextType.create('hello')).toEqual([{ insert: 'hello' }]);
+    });
+
+    it('should create from formatted inserts', () => {
+      const doc = [{ insert: 'a', attributes: { bold: true } }, { insert: 'b', attributes: { bold: true } }];
+      expect(richTextType.create(doc)).toEqual([{ insert: 'ab', attributes: { bold: true } }]);
+    });
+  });
+
+  describe('apply', () => {
+    it('should insert formatted text', () => {
+      const result = richTextType.apply([{ insert: 'hello' }], [{ retain: 5 }, { insert: '!', attributes: { bold: true } }]);
+      expect(result).toEqual([{ insert: 'hello' }, { insert: '!', attributes: { bold: true } }]);
+    });
+
+    it('should change attributes on retained text', () => {
+      const result = richTextType.apply(
+        [{ insert: 'hello world' }],
+        [{ retain: 6 }, { retain: 5, attributes: { bold: true } }]
+      );
+      expect(result).toEqual([{ insert: 'hello ' }, { insert: 'world', attributes: { bold: true } }]);
+    });
+
+    it('should remove attributes set to null', () => {
+      const result = richTextType.apply(
+        [{ insert: 'hi', attributes: { bold: true, italic: true } }],
+        [{ retain: 2, attributes: { bold: null } }]
+      );
+      expect(result).toEqual([{ insert: 'hi', attributes: { italic: true } }]);
+    });
+
+    it('should delete text', () => {
+      expect(richTextType.apply([{ insert: 'hello' }], [{ retain: 1 }, { delete: 3 }])).toEqual([{ insert: 'ho' }]);
+    });
+
+    it('should reject ops longer than the document', () => {
+      expect(() => richTextType.apply([{ insert: 'hi' }], [{ retain: 5 }, { insert: 'X' }])).toThrow(OTError);
+    });
+
+    it('should reject a recorded delete that does not match', () => {
+      expect(() => richTextType.apply([{ insert: 'hi' }], [{ delete: 2, deleted: { insert: 'no' } }])).toThrow(OTError);
+    });
+  });
+
+  describe('transform', () => {
+    it('should skip over a concurrent insert when formatting', () => {
+      const result = richTextType.transform([{ retain: 2, attributes: { bold: true } }], [{ insert: 'X' }], 'left');
+      expect(result).toEqual([{ retain: 1 }, { retain: 2, attributes: { bold: true } }]);
+    });
+
+    it('should drop formatting of text deleted concurrently', () => {
+      const result = richTextType.transform([{ retain: 4, attributes: { bold: true } }], [{ retain: 1 }, { delete: 2 }], 'left');
+      expect(result).toEqual([{ retain: 2, attributes: { bold: true } }]);
+    });
+
+    it('should let the left side win conflicting attribute changes', () => {
+      const op1: RichTextOp = [{ retain: 2, attributes: { color: 'red' } }];
+      const op2: RichTextOp = [{ retain: 2, attributes: { color: 'blue' } }];
+      expect(richTextType.transform(op1, op2, 'left')).toEqual(op1);
+      expect(richTextType.transform(op1, op2, 'right')).toEqual([]);
+    });
+
+    it('should use side for tie-breaking inserts at the same position', () => {
+      expect(richTextType.transform([{ insert: 'A' }], [{ insert: 'B' }], 'left')).toEqual([{ insert: 'A' }]);
+      expect(richTextType.transform([{ insert: 'A' }], [{ insert: 'B' }], 'right')).toEqual([{ retain: 1 }, { insert: 'A' }]);
+    });
+  });
+
+  describe('compose', () => {
+    it('should format text inserted by the first op', () => {
+      const result = richTextType.compose!([{ insert: 'hi' }], [{ retain: 2, attributes: { bold: true } }]);
+      expect(result).toEqual([{ insert: 'hi', attributes: { bold: true } }]);
+    });
+
+    it('should satisfy apply(apply(x, a), b) === apply(x, compose(a, b))', () => {
+      const doc: RichTextSnapshot = [{ insert: 'hello ' }, { insert: 'world', attributes: { italic: true } }];
+      const a: RichTextOp = [{ retain: 6 }, { delete: 5 }, { insert: 'there', attributes: { bold: true } }];
+      const b: RichTextOp = [{ retain: 3, attributes: { italic: true } }, { retain: 4 }, { delete: 2 }, { insert: '!' }];
+      expect(richTextType.apply(doc, richTextType.compose!(a, b))).toEqual(
+        richTextType.apply(richTextType.apply(doc, a), b)
+      );
+    });
+  });
+
+  describe('invert', () => {
+    it('should satisfy apply(apply(x, op), invert(op)) === x', () => {
+      const doc: RichTextSnapshot = [{ insert: 'hello ' }, { insert: 'world', attributes: { italic: true } }];
+      const op = makeInvertible(
+        [{ retain: 2, attributes: { bold: true, italic: null } }, { delete: 6 }, { insert: 'X' }],
+        doc
+      );
+      const after = richTextType.apply(doc, op);
+      expect(richTextType.apply(after, richTextType.invert!(op))).toEqual(doc);
+    });
+
+    it('should reject ops that do not record what they replaced', () => {
+      expect(() => richTextType.invert!([{ delete: 2 }])).toThrow(OTError);
+      expect(() => richTextType.invert!([{ retain: 2, attributes: { bold: true } }])).toThrow(OTError);
+    });
+
+    it('should keep ops invertible through transform', () => {
+      const doc: RichTextSnapshot = [{ insert: 'abcd' }];
+      const op1 = makeInvertible([{ retain: 1 }, { delete: 2 }], doc);
+      const op2: RichTextOp = [{ retain: 2, attributes: { bold: true } }];
+      const transformed = richTextType.transform(op1, op2, 'left');
+      const after = richTextType.apply(richTextType.apply(doc, op2), transformed);
+      expect(richTextType.apply(after, richTextType.invert!(transformed))).toEqual(richTextType.apply(doc, op2));
+    });
+  });
+
+  describe('normalize', () => {
+    it('should merge components and drop the trailing retain', () => {
+      expect(richTextType.normalize!([{ insert: 'a' }, { insert: 'b' }, { retain: 0 }, { retain: 3 }])).toEqual([
+        { insert: 'ab' },
+      ]);
+    });
+  });
+
+  describe('OT Property: Convergence', () => {
+    function converge(doc: RichTextSnapshot, a: RichTextOp, b: RichTextOp): [RichTextSnapshot, RichTextSnapshot] {
+      const result1 = richTextType.apply(richTextType.apply(doc, a), richTextType.transform(b, a, 'right'));
+      const result2 = richTextType.apply(richTextType.apply(doc, b), richTextType.transform(a, b, 'left'));
+      return [result1, result2];
+    }
+
+    it('should converge when two clients insert at the same position', () => {
+      const [result1, result2] = converge([{ insert: 'hello' }], [{ retain: 2 }, { insert: 'A' }], [
+        { retain: 2 },
+        { insert: 'B' },
+      ]);
+      expect(result1).toEqual(result2);
+      expect(result1).toEqual([{ insert: 'heABllo' }]);
+    });
+
+    it('should converge when formatting text that is concurrently edited', () => {
+      const [result1, result2] = converge(
+        [{ insert: 'hello world' }],
+        [{ retain: 11, attributes: { bold: true } }],
+        [{ retain: 5 }, { delete: 1 }, { insert: ', ' }]
+      );
+      expect(result1).toEqual(result2);
+      expect(result1).toEqual([
+        { insert: 'hello', attributes: { bold: true } },
+        { insert: ', ' },
+        { insert: 'world', attributes: { bold: true } },
+      ]);
+    });
+
+    it('should converge on conflicting attribute changes', () => {
+      const [result1, result2] = converge(
+        [{ insert: 'abc' }],
+        [{ retain: 2, attributes: { color: 'red' } }],
+        [{ retain: 1 }, { retain: 2, attributes: { color: 'blue' } }]
+      );
+      expect(result1).toEqual(result2);
+      expect(result1).toEqual([
+        { insert: 'ab', attributes: { color: 'red' } },
+        { insert: 'c', attributes: { color: 'blue' } },
+      ]);
+    });
+  });
+});
@@ -3,7 +3,8 @@
  */
 
 import { describe, it, expect } from 'vitest';
-import { textType, InsertOp, DeleteOp, TextOp } from '../../src/types/text';
+import { textType, makeInvertible, InsertOp, DeleteOp, TextOp } from '../../src/types/text';
+import { OTError } from '../../src/core/error';
 
 describe('Text Type', () => {
   describe('create', () => {
@@ -58,6 +59,61 @@ describe('Text Type', () => {
         const op: DeleteOp = { type: 'delete', pos: 3, count: 2 };
         expect(textType.apply('hello', op)).toBe('hel');
       });
+
+      it('should accept a delete that records matching text', () => {
+        const op: DeleteOp = { type: 'delete', pos: 1, count: 2, text: 'el' };
+        expect(textType.apply('hello', op)).toBe('hlo');
+      });
+
+      it('should reject a delete whose recorded text does not match', () => {
+        const op: DeleteOp = { type: 'delete', pos: 1, count: 2, text: 'xy' };
+        expect(() => textType.apply('hello', op)).toThrow(OTError);
+      });
+
+      it('should reject a delete past the end of the document', () => {
+        const op: DeleteOp = { type: 'delete', pos: 3, count: 5 };
+        expect(() => textType.apply('hello', op)).toThrow("field 'count'");
+      });
+    });
+
+    it('should reject an insert past the end of the document', () => {
+      const op: InsertOp = { type: 'insert', pos: 9, text: 'X' };
+      expect(() => textType.apply('hello', op)).toThrow("field 'pos'");
+    });
+  });
+
+  describe('normalize', () => {
+    it('should turn an empty insert into an empty delete', () => {
+      expect(textType.normalize!({ type: 'insert', pos: 2, text: '' })).toEqual({
+        type: 'delete',
+        pos: 2,
+        count: 0,
+        text: '',
+      });
+    });
+
+    it('should detect no-ops', () => {
+      expect(textType.isNoop!({ type: 'delete', pos: 2, count: 0 })).toBe(true);
+      expect(textType.isNoop!({ type: 'delete', pos: 2, count: 1 })).toBe(false);
+      expect(textType.isNoop!({ type: 'insert', pos: 2, text: 'a' })).toBe(false);
+    });
+  });
+
+  describe('validate', () => {
+    it('should accept well formed ops', () => {
+      expect(() => textType.validate!({ type: 'insert', pos: 0, text: 'a' })).not.toThrow();
+      expect(() => textType.validate!({ type: 'delete', pos: 2, count: 0 })).not.toThrow();
+      expect(() => textType.validate!({ type: 'delete', pos: 2, count: 1, text: 'a' })).not.toThrow();
+    });
+
+    it('should name the field that is wrong', () => {
+      expect(() => textType.validate!('abc')).toThrow(OTError);
+      expect(() => textType.validate!({ type: 'replace', pos: 0 })).toThrow("field 'type'");
+      expect(() => textType.validate!({ type: 'insert', pos: -5, text: 'a' })).toThrow("field 'pos'");
+      expect(() => textType.validate!({ type: 'insert', pos: 1.5, text: 'a' })).toThrow("field 'pos'");
+      expect(() => textType.validate!({ type: 'insert', pos: 0, text: '' })).toThrow("field 'text'");
+      expect(() => textType.validate!({ type: 'delete', pos: 0, count: -1 })).toThrow("field 'count'");
+      expect(() => textType.validate!({ type: 'delete', pos: 0, count: 1, text: 1 })).toThrow("field 'text'");
     });
   });
 
@@ -121,6 +177,15 @@ describe('Text Type', () => {
 
         expect(result.pos).toBe(2); // Moved to start of delete
       });
+
+      it('should swallow an insert made inside a concurrently deleted range', () => {
+        const op1: InsertOp = { type: 'insert', pos: 3, text: 'X' };
+        const op2: DeleteOp = { type: 'delete', pos: 2, count: 2 };
+
+        const result = textType.transform(op1, op2, 'left');
+
+        expect(result).toEqual({ type: 'delete', pos: 2, count: 0, text: '' });
+      });
     });
 
     describe('delete vs insert', () => {
@@ -133,6 +198,23 @@ describe('Text Type', () => {
         expect(result.pos).toBe(7); // 5 + 2 = 7
         expect(result.count).toBe(2);
       });
+
+      it('should shift right on an insert at the delete position, whatever the side', () => {
+        const op1: DeleteOp = { type: 'delete', pos: 2, count: 2, text: 'll' };
+        const op2: InsertOp = { type: 'insert', pos: 2, text: 'X' };
+
+        expect(textType.transform(op1, op2, 'left')).toEqual({ type: 'delete', pos: 3, count: 2, text: 'll' });
+        expect(textType.transform(op1, op2, 'right')).toEqual({ type: 'delete', pos: 3, count: 2, text: 'll' });
+      });
+
+      it('should also delete text inserted inside the deleted range', () => {
+        const op1: DeleteOp = { type: 'delete', pos: 1, count: 3, text: 'ell' };
+        const op2: InsertOp = { type: 'insert', pos: 2, text: 'XY' };
+
+        const result = textType.transform(op1, op2, 'left') as DeleteOp;
+
+        expect(result).toEqual({ type: 'delete', pos: 1, count: 5, text: 'eXYll' });
+      });
     });
 
     describe('delete vs delete', () => {
@@ -165,6 +247,135 @@ describe('Text Type', () => {
 
         expect(result.count).toBe(0); // Nothing left to delete
       });
+
+      it('should trim recorded text along with count', () => {
+        // "abcdefgh": op1 deletes "cdef", op2 deletes "efg"
+        const op1: DeleteOp = { type: 'delete', pos: 2, count: 4, text: 'cdef' };
+        const op2: DeleteOp = { type: 'delete', pos: 4, count: 3, text: 'efg' };
+
+        const result = textType.transform(op1, op2, 'left') as DeleteOp;
+
+        expect(result).toEqual({ type: 'delete', pos: 2, count: 2, text: 'cd' });
+        expect(textType.apply(textType.apply('abcdefgh', op2), result)).toBe('abh');
+      });
+
+      it('should trim recorded text when the other delete is inside ours', () => {
+        const op1: DeleteOp = { type: 'delete', pos: 1, count: 5, text: 'bcdef' };
+        const op2: DeleteOp = { type: 'delete', pos: 2, count: 2, text: 'cd' };
+
+        const result = textType.transform(op1, op2, 'left') as DeleteOp;
+
+        expect(result).toEqual({ type: 'delete', pos: 1, count: 3, text: 'bef' });
+      });
+    });
+  });
+
+  describe('invert', () => {
+    it('should invert an insert into a delete of the same text', () => {
+      const op: InsertOp = { type: 'insert', pos: 1, text: 'XY' };
+      expect(textType.invert!(op)).toEqual({ type: 'delete', pos: 1, count: 2, text: 'XY' });
+    });
+
+    it('should satisfy apply(apply(x, op), invert(op)) === x for deletes', () => {
+      const initial = 'hello';
+      const op = makeInvertible({ type: 'delete', pos: 1, count: 3 }, initial);
+      const afterApply = textType.apply(initial, op);
+      expect(textType.apply(afterApply, textType.invert!(op))).toBe(initial);
+    });
+
+    it('should reject a delete without recorded text', () => {
+      const op: DeleteOp = { type: 'delete', pos: 1, count: 3 };
+      expect(() => textType.invert!(op)).toThrow(OTError);
+    });
+  });
+
+  describe('Unicode positions', () => {
+    it('should count an astral character as one position', () => {
+      expect(textType.apply('a😀b', { type: 'insert', pos: 2, text: 'X' })).toBe('a😀Xb');
+      expect(textType.apply('a😀b', { type: 'delete', pos: 1, count: 1, text: '😀' })).toBe('ab');
+    });
+
+    it('should never split a surrogate pair', () => {
+      // Position 1 is before the emoji, position 2 after it; nothing lands in between
+      for (let pos = 0; pos <= 3; pos++) {
+        const result = textType.apply('a😀b', { type: 'insert', pos, text: 'X' });
+        expect(result.replace('X', '')).toBe('a😀b');
+      }
+    });
+
+    it('should treat combining marks as positions of their own', () => {
+      const text = 'e\u0301t'; // "ét" with a combining acute accent
+      expect(textType.apply(text, { type: 'delete', pos: 1, count: 1 })).toBe('et');
+      expect(textType.apply(text, { type: 'insert', pos: 2, text: '!' })).toBe('e\u0301!t');
+    });
+
+    it('should shift positions by the code point length of an insert', () => {
+      const op: InsertOp = { type: 'insert', pos: 3, text: 'X' };
+      expect(textType.transform(op, { type: 'insert', pos: 0, text: '👍🏽' }, 'left')).toEqual({
+        type: 'insert',
+        pos: 5,
+        text: 'X',
+      });
+      expect(textType.transformCursor!(3, { type: 'insert', pos: 0, text: '😀' }, false)).toBe(4);
+    });
+
+    it('should invert deletes of astral characters exactly', () => {
+      const op = makeInvertible({ type: 'delete', pos: 1, count: 2 }, 'a😀🎉b');
+      expect(op).toEqual({ type: 'delete', pos: 1, count: 2, text: '😀🎉' });
+      expect(textType.apply(textType.apply('a😀🎉b', op), textType.invert!(op))).toBe('a😀🎉b');
+    });
+
+    it('should reject text with unpaired surrogates', () => {
+      expect(() => textType.validate!({ type: 'insert', pos: 0, text: '\uD83D' })).toThrow("field 'text'");
+      expect(() => textType.validate!({ type: 'delete', pos: 0, count: 1, text: '\uDE00' })).toThrow("field 'text'");
+    });
+
+    it('should reject recorded text whose code point length differs from count', () => {
+      expect(() => textType.validate!({ type: 'delete', pos: 0, count: 2, text: '😀' })).toThrow("field 'text'");
+    });
+  });
+
+  describe('transformCursor', () => {
+    it('should shift a cursor after an insert before it', () => {
+      expect(textType.transformCursor!(3, { type: 'insert', pos: 1, text: 'XY' }, false)).toBe(5);
+    });
+
+    it('should move past our own insert at the cursor but not a remote one', () => {
+      const op: InsertOp = { type: 'insert', pos: 3, text: 'XY' };
+      expect(textType.transformCursor!(3, op, true)).toBe(5);
+      expect(textType.transformCursor!(3, op, false)).toBe(3);
+    });
+
+    it('should move a cursor inside a deleted range to its start', () => {
+      expect(textType.transformCursor!(3, { type: 'delete', pos: 1, count: 4 }, false)).toBe(1);
+      expect(textType.transformCursor!(6, { type: 'delete', pos: 1, count: 4 }, false)).toBe(2);
+      expect(textType.transformCursor!(1, { type: 'delete', pos: 1, count: 4 }, false)).toBe(1);
+    });
+  });
+
+  describe('transformSelection', () => {
+    it('should not grow to include remote text inserted at its edges', () => {
+      expect(textType.transformSelection!({ start: 2, end: 4 }, { type: 'insert', pos: 2, text: 'X' }, false)).toEqual({
+        start: 3,
+        end: 5,
+      });
+      expect(textType.transformSelection!({ start: 4, end: 2 }, { type: 'insert', pos: 4, text: 'X' }, false)).toEqual({
+        start: 4,
+        end: 2,
+      });
+    });
+
+    it('should treat a collapsed selection as a cursor', () => {
+      const op: InsertOp = { type: 'insert', pos: 2, text: 'X' };
+      expect(textType.transformSelection!({ start: 2, end: 2 }, op, false)).toEqual({ start: 2, end: 2 });
+      expect(textType.transformSelection!({ start: 2, end: 2 }, op, true)).toEqual({ start: 3, end: 3 });
+    });
+
+    it('should shrink when part of the selection is deleted', () => {
+      expect(textType.transformSelection!({ start: 1, end: 5 }, { type: 'delete', pos: 3, count: 4 }, false)).toEqual({
+        start: 1,
+        end: 3,
+      });
     });
   });
 